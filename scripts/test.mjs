@@ -0,0 +1,45 @@
+import esbuild from 'esbuild';
+import { spawnSync } from 'child_process';
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, relative } from 'path';
+import process from 'process';
+
+// Tests live next to the code as `*.test.ts`. They are bundled with a stand-in for the `obsidian` module,
+// which only exists inside the app, and run with the Node test runner.
+const findTests = dir =>
+    readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+        const path = join(dir, entry.name);
+        if (entry.isDirectory()) {
+            return findTests(path);
+        }
+        return entry.name.endsWith('.test.ts') ? [path] : [];
+    });
+
+const testFiles = findTests('src');
+if (testFiles.length === 0) {
+    console.log('No tests found');
+    process.exit(0);
+}
+
+const outdir = mkdtempSync(join(tmpdir(), 'featured-image-tests-'));
+
+try {
+    await esbuild.build({
+        entryPoints: testFiles,
+        outdir,
+        outbase: 'src',
+        bundle: true,
+        platform: 'node',
+        format: 'cjs',
+        target: 'node20',
+        alias: { obsidian: './src/test-utils/obsidian-stub.ts' },
+        logLevel: 'warning'
+    });
+
+    const bundles = testFiles.map(file => join(outdir, relative('src', file).replace(/\.ts$/, '.js')));
+    const result = spawnSync(process.execPath, ['--test', ...bundles], { stdio: 'inherit' });
+    process.exitCode = result.status ?? 1;
+} finally {
+    rmSync(outdir, { recursive: true, force: true });
+}
@@ -0,0 +1,63 @@
+import { App, TFile, getAllTags } from 'obsidian';
+import type { DefaultImageRule } from '../settings';
+import { matchesAnyPattern } from '../utils/glob';
+import { resolveLocalImagePath } from '../utils/obsidian';
+
+/**
+ * A default image selected by a rule, resolved to a vault path.
+ */
+interface DefaultImage {
+    path: string;
+    override: boolean; // Whether the image replaces images detected in the note
+}
+
+/**
+ * Checks whether a rule applies to a note.
+ * Rules starting with `#` match the tag and its nested tags (`#book` matches `#book/fiction`);
+ * all other rules are globs or regular expressions matched against the note path.
+ * @param {DefaultImageRule} rule - The rule to test.
+ * @param {TFile} file - The note being processed.
+ * @param {string[]} tags - Lowercase tags of the note, including the leading `#`.
+ * @returns {boolean} True when the rule applies.
+ */
+const matchesRule = (rule: DefaultImageRule, file: TFile, tags: string[]): boolean => {
+    const match = rule.match.trim();
+    if (!match) {
+        return false;
+    }
+
+    if (match.startsWith('#')) {
+        const tag = match.toLowerCase();
+        return tags.some(noteTag => noteTag === tag || noteTag.startsWith(`${tag}/`));
+    }
+
+    return matchesAnyPattern(file.path, [match]);
+};
+
+/**
+ * Finds the default image for a note from the first matching rule whose image exists.
+ * @param {App} app - The Obsidian app instance.
+ * @param {TFile} file - The note being processed.
+ * @param {DefaultImageRule[]} rules - Rules in priority order.
+ * @returns {DefaultImage | undefined} The resolved default image, or undefined when no rule applies.
+ */
+export const getDefaultImage = (app: App, file: TFile, rules: DefaultImageRule[]): DefaultImage | undefined => {
+    if (rules.length === 0) {
+        return undefined;
+    }
+
+    const cache = app.metadataCache.getFileCache(file);
+    const tags = cache ? (getAllTags(cache) ?? []).map(tag => tag.toLowerCase()) : [];
+
+    for (const rule of rules) {
+        if (!rule.image.trim() || !matchesRule(rule, file, tags)) {
+            continue;
+        }
+        const path = resolveLocalImagePath(app, rule.image.trim(), file);
+        if (path) {
+            return { path, override: rule.override };
+        }
+    }
+
+    return undefined;
+};
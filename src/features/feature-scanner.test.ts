@@ -0,0 +1,197 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { App, LinkCache, TFile } from 'obsidian';
+import { DEFAULT_SETTINGS, FeaturedImageSettings } from '../settings';
+import { createFakeApp } from '../test-utils/fake-app';
+import { FeatureScanner } from './feature-scanner';
+import { createDefaultImageSourceRegistry } from './providers';
+
+type FeatureScannerDeps = ConstructorParameters<typeof FeatureScanner>[2];
+
+const createScanner = (app: App, settings: Partial<FeaturedImageSettings>, deps: Partial<FeatureScannerDeps> = {}): FeatureScanner => {
+    const unavailable = async () => undefined;
+    return new FeatureScanner(
+        app,
+        { ...DEFAULT_SETTINGS, ...settings },
+        {
+            imageSources: createDefaultImageSourceRegistry(),
+            downloadExternalImage: unavailable,
+            downloadYoutubeThumbnail: unavailable,
+            downloadVideoThumbnail: unavailable,
+            saveInlineImage: unavailable,
+            renderPdfPage: unavailable,
+            captureVideoFrame: unavailable,
+            extractAudioCover: unavailable,
+            getExcalidrawImage: unavailable,
+            renderMermaidDiagram: unavailable,
+            getPageImageUrl: unavailable,
+            debugLog: () => {},
+            errorLog: () => {},
+            ...deps
+        }
+    );
+};
+
+const link = (target: string, offset = 0): LinkCache => {
+    const position = { line: 0, col: offset, offset };
+    return { link: target, original: `[[${target}]]`, position: { start: position, end: position } };
+};
+
+const getFile = (app: App, path: string): TFile => {
+    const file = app.vault.getAbstractFileByPath(path);
+    assert.ok(file instanceof TFile);
+    return file;
+};
+
+describe('FeatureScanner inheritance', () => {
+    it('inherits the stored feature of a linked note', async () => {
+        // The parent's feature was set by hand; its content has no image
+        const app = createFakeApp({
+            'Child.md': { content: 'See [[Parent]]', cache: { links: [link('Parent', 4)] } },
+            'Parent.md': { content: '---\nfeature: cover.png\n---\n', cache: { frontmatter: { feature: 'cover.png' } } },
+            'cover.png': {}
+        });
+        const scanner = createScanner(app, { inheritFromLinks: true });
+        const child = getFile(app, 'Child.md');
+
+        assert.equal(await scanner.getFeatureFromNote(child, undefined), 'cover.png');
+        assert.equal(scanner.getInheritanceSource(child)?.path, 'Parent.md');
+    });
+
+    it('does not inherit back a feature a linked note inherited from this note', async () => {
+        // A's image was removed; P inherited it earlier, recorded where from, and the two notes link each other
+        const app = createFakeApp({
+            'A.md': { content: 'See [[P]]', cache: { frontmatter: { feature: 'old.png' }, links: [link('P', 4)] } },
+            'P.md': {
+                content: 'Back to [[A]]',
+                cache: {
+                    frontmatter: { feature: 'old.png', inheritedFrom: '[[A]]' },
+                    frontmatterLinks: [{ key: 'inheritedFrom', link: 'A', original: '[[A]]' }],
+                    links: [link('A', 8)]
+                }
+            },
+            'old.png': {}
+        });
+        const scanner = createScanner(app, { inheritFromLinks: true });
+        const a = getFile(app, 'A.md');
+
+        assert.equal(await scanner.getFeatureFromNote(a, 'old.png'), undefined);
+        assert.equal(scanner.getInheritanceSource(a), undefined);
+    });
+
+    it('passes inherited features down a chain of notes', async () => {
+        const app = createFakeApp({
+            'Grandparent.md': { cache: { frontmatter: { feature: 'cover.png' } } },
+            'Parent.md': {
+                cache: {
+                    frontmatter: { feature: 'cover.png', up: '[[Grandparent]]', inheritedFrom: '[[Grandparent]]' },
+                    frontmatterLinks: [
+                        { key: 'up', link: 'Grandparent', original: '[[Grandparent]]' },
+                        { key: 'inheritedFrom', link: 'Grandparent', original: '[[Grandparent]]' }
+                    ]
+                }
+            },
+            'Child.md': {
+                cache: { frontmatter: { up: '[[Parent]]' }, frontmatterLinks: [{ key: 'up', link: 'Parent', original: '[[Parent]]' }] }
+            },
+            'cover.png': {}
+        });
+        const scanner = createScanner(app, { inheritFromProperties: ['up'] });
+        const child = getFile(app, 'Child.md');
+
+        assert.equal(await scanner.getFeatureFromNote(child, undefined), 'cover.png');
+        assert.equal(scanner.getInheritanceSource(child)?.path, 'Parent.md');
+    });
+
+    it('only returns notes linking through the enabled inheritance sources', () => {
+        const app = createFakeApp({
+            'Parent.md': { content: '' },
+            'ByProperty.md': { cache: { frontmatterLinks: [{ key: 'up', link: 'Parent', original: '[[Parent]]' }] } },
+            'ByLink.md': { cache: { links: [link('Parent')] } }
+        });
+        const parent = getFile(app, 'Parent.md');
+
+        const byProperty = createScanner(app, { inheritFromProperties: ['up'] }).getInheritingNotes(parent);
+        assert.deepEqual(
+            byProperty.map(file => file.path),
+            ['ByProperty.md']
+        );
+
+        const byLink = createScanner(app, { inheritFromLinks: true }).getInheritingNotes(parent);
+        assert.deepEqual(
+            byLink.map(file => file.path),
+            ['ByLink.md']
+        );
+    });
+});
+
+describe('FeatureScanner frontmatter', () => {
+    const notes = {
+        'Unix.md': '---\nbanner: "![[banner.png]]"\n---\n![[body.png]]',
+        'Windows.md': '---\r\nbanner: "![[banner.png]]"\r\n---\r\n![[body.png]]',
+        'Empty.md': '---\n---\n![[body.png]]'
+    };
+
+    for (const [path, content] of Object.entries(notes)) {
+        it(`skips the frontmatter of ${path}`, async () => {
+            const app = createFakeApp({ [path]: { content }, 'banner.png': {}, 'body.png': {} });
+
+            assert.equal(await createScanner(app, {}).getFeatureFromNote(getFile(app, path), undefined), 'body.png');
+        });
+    }
+
+    it('skips frontmatter that ends the note', async () => {
+        const app = createFakeApp({ 'Note.md': { content: '---\r\nbanner: "![[banner.png]]"\r\n---' }, 'banner.png': {} });
+
+        assert.equal(await createScanner(app, {}).getFeatureFromNote(getFile(app, 'Note.md'), undefined), undefined);
+    });
+
+    it('does not treat a thematic break later in the note as frontmatter', async () => {
+        const app = createFakeApp({ 'Note.md': { content: 'Intro\n---\n![[body.png]]' }, 'body.png': {} });
+
+        assert.equal(await createScanner(app, {}).getFeatureFromNote(getFile(app, 'Note.md'), undefined), 'body.png');
+    });
+});
+
+describe('FeatureScanner image filters', () => {
+    // prettier-ignore
+    const onePixelPng = new Uint8Array([
+        0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+        0x00, 0x00, 0x00, 0x0d, 0x49, 0x48, 0x44, 0x52,
+        0x00, 0x00, 0x00, 0x01, 0x00, 0x00, 0x00, 0x01,
+        0x08, 0x06, 0x00, 0x00, 0x00
+    ]);
+
+    it('skips local images below the minimum size', async () => {
+        const app = createFakeApp({
+            'Note.md': { content: '![[pixel.png]] ![[photo.png]]' },
+            'pixel.png': { data: onePixelPng },
+            'photo.png': {}
+        });
+        const scanner = createScanner(app, { minImageWidth: 100 });
+
+        assert.equal(await scanner.getFeatureFromNote(getFile(app, 'Note.md'), undefined), 'photo.png');
+    });
+
+    it('keeps the failed-download marker of a remote image despite the size filters', async () => {
+        const marker = 'thumbnails/external/broken.failed.png';
+        const app = createFakeApp({
+            'Note.md': { content: '![](https://example.com/broken.png)' },
+            [marker]: { data: onePixelPng }
+        });
+        const requested: string[] = [];
+        const scanner = createScanner(
+            app,
+            { minImageWidth: 100, minImageFileSizeKb: 5 },
+            {
+                downloadExternalImage: async url => {
+                    requested.push(url);
+                    return marker;
+                }
+            }
+        );
+
+        assert.equal(await scanner.getFeatureFromNote(getFile(app, 'Note.md'), undefined), marker);
+        assert.deepEqual(requested, ['https://example.com/broken.png']);
+    });
+});
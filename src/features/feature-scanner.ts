@@ -1,8 +1,34 @@
-import { App, TFile, normalizePath } from 'obsidian';
+import { App, CachedMetadata, EmbedCache, TFile, normalizePath, parseLinktext, resolveSubpath } from 'obsidian';
 import { FeaturedImageSettings, SUPPORTED_IMAGE_EXTENSIONS } from '../settings';
 import { strings } from '../i18n';
-import { resolveLocalImagePath } from '../utils/obsidian';
+import {
+    extractWikiLinkTarget,
+    FEATURED_MARKER,
+    hasFeaturedAlias,
+    hasFeaturedAttribute,
+    hasFeaturedTitle,
+    isHttpUrl,
+    safeDecodeLinkComponent,
+    stripLinkMetadata,
+    stripMarkdownImageTitle
+} from '../utils/links';
+import { ImageSize, readImageSize } from '../utils/image-size';
+import { isTFile, resolveLocalImagePath } from '../utils/obsidian';
 import { isValidHttpsUrl } from '../utils/urls';
+import { getImageRejection, hasDimensionFilter, hasImageFilters, isFailedDownloadMarker, isIgnoredImageSource } from './image-filters';
+import { getTargetAspectRatio, pickImage, RankedImage } from './image-selection';
+import {
+    collectLinkReferences,
+    findReferenceImages,
+    isHiddenOffset,
+    isLinkReferenceDefinition,
+    LinkReference,
+    MarkdownScan,
+    scanMarkdown
+} from './markdown-context';
+import { createMarkdownImageRegex } from './providers/markdown-image';
+import type { ImageSourceRegistry } from './providers/registry';
+import type { ImageSourceContext, ImageSourceMatch, ImageSourceProvider, LineImageSourceProvider } from './providers/types';
 
 /**
  * Represents parsed image information from frontmatter properties.
@@ -20,30 +46,67 @@ type FrontmatterImageTarget = { kind: 'wiki' | 'md' | 'plain'; target: string };
  * External dependencies required by the feature scanner.
  */
 interface FeatureScannerDeps {
+    imageSources: ImageSourceRegistry;
     downloadExternalImage: (imageUrl: string, subfolder?: string) => Promise<string | undefined>;
-    downloadYoutubeThumbnail: (videoId: string, currentFeature: string | undefined) => Promise<string | undefined>;
+    downloadYoutubeThumbnail: (videoId: string, currentFeature: string | undefined, isShort?: boolean) => Promise<string | undefined>;
+    downloadVideoThumbnail: (
+        subfolder: string,
+        videoId: string,
+        getThumbnailUrl: () => Promise<string | undefined>
+    ) => Promise<string | undefined>;
+    saveInlineImage: (dataUri: string) => Promise<string | undefined>;
+    renderPdfPage: (pdfPath: string, page: number) => Promise<string | undefined>;
+    captureVideoFrame: (videoPath: string) => Promise<string | undefined>;
+    extractAudioCover: (audioPath: string) => Promise<string | undefined>;
+    getExcalidrawImage: (drawingPath: string) => Promise<string | undefined>;
+    renderMermaidDiagram: (source: string) => Promise<string | undefined>;
+    getPageImageUrl: (pageUrl: string) => Promise<string | undefined>;
     debugLog: (...args: unknown[]) => void;
     errorLog: (...args: unknown[]) => void;
 }
 
 /**
- * Result of processing a line for Auto Card Link content.
+ * A provider match found in the document, in document order.
  */
-interface CardLinkProcessResult<T> {
-    handled: boolean; // Whether the line was part of a cardlink block
-    result?: T; // Optional result from processing the cardlink
+interface DocumentCandidate {
+    provider: ImageSourceProvider;
+    value: string;
+    offset: number; // Offset of the match within the full file content
+    featured: boolean; // Whether the reference carries the featured marker
+    viaReference?: boolean; // Reference-style image resolved through a link reference definition
 }
 
+/**
+ * Matches a frontmatter block at the start of a note, including its closing fence and line break.
+ */
+const FRONTMATTER_REGEX = /^---\r?\n(?:[\s\S]*?\r?\n)?---(?:\r?\n|$)/;
+
+/**
+ * Resolves image embeds found through Obsidian's metadata cache. Not part of the registry:
+ * candidates are created by the scanner itself in metadata detection mode.
+ */
+const metadataEmbedProvider: LineImageSourceProvider = {
+    id: 'metadata-embed',
+    kind: 'line',
+    match: () => [],
+    async resolve(value: string, context: ImageSourceContext) {
+        const resolvedPath = resolveLocalImagePath(context.app, value, context.file);
+        if (resolvedPath) {
+            return resolvedPath;
+        }
+        context.errorLog(`Local image not found for featured image: ${value} (referenced in ${context.file.path})`);
+        return undefined;
+    }
+};
+
 /**
  * Handles feature image discovery within markdown files.
  */
 export class FeatureScanner {
     private settings: FeaturedImageSettings;
-    private combinedLineRegex: RegExp;
-    private combinedLineGlobalRegex: RegExp;
-    private autoCardImageRegex: RegExp;
-    private codeBlockStartRegex: RegExp;
-    private markdownImageRegex: RegExp;
+    private readonly markdownImageRegex = createMarkdownImageRegex();
+    // Notes the last scan of a file inherited its feature from, by file path
+    private readonly inheritanceSources = new Map<string, TFile>();
 
     constructor(
         private readonly app: App,
@@ -51,7 +114,6 @@ export class FeatureScanner {
         private readonly deps: FeatureScannerDeps
     ) {
         this.settings = settings;
-        this.compileRegexPatterns();
     }
 
     /**
@@ -60,17 +122,18 @@ export class FeatureScanner {
      */
     setSettings(settings: FeaturedImageSettings): void {
         this.settings = settings;
-        this.compileRegexPatterns();
     }
 
     /**
-     * Finds the featured image in configured frontmatter source properties.
+     * Finds the featured image in configured frontmatter source properties, then in the lead image
+     * of web pages referenced by the page URL properties.
      * If a valid image is found, document scanning can be skipped.
      */
     async getFeatureFromFrontmatterSources(file: TFile): Promise<string | undefined> {
         const properties = this.getFrontmatterSourceProperties();
+        const pageUrlProperties = this.getPageUrlProperties();
 
-        if (properties.length === 0) {
+        if (properties.length === 0 && pageUrlProperties.length === 0) {
             return undefined;
         }
 
@@ -97,6 +160,15 @@ export class FeatureScanner {
             }
         }
 
+        for (const property of pageUrlProperties) {
+            for (const candidate of this.extractFrontmatterStringValues(frontmatter[property])) {
+                const resolved = await this.resolvePageUrl(candidate, file, property);
+                if (resolved) {
+                    return resolved;
+                }
+            }
+        }
+
         return undefined;
     }
 
@@ -134,95 +206,117 @@ export class FeatureScanner {
     }
 
     /**
-     * Finds the featured image in the document content.
-     * @param {string} content - The document content to search.
-     * @param {TFile} contextFile - The file currently being processed.
-     * @param {string | undefined} currentFeature - The current featured image.
-     * @returns {Promise<string | undefined>} The found featured image, if any.
+     * Returns the note the last scan of a file inherited its feature from.
+     * @param {TFile} file - The scanned file.
+     * @returns {TFile | undefined} The note the feature was inherited from, or undefined when it was not inherited.
      */
-    async getFeatureFromDocument(content: string, contextFile: TFile, currentFeature: string | undefined): Promise<string | undefined> {
-        // Remove frontmatter section from processing
-        let contentWithoutFrontmatter = content;
-        if (content.startsWith('---\n')) {
-            const frontmatterEnd = content.indexOf('\n---\n', 4);
-            if (frontmatterEnd !== -1) {
-                contentWithoutFrontmatter = content.substring(frontmatterEnd + 5);
-            }
-        }
-
-        const lines = contentWithoutFrontmatter.split('\n');
-        const cardLinkProcessor = this.createCardLinkProcessor<string | undefined>(imagePath =>
-            this.processAutoCardLinkImage(imagePath, contextFile)
-        );
+    getInheritanceSource(file: TFile): TFile | undefined {
+        return this.inheritanceSources.get(file.path);
+    }
 
-        for (const line of lines) {
-            const cardLinkState = await cardLinkProcessor.consume(line);
-            if (cardLinkState.result !== undefined) {
-                return cardLinkState.result;
-            }
-            if (cardLinkState.handled) {
-                continue;
-            }
+    /**
+     * Returns the note recorded in the inherited from property of a file.
+     * @param {TFile} file - The file to inspect.
+     * @returns {TFile | undefined} The note the stored feature was inherited from, if recorded.
+     */
+    getStoredInheritanceSource(file: TFile): TFile | undefined {
+        const property = this.settings.inheritedFromProperty;
+        const link = this.app.metadataCache.getFileCache(file)?.frontmatterLinks?.find(link => link.key === property);
+        return link ? this.resolveNoteLink(link.link, file) : undefined;
+    }
 
-            // Check for other images (local or external)
-            const match = this.combinedLineRegex.exec(line);
+    /**
+     * Returns notes that may inherit their feature from the given note: notes in the folder it is the
+     * folder note of, and notes linking to it through an inheritance property or, when link inheritance
+     * is enabled, an outgoing link.
+     * @param {TFile} parent - The note whose feature changed.
+     * @returns {TFile[]} Notes that may need their inherited feature updated.
+     */
+    getInheritingNotes(parent: TFile): TFile[] {
+        const paths = new Set<string>();
 
-            if (match) {
-                // Check for YouTube links, e.g. ![Movie title](https://www.youtube.com/watch?v=dQw4w9WgXcQ)
-                if (match.groups?.youtube) {
-                    const videoId = this.getVideoId(match.groups.youtube);
-                    if (videoId) {
-                        const youtubeFeature = await this.deps.downloadYoutubeThumbnail(videoId, currentFeature);
-                        if (youtubeFeature) {
-                            return youtubeFeature;
-                        }
-                    }
-                    continue;
+        if (this.settings.inheritFromFolderNote) {
+            for (const file of this.app.vault.getMarkdownFiles()) {
+                if (this.getFolderNote(file)?.path === parent.path) {
+                    paths.add(file.path);
                 }
+            }
+        }
 
-                // Check for local wiki image links, e.g. ![[image.jpg]]
-                if (match.groups?.wikiImage) {
-                    const wikiImage = this.safeDecodeLinkComponent(match.groups.wikiImage);
-                    const resolvedWikiImage = resolveLocalImagePath(this.app, wikiImage, contextFile);
-                    if (resolvedWikiImage) {
-                        return resolvedWikiImage;
-                    }
-                    this.deps.errorLog(`Local image not found for featured image: ${wikiImage} (referenced in ${contextFile.path})`);
-                    continue;
-                }
-
-                // Check for markdown image links, e.g. ![image.jpg](https://example.com/image.jpg)
-                if (match.groups?.mdImage) {
-                    const decodedMdImage = this.safeDecodeLinkComponent(match.groups.mdImage);
-                    const sanitizedMdImage = this.stripMarkdownImageTitle(decodedMdImage);
-                    const trimmedMdImage = sanitizedMdImage.trim();
-                    if (this.isHttpUrl(trimmedMdImage)) {
-                        this.logHttpImageWarning(contextFile.path, trimmedMdImage);
-                        continue;
-                    }
-                    if (isValidHttpsUrl(trimmedMdImage)) {
-                        const externalFeature = await this.deps.downloadExternalImage(trimmedMdImage);
-                        if (externalFeature) {
-                            return externalFeature;
-                        }
-                        continue;
-                    }
-                    const resolvedMdImage = resolveLocalImagePath(this.app, trimmedMdImage, contextFile);
-                    if (resolvedMdImage) {
-                        return resolvedMdImage;
-                    }
-                    this.deps.errorLog(`Local image not found for featured image: ${trimmedMdImage} (referenced in ${contextFile.path})`);
-                    continue;
+        if (this.settings.inheritFromProperties.length > 0 || this.settings.inheritFromLinks) {
+            for (const [sourcePath, targets] of Object.entries(this.app.metadataCache.resolvedLinks)) {
+                const source = targets[parent.path] ? this.app.vault.getAbstractFileByPath(sourcePath) : null;
+                if (
+                    isTFile(source) &&
+                    this.getInheritanceLinks(source).some(link => this.resolveNoteLink(link, source)?.path === parent.path)
+                ) {
+                    paths.add(sourcePath);
                 }
             }
         }
 
-        if (this.settings.preserveTemplateImages && currentFeature) {
-            this.deps.debugLog('No new image found, preserving existing featured image:', currentFeature);
-            return currentFeature;
+        paths.delete(parent.path);
+        return Array.from(paths)
+            .map(path => this.app.vault.getAbstractFileByPath(path))
+            .filter((file): file is TFile => isTFile(file) && file.extension === 'md');
+    }
+
+    /**
+     * Finds the featured image in a note using the configured detection mode.
+     * In metadata mode, embeds come from Obsidian's metadata cache and the file is only read
+     * for link types the cache does not cover (e.g. remote images, YouTube links, Auto Card Links).
+     * @param {TFile} file - The file to scan.
+     * @param {string | undefined} currentFeature - The current featured image.
+     * @returns {Promise<string | undefined>} The found featured image, if any.
+     */
+    async getFeatureFromNote(file: TFile, currentFeature: string | undefined): Promise<string | undefined> {
+        this.inheritanceSources.delete(file.path);
+        const cache = this.settings.detectionMode === 'metadata' ? this.app.metadataCache.getFileCache(file) : null;
+        if (!cache) {
+            const content = await this.app.vault.cachedRead(file);
+            return await this.getFeatureFromDocument(content, file, currentFeature);
         }
 
-        return undefined;
+        const content = await this.app.vault.cachedRead(file);
+        const bodyOffset = this.getBodyOffset(content);
+        const scan = scanMarkdown(content.slice(bodyOffset));
+
+        // Embeds inside comments or math are not rendered and must not become the feature
+        const embedCandidates = this.collectEmbedCandidates(file, cache, content).filter(
+            candidate => !isHiddenOffset(scan, candidate.offset - bodyOffset)
+        );
+
+        // With the `first` strategy and no image filters, content past the first resolvable embed cannot produce
+        // an earlier match, so only the prefix is matched unless a featured marker could follow.
+        const firstResolved =
+            this.settings.selectionStrategy === 'first' && !hasImageFilters(this.settings)
+                ? embedCandidates.find(candidate => resolveLocalImagePath(this.app, candidate.value, file))
+                : undefined;
+        const markerMayFollow = firstResolved !== undefined && content.slice(firstResolved.offset).toLowerCase().includes(FEATURED_MARKER);
+        const scanEnd = firstResolved && !markerMayFollow ? firstResolved.offset : content.length;
+        const contentCandidates = this.collectCandidates(scan, bodyOffset, scanEnd).filter(
+            candidate => !this.isCoveredByMetadata(candidate)
+        );
+
+        const candidates = [...contentCandidates, ...embedCandidates].sort((a, b) => a.offset - b.offset);
+        const feature = await this.selectFeature(candidates, file, currentFeature);
+        return feature ?? (await this.getFallbackFeature(scan, file, currentFeature));
+    }
+
+    /**
+     * Finds the featured image in the document content.
+     * @param {string} content - The document content to search.
+     * @param {TFile} contextFile - The file currently being processed.
+     * @param {string | undefined} currentFeature - The current featured image.
+     * @returns {Promise<string | undefined>} The found featured image, if any.
+     */
+    async getFeatureFromDocument(content: string, contextFile: TFile, currentFeature: string | undefined): Promise<string | undefined> {
+        this.inheritanceSources.delete(contextFile.path);
+        // Remove frontmatter section from processing
+        const bodyOffset = this.getBodyOffset(content);
+        const scan = scanMarkdown(content.slice(bodyOffset));
+        const feature = await this.selectFeature(this.collectCandidates(scan, bodyOffset), contextFile, currentFeature);
+        return feature ?? (await this.getFallbackFeature(scan, contextFile, currentFeature));
     }
 
     /**
@@ -252,42 +346,23 @@ export class FeatureScanner {
                 }
             }
 
-            const content = await this.app.vault.cachedRead(file);
-            const lines = content.split('\n');
-
-            const cardLinkProcessor = this.createCardLinkProcessor<void>(imagePath => {
-                const localPath = this.extractAutoCardLinkLocalPath(imagePath);
-                if (localPath) {
-                    this.addNormalizedPath(localPath, usedFiles, file);
+            if (this.settings.detectionMode === 'metadata' && cache) {
+                this.collectMetadataReferences(file, cache, usedFiles);
+                if (!this.needsContentForReferences(cache)) {
+                    return;
                 }
-                return undefined;
-            });
+            }
 
-            for (const line of lines) {
-                const cardLinkState = await cardLinkProcessor.consume(line);
-                if (cardLinkState.handled) {
+            const content = await this.app.vault.cachedRead(file);
+            const context = this.createSourceContext(file, undefined);
+
+            for (const candidate of this.collectCandidates(scanMarkdown(content))) {
+                if (this.settings.detectionMode === 'metadata' && this.isCoveredByMetadata(candidate)) {
                     continue;
                 }
-
-                this.combinedLineGlobalRegex.lastIndex = 0;
-                let match: RegExpExecArray | null;
-                while ((match = this.combinedLineGlobalRegex.exec(line)) !== null) {
-                    if (match.groups?.wikiImage) {
-                        this.addNormalizedPath(match.groups.wikiImage, usedFiles, file);
-                    }
-
-                    if (match.groups?.mdImage) {
-                        const decodedMdImage = this.safeDecodeLinkComponent(match.groups.mdImage);
-                        const sanitizedMdImage = this.stripMarkdownImageTitle(decodedMdImage);
-                        const trimmedMdImage = sanitizedMdImage.trim();
-                        if (this.isHttpUrl(trimmedMdImage)) {
-                            this.logHttpImageWarning(file.path, trimmedMdImage);
-                            continue;
-                        }
-                        if (!isValidHttpsUrl(trimmedMdImage)) {
-                            this.addNormalizedPath(trimmedMdImage, usedFiles, file);
-                        }
-                    }
+                const references = candidate.provider.collectReferences?.(candidate.value, context) ?? [];
+                for (const reference of references) {
+                    this.addNormalizedPath(reference, usedFiles, file);
                 }
             }
         } catch (error) {
@@ -330,16 +405,16 @@ export class FeatureScanner {
             return undefined;
         }
 
-        const extractedWikiTarget = this.extractWikiLinkTarget(rawValue);
+        const extractedWikiTarget = extractWikiLinkTarget(rawValue);
         let rawPath = extractedWikiTarget ?? rawValue;
 
-        rawPath = this.stripLinkMetadata(rawPath);
+        rawPath = stripLinkMetadata(rawPath);
 
         let resolvedPath = rawPath;
         let isResolved = false;
 
         if (rawPath) {
-            if (this.isHttpUrl(rawPath)) {
+            if (isHttpUrl(rawPath)) {
                 this.logHttpImageWarning(contextFile.path, rawPath);
                 return {
                     rawValue,
@@ -376,7 +451,7 @@ export class FeatureScanner {
             return undefined;
         }
 
-        const wikiTarget = this.extractWikiLinkTarget(trimmedValue);
+        const wikiTarget = extractWikiLinkTarget(trimmedValue);
         if (wikiTarget) {
             return { kind: 'wiki', target: wikiTarget };
         }
@@ -401,7 +476,7 @@ export class FeatureScanner {
             return undefined;
         }
 
-        if (this.isHttpUrl(path)) {
+        if (isHttpUrl(path)) {
             const sourceDescription = sourceProperty ? `frontmatter:${sourceProperty}` : undefined;
             this.logHttpImageWarning(contextFile.path, path, sourceDescription);
             return undefined;
@@ -443,7 +518,7 @@ export class FeatureScanner {
             }
 
             const path = this.normalizeFrontmatterImageTarget(extracted);
-            if (!path || this.isHttpUrl(path) || isValidHttpsUrl(path)) {
+            if (!path || isHttpUrl(path) || isValidHttpsUrl(path)) {
                 continue;
             }
 
@@ -451,54 +526,6 @@ export class FeatureScanner {
         }
     }
 
-    /**
-     * Processes an Auto Card Link image reference.
-     * @param {string} imagePath - The image path from the Auto Card Link.
-     * @param {TFile} contextFile - The file referencing the image.
-     * @returns {Promise<string | undefined>} The processed image path.
-     */
-    private async processAutoCardLinkImage(imagePath: string, contextFile: TFile): Promise<string | undefined> {
-        imagePath = imagePath.trim();
-
-        const localPath = this.extractAutoCardLinkLocalPath(imagePath);
-        if (localPath) {
-            const resolvedLocalPath = resolveLocalImagePath(this.app, localPath, contextFile);
-            if (!resolvedLocalPath) {
-                this.deps.errorLog(`Local Auto Card Link image not found: ${localPath} (referenced in ${contextFile.path})`);
-                return undefined;
-            }
-            return resolvedLocalPath;
-        }
-
-        const normalizedImagePath = imagePath.trim();
-        if (this.isHttpUrl(normalizedImagePath)) {
-            this.logHttpImageWarning(contextFile.path, normalizedImagePath, 'Auto Card Link');
-            return undefined;
-        }
-
-        if (!isValidHttpsUrl(normalizedImagePath)) {
-            this.deps.errorLog('Invalid Auto Card Link URL:', normalizedImagePath);
-            return undefined;
-        }
-
-        return await this.deps.downloadExternalImage(normalizedImagePath, 'autocardlink');
-    }
-
-    /**
-     * Extracts the local target path from an Auto Card Link image entry.
-     * @param {string} imagePath - Raw image path value from code block.
-     * @returns {string | undefined} Sanitized local path when present.
-     */
-    private extractAutoCardLinkLocalPath(imagePath: string): string | undefined {
-        if (!(imagePath.startsWith('"') && imagePath.endsWith('"'))) {
-            return undefined;
-        }
-
-        let localPath = imagePath.slice(1, -1).trim();
-        localPath = localPath.replace(/^\[\[|\]\]$/g, '');
-        return localPath;
-    }
-
     /**
      * Adds a normalized path to the used files set.
      * @param {string} path - The path to add.
@@ -506,11 +533,11 @@ export class FeatureScanner {
      * @param {TFile} contextFile - File used for relative resolution.
      */
     private addNormalizedPath(path: string, usedFiles: Set<string>, contextFile: TFile): void {
-        const extractedWikiTarget = this.extractWikiLinkTarget(path);
-        const normalizedTarget = this.stripLinkMetadata(extractedWikiTarget ?? path);
-        const decodedTarget = this.safeDecodeLinkComponent(normalizedTarget).trim();
+        const extractedWikiTarget = extractWikiLinkTarget(path);
+        const normalizedTarget = stripLinkMetadata(extractedWikiTarget ?? path);
+        const decodedTarget = safeDecodeLinkComponent(normalizedTarget).trim();
 
-        if (!decodedTarget || this.isHttpUrl(decodedTarget) || isValidHttpsUrl(decodedTarget)) {
+        if (!decodedTarget || isHttpUrl(decodedTarget) || isValidHttpsUrl(decodedTarget)) {
             return;
         }
 
@@ -527,26 +554,59 @@ export class FeatureScanner {
         }
     }
 
-    private getFrontmatterSourceProperties(): string[] {
-        const trimmed = this.settings.frontmatterImageSourceProperties.map(property => property.trim()).filter(Boolean);
-        return Array.from(new Set(trimmed));
+    /**
+     * Downloads the lead image of a web page referenced in frontmatter, such as the `source` written by web clippers.
+     * @param {string} value - Frontmatter value holding a page URL or a markdown link to the page.
+     * @param {TFile} contextFile - The file being processed.
+     * @param {string} sourceProperty - Frontmatter property the value came from.
+     * @returns {Promise<string | undefined>} Path to the downloaded image, if the page declares one.
+     */
+    private async resolvePageUrl(value: string, contextFile: TFile, sourceProperty: string): Promise<string | undefined> {
+        const trimmed = value.trim();
+        const pageUrl = /^\[[^\]]*\]\((?<url>[^)\s]+)\)$/.exec(trimmed)?.groups?.url ?? trimmed;
+
+        if (!pageUrl) {
+            return undefined;
+        }
+
+        if (!isValidHttpsUrl(pageUrl)) {
+            this.deps.debugLog(`Page URL in ${sourceProperty} is not an HTTPS link: ${pageUrl} (referenced in ${contextFile.path})`);
+            return undefined;
+        }
+
+        if (!this.settings.downloadExternalImages) {
+            return undefined;
+        }
+
+        const imageUrl = await this.deps.getPageImageUrl(pageUrl);
+        if (!imageUrl) {
+            return undefined;
+        }
+
+        if (!isValidHttpsUrl(imageUrl)) {
+            this.deps.debugLog('Skipping page image that is not served over HTTPS:', imageUrl);
+            return undefined;
+        }
+
+        return await this.deps.downloadExternalImage(imageUrl, 'opengraph');
     }
 
-    private extractWikiLinkTarget(value: string): string | undefined {
-        const wikiMatch = value.match(/!?\[\[(.*?)\]\]/);
-        return wikiMatch ? wikiMatch[1] : undefined;
+    private getPageUrlProperties(): string[] {
+        const trimmed = this.settings.pageUrlProperties.map(property => property.trim()).filter(Boolean);
+        return Array.from(new Set(trimmed));
     }
 
-    private stripLinkMetadata(value: string): string {
-        return value.split('|')[0].split('#')[0].trim();
+    private getFrontmatterSourceProperties(): string[] {
+        const trimmed = this.settings.frontmatterImageSourceProperties.map(property => property.trim()).filter(Boolean);
+        return Array.from(new Set(trimmed));
     }
 
     private normalizeFrontmatterImageTarget(extracted: FrontmatterImageTarget): string {
-        let path = this.stripLinkMetadata(extracted.target);
-        path = this.safeDecodeLinkComponent(path);
+        let path = stripLinkMetadata(extracted.target);
+        path = safeDecodeLinkComponent(path);
 
         if (extracted.kind === 'md') {
-            path = this.stripMarkdownImageTitle(path).trim();
+            path = stripMarkdownImageTitle(path).trim();
         }
 
         return path;
@@ -562,169 +622,679 @@ export class FeatureScanner {
     }
 
     /**
-     * Compiles the regular expressions used for feature detection.
+     * Logs a warning about ignored HTTP image links.
+     * @param {string} filePath - File path where the link was found.
+     * @param {string} url - URL that was ignored.
+     * @param {string | undefined} source - Optional source descriptor for contextual messaging.
+     */
+    private logHttpImageWarning(filePath: string, url: string, source?: string): void {
+        this.deps.errorLog(strings.errors.httpImageLinkIgnored(filePath, url, source));
+    }
+
+    /**
+     * Selects the featured image from candidates using the configured selection strategy.
+     * Candidates carrying the featured marker are tried before all others, in document order.
+     * The `first` and `last` strategies stop at the first candidate that resolves; ranking strategies
+     * resolve every candidate and compare their dimensions. Candidates from fallback providers are only
+     * tried, in document order, when no other candidate yields an image.
+     * @param {DocumentCandidate[]} candidates - Candidates in document order.
+     * @param {TFile} contextFile - The file currently being processed.
+     * @param {string | undefined} currentFeature - The current featured image.
+     * @returns {Promise<string | undefined>} The selected featured image, if any.
      */
-    private compileRegexPatterns(): void {
-        const imageExtensionsPattern = SUPPORTED_IMAGE_EXTENSIONS.join('|');
+    private async selectFeature(
+        candidates: DocumentCandidate[],
+        contextFile: TFile,
+        currentFeature: string | undefined
+    ): Promise<string | undefined> {
+        const context = this.createSourceContext(contextFile, currentFeature);
+        const strategy = this.settings.selectionStrategy;
 
-        const wikiImagePattern = `!\\[\\[(?<wikiImage>[^\\]|#]+\\.(${imageExtensionsPattern}))(?:[#|][^\\]]*)?\\]\\]`;
-        const mdImagePattern = `!\\[.*?\\]\\((?<mdImage>(?:https?:\\/\\/(?:[^)(]|\\([^)(]*\\))+|[^)(]+\\.(${imageExtensionsPattern})))\\)`;
-        const youtubePattern = `${
-            this.settings.requireExclamationForYouTube ? '!' : '!?'
-        }\\[.*?\\]\\((?<youtube>https?:\\/\\/(?:www\\.)?(?:youtube\\.com|youtu\\.be)\\/\\S+)\\)`;
+        const featured = await this.resolveFirst(
+            candidates.filter(candidate => candidate.featured),
+            context
+        );
+        if (featured) {
+            return featured;
+        }
 
-        const combinedRegexString = [youtubePattern, wikiImagePattern, mdImagePattern].join('|');
+        const unmarked = candidates.filter(candidate => !candidate.featured && !candidate.provider.fallback);
+        if (strategy === 'first' || strategy === 'last') {
+            const feature = await this.resolveFirst(strategy === 'last' ? unmarked.reverse() : unmarked, context);
+            if (feature) {
+                return feature;
+            }
+        } else {
+            const images: RankedImage[] = [];
+            for (const candidate of unmarked) {
+                const image = await this.resolveImage(candidate, context, true);
+                if (image && !images.some(existing => existing.path === image.path)) {
+                    images.push(image);
+                }
+            }
+
+            const picked = pickImage(images, strategy, getTargetAspectRatio(this.settings));
+            if (picked) {
+                this.deps.debugLog(`Selected featured image using "${strategy}" strategy:`, picked.path, picked.size);
+                return picked.path;
+            }
+        }
 
-        this.combinedLineRegex = new RegExp(combinedRegexString, 'i');
-        this.combinedLineGlobalRegex = new RegExp(combinedRegexString, 'gi');
-        this.markdownImageRegex = new RegExp(mdImagePattern, 'i');
-        this.autoCardImageRegex = /image:\s*(?<autoCardImage>.+?)(?:\n|$)/i;
-        this.codeBlockStartRegex = /^[\s]*```[\s]*(\w+)?[\s]*$/;
+        return await this.resolveFirst(
+            candidates.filter(candidate => !candidate.featured && candidate.provider.fallback),
+            context
+        );
     }
 
     /**
-     * Attempts to decode a link component while tolerating invalid percent sequences.
-     * @param {string} value - Raw captured value.
-     * @returns {string} Decoded value or the original string when decoding fails.
+     * Finds a feature when a note contains no qualifying image of its own: first in transcluded notes,
+     * then by rendering the note's first Mermaid diagram, then by inheriting from related notes, and finally
+     * by preserving the existing feature when template images are preserved.
+     * @param {MarkdownScan} scan - Scanned note body.
+     * @param {TFile} file - The note being processed.
+     * @param {string | undefined} currentFeature - The current featured image.
+     * @returns {Promise<string | undefined>} The fallback featured image, if any.
      */
-    private safeDecodeLinkComponent(value: string): string {
-        try {
-            return decodeURIComponent(value);
-        } catch {
-            return value;
+    private async getFallbackFeature(scan: MarkdownScan, file: TFile, currentFeature: string | undefined): Promise<string | undefined> {
+        if (this.settings.followTransclusions) {
+            const visited = new Set([file.path]);
+            const transcluded = await this.findFeatureInTransclusions(scan, file, currentFeature, 1, visited);
+            if (transcluded) {
+                return transcluded;
+            }
+        }
+
+        const diagram = scan.blocks.find(block => block.language === 'mermaid');
+        if (diagram) {
+            const rendered = await this.deps.renderMermaidDiagram(diagram.content);
+            if (rendered) {
+                return rendered;
+            }
+        }
+
+        const inherited = this.getInheritedFeature(file);
+        if (inherited) {
+            return inherited;
+        }
+
+        if (this.settings.preserveTemplateImages && currentFeature) {
+            this.deps.debugLog('No new image found, preserving existing featured image:', currentFeature);
+            return currentFeature;
         }
+
+        return undefined;
     }
 
     /**
-     * Checks whether a URL uses the HTTP protocol.
-     * @param {string} url - URL to inspect.
-     * @returns {boolean} True when the URL starts with http:// (case-insensitive).
+     * Inherits the stored feature of a related note. Sources are tried in order: the folder note, notes linked
+     * through the configured frontmatter properties, then outgoing links in document order. Features the source
+     * inherited from this note, directly or through other notes, are skipped.
+     * @param {TFile} file - The note without an image of its own.
+     * @returns {string | undefined} The first feature found on a related note, if any.
      */
-    private isHttpUrl(url: string): boolean {
-        return url.trim().toLowerCase().startsWith('http://');
+    private getInheritedFeature(file: TFile): string | undefined {
+        const sources: (TFile | undefined)[] = [];
+
+        if (this.settings.inheritFromFolderNote) {
+            sources.push(this.getFolderNote(file));
+        }
+
+        sources.push(...this.getInheritanceLinks(file).map(link => this.resolveNoteLink(link, file)));
+
+        const visited = new Set([file.path]);
+        for (const source of sources) {
+            if (!source || visited.has(source.path)) {
+                continue;
+            }
+            visited.add(source.path);
+
+            const info = this.getFrontmatterImageInfo(source, this.settings.frontmatterProperty);
+            if (info?.isResolved && !this.isInheritedFrom(source, file)) {
+                this.deps.debugLog('Inheriting featured image from', source.path, info.resolvedPath);
+                this.inheritanceSources.set(file.path, source);
+                return info.resolvedPath;
+            }
+        }
+
+        return undefined;
     }
 
     /**
-     * Logs a warning about ignored HTTP image links.
-     * @param {string} filePath - File path where the link was found.
-     * @param {string} url - URL that was ignored.
-     * @param {string | undefined} source - Optional source descriptor for contextual messaging.
+     * Checks whether the feature of a note was passed down from another note by following the notes recorded
+     * in the inherited from property. A chain that loops without reaching an image of its own counts as well.
+     * @param {TFile} note - The note whose stored feature to check.
+     * @param {TFile} origin - The note the feature may come from.
+     * @returns {boolean} True when the feature came from the origin or from a loop of inherited features.
      */
-    private logHttpImageWarning(filePath: string, url: string, source?: string): void {
-        this.deps.errorLog(strings.errors.httpImageLinkIgnored(filePath, url, source));
+    private isInheritedFrom(note: TFile, origin: TFile): boolean {
+        const visited = new Set<string>();
+        let current: TFile | undefined = note;
+
+        while (current) {
+            if (current.path === origin.path || visited.has(current.path)) {
+                return true;
+            }
+            visited.add(current.path);
+            current = this.getStoredInheritanceSource(current);
+        }
+
+        return false;
     }
 
     /**
-     * Removes a trailing Markdown title/caption from an image target.
-     * @param {string} value - Raw target string captured from Markdown.
-     * @returns {string} Target value without the optional title segment.
+     * Returns the links a note may inherit its feature through, in order: links in the configured frontmatter
+     * properties, then outgoing links in document order when link inheritance is enabled.
+     * @param {TFile} file - The note whose links to collect.
+     * @returns {string[]} Link texts, possibly with subpaths.
      */
-    private stripMarkdownImageTitle(value: string): string {
-        const trimmedValue = value.trim();
-        if (!trimmedValue) {
-            return trimmedValue;
+    private getInheritanceLinks(file: TFile): string[] {
+        const cache = this.app.metadataCache.getFileCache(file);
+        const links: string[] = [];
+
+        for (const property of this.settings.inheritFromProperties) {
+            const propertyLinks = (cache?.frontmatterLinks ?? []).filter(
+                link => link.key === property || link.key.startsWith(`${property}.`)
+            );
+            links.push(...propertyLinks.map(link => link.link));
+        }
+
+        if (this.settings.inheritFromLinks) {
+            const bodyLinks = [...(cache?.links ?? [])].sort((a, b) => a.position.start.offset - b.position.start.offset);
+            links.push(...bodyLinks.map(link => link.link));
+        }
+
+        return links;
+    }
+
+    /**
+     * Returns the folder note of the folder containing a file: a note named after the folder, either
+     * inside the folder (`Folder/Folder.md`) or next to it (`Folder.md`).
+     * @param {TFile} file - The file whose folder note to find.
+     * @returns {TFile | undefined} The folder note, if it exists.
+     */
+    private getFolderNote(file: TFile): TFile | undefined {
+        const folder = file.parent;
+        if (!folder || folder.isRoot()) {
+            return undefined;
+        }
+
+        const parentPath = folder.parent && !folder.parent.isRoot() ? `${folder.parent.path}/` : '';
+        for (const path of [`${folder.path}/${folder.name}.md`, `${parentPath}${folder.name}.md`]) {
+            const folderNote = this.app.vault.getAbstractFileByPath(normalizePath(path));
+            if (isTFile(folderNote)) {
+                return folderNote;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Resolves a link to a markdown note.
+     * @param {string} link - Link text, possibly with a subpath.
+     * @param {TFile} sourceFile - The note containing the link.
+     * @returns {TFile | undefined} The linked note, if it exists.
+     */
+    private resolveNoteLink(link: string, sourceFile: TFile): TFile | undefined {
+        const { path } = parseLinktext(link);
+        const target = path ? this.app.metadataCache.getFirstLinkpathDest(path, sourceFile.path) : null;
+        return isTFile(target) && target.extension === 'md' ? target : undefined;
+    }
+
+    /**
+     * Searches notes and sections transcluded with `![[Note]]`, `![[Note#Heading]]` or `![[Note#^block]]`,
+     * in document order and depth first, and returns the first qualifying image.
+     * @param {MarkdownScan} scan - Scanned content of the transcluding note or section.
+     * @param {TFile} sourceFile - The note containing the transclusions.
+     * @param {string | undefined} currentFeature - The current featured image.
+     * @param {number} depth - Transclusion depth of the notes being searched (1 for direct transclusions).
+     * @param {Set<string>} visited - Notes and sections already searched, for cycle protection.
+     * @returns {Promise<string | undefined>} The first qualifying image, if any.
+     */
+    private async findFeatureInTransclusions(
+        scan: MarkdownScan,
+        sourceFile: TFile,
+        currentFeature: string | undefined,
+        depth: number,
+        visited: Set<string>
+    ): Promise<string | undefined> {
+        if (depth > this.settings.maxTransclusionDepth) {
+            return undefined;
+        }
+
+        for (const { file, subpath } of this.collectTransclusions(scan.text, sourceFile)) {
+            const key = `${file.path}${subpath}`;
+            if (visited.has(key)) {
+                continue;
+            }
+            visited.add(key);
+
+            const section = this.getTranscludedSection(file, await this.app.vault.cachedRead(file), subpath);
+            if (!section) {
+                this.deps.debugLog('Transcluded section not found:', key);
+                continue;
+            }
+
+            const sectionScan = scanMarkdown(section.text);
+            const feature =
+                (await this.selectFeature(this.collectCandidates(sectionScan, section.offset), file, currentFeature)) ??
+                (await this.findFeatureInTransclusions(sectionScan, file, currentFeature, depth + 1, visited));
+            if (feature) {
+                this.deps.debugLog('Found featured image in transcluded note:', key, feature);
+                return feature;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Finds note transclusions in rendered markdown text. Image embeds and embeds of other file types are skipped.
+     * @param {string} text - Rendered text, with code, comments and math masked.
+     * @param {TFile} sourceFile - The note containing the transclusions.
+     * @returns {{ file: TFile; subpath: string }[]} Transcluded notes with their heading or block subpath, in document order.
+     */
+    private collectTransclusions(text: string, sourceFile: TFile): { file: TFile; subpath: string }[] {
+        const transclusions: { file: TFile; subpath: string }[] = [];
+
+        for (const match of text.matchAll(/!\[\[([^\]\n]+)\]\]/g)) {
+            const { path, subpath } = parseLinktext(match[1].split('|')[0].trim());
+            const file = path ? this.app.metadataCache.getFirstLinkpathDest(path, sourceFile.path) : sourceFile;
+            if (isTFile(file) && file.extension === 'md') {
+                transclusions.push({ file, subpath });
+            }
+        }
+
+        return transclusions;
+    }
+
+    /**
+     * Returns the transcluded part of a note: the body for whole-note transclusions, otherwise the heading
+     * section or block referenced by the subpath.
+     * @param {TFile} file - The transcluded note.
+     * @param {string} content - The note's content.
+     * @param {string} subpath - Heading or block subpath, e.g. `#Section` or `#^block-id`, or an empty string.
+     * @returns {{ text: string; offset: number } | undefined} The section and its offset, or undefined when the subpath does not resolve.
+     */
+    private getTranscludedSection(file: TFile, content: string, subpath: string): { text: string; offset: number } | undefined {
+        if (!subpath) {
+            const bodyOffset = this.getBodyOffset(content);
+            return { text: content.slice(bodyOffset), offset: bodyOffset };
+        }
+
+        const cache = this.app.metadataCache.getFileCache(file);
+        const result = cache ? resolveSubpath(cache, subpath) : null;
+        if (!result) {
+            return undefined;
+        }
+
+        const start = result.start.offset;
+        const end = result.end?.offset ?? content.length;
+        return { text: content.slice(start, end), offset: start };
+    }
+
+    /**
+     * Resolves candidates in order and returns the first image that passes the image filters.
+     * @param {DocumentCandidate[]} candidates - Candidates in the order they should be tried.
+     * @param {ImageSourceContext} context - Provider context.
+     * @returns {Promise<string | undefined>} The first accepted image, if any.
+     */
+    private async resolveFirst(candidates: DocumentCandidate[], context: ImageSourceContext): Promise<string | undefined> {
+        for (const candidate of candidates) {
+            const image = await this.resolveImage(candidate, context, false);
+            if (image) {
+                return image.path;
+            }
         }
+        return undefined;
+    }
 
-        const titlePattern = /\s+(?:"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\((?:[^)\\]|\\.)*\))\s*$/;
-        const match = titlePattern.exec(trimmedValue);
-        if (!match) {
-            return trimmedValue;
+    /**
+     * Resolves a candidate and applies the ignore patterns and minimum-size filters.
+     * Rejected candidates return undefined so scanning continues with the next one.
+     * @param {DocumentCandidate} candidate - Candidate to resolve.
+     * @param {ImageSourceContext} context - Provider context.
+     * @param {boolean} withSize - Whether to read dimensions even when no dimension filter is set.
+     * @returns {Promise<RankedImage | undefined>} The accepted image, if any.
+     */
+    private async resolveImage(
+        candidate: DocumentCandidate,
+        context: ImageSourceContext,
+        withSize: boolean
+    ): Promise<RankedImage | undefined> {
+        if (isIgnoredImageSource(candidate.value, this.settings)) {
+            this.deps.debugLog('Skipping image matching an ignore pattern:', candidate.value);
+            return undefined;
         }
 
-        const candidate = trimmedValue.slice(0, match.index).trimEnd();
-        return candidate || trimmedValue;
+        const path = await this.resolveCandidate(candidate, context);
+        if (!path) {
+            return undefined;
+        }
+        if (path !== candidate.value && isIgnoredImageSource(path, this.settings)) {
+            this.deps.debugLog('Skipping image matching an ignore pattern:', path);
+            return undefined;
+        }
+        // A 1x1 marker rejected by the size filters would make the URL look unseen and be requested on every scan
+        if (isFailedDownloadMarker(path)) {
+            return { path, source: candidate.value, size: undefined };
+        }
+
+        const file = this.app.vault.getAbstractFileByPath(path);
+        const size = withSize || hasDimensionFilter(this.settings) ? await this.readImageSize(path) : undefined;
+        const rejection = getImageRejection({ size, fileSize: isTFile(file) ? file.stat.size : undefined }, this.settings);
+        if (rejection) {
+            this.deps.debugLog(`Skipping image ${path}: ${rejection}`);
+            return undefined;
+        }
+
+        return { path, source: candidate.value, size };
     }
 
     /**
-     * Extracts the YouTube video ID from a URL.
-     * @param {string} url - The YouTube URL.
-     * @returns {string | null} The video ID, if found.
+     * Reads the dimensions of a vault image from its file header.
+     * @param {string} path - Vault-relative image path.
+     * @returns {Promise<ImageSize | undefined>} Dimensions, or undefined when the file is missing or unreadable.
      */
-    private getVideoId(url: string): string | null {
+    private async readImageSize(path: string): Promise<ImageSize | undefined> {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!isTFile(file)) {
+            return undefined;
+        }
+
         try {
-            const parsedUrl = new URL(url);
-            const hostname = parsedUrl.hostname.toLowerCase();
-            const pathname = parsedUrl.pathname;
-            const searchParams = parsedUrl.searchParams;
+            return readImageSize(await this.app.vault.readBinary(file));
+        } catch (error) {
+            this.deps.debugLog('Could not read image dimensions:', path, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Returns the offset where the note body starts, skipping a leading frontmatter block.
+     * Notes written on Windows may use `\r\n` line endings, and the closing fence may end the file.
+     * @param {string} content - The full file content.
+     * @returns {number} Offset of the first body character.
+     */
+    private getBodyOffset(content: string): number {
+        return FRONTMATTER_REGEX.exec(content)?.[0].length ?? 0;
+    }
 
-            const normalizedHostname = hostname.replace('m.youtube.com', 'youtube.com');
+    /**
+     * Creates candidates from image embeds indexed by the metadata cache.
+     * Embeds are resolved through link resolution, so attachments linked without an extension are included.
+     * @param {TFile} file - The file being scanned.
+     * @param {CachedMetadata} cache - Metadata cache entry for the file.
+     * @param {string} content - The full file content, used to read attribute blocks following embeds.
+     * @returns {DocumentCandidate[]} Embed candidates in document order.
+     */
+    private collectEmbedCandidates(file: TFile, cache: CachedMetadata, content: string): DocumentCandidate[] {
+        const candidates: DocumentCandidate[] = [];
 
-            if (hostname.includes('youtu.be')) {
-                return pathname.slice(1);
+        for (const embed of cache.embeds ?? []) {
+            const { path } = parseLinktext(embed.link);
+            if (!path) {
+                continue;
             }
 
-            if (normalizedHostname.includes('youtube.com')) {
-                if (pathname === '/watch') {
-                    return searchParams.get('v');
-                }
+            const resolvedPath = resolveLocalImagePath(this.app, path, file);
+            if (resolvedPath ? !this.isSupportedImagePath(resolvedPath) : !this.isSupportedImagePath(path)) {
+                continue;
+            }
 
-                if (pathname.startsWith('/embed/') || pathname.startsWith('/v/') || pathname.startsWith('/shorts/')) {
-                    return pathname.split('/')[2];
-                }
+            candidates.push({
+                provider: metadataEmbedProvider,
+                value: resolvedPath ?? path,
+                offset: embed.position.start.offset,
+                featured: this.isFeaturedEmbed(embed, content)
+            });
+        }
 
-                if (pathname === '/playlist') {
-                    return searchParams.get('v');
-                }
+        return candidates.sort((a, b) => a.offset - b.offset);
+    }
+
+    /**
+     * Checks whether an embed carries the featured marker as alias, title or attribute block.
+     * @param {EmbedCache} embed - Embed from the metadata cache.
+     * @param {string} content - The full file content.
+     * @returns {boolean} True when the embed is marked as featured.
+     */
+    private isFeaturedEmbed(embed: EmbedCache, content: string): boolean {
+        const wikiTarget = extractWikiLinkTarget(embed.original);
+        if (wikiTarget !== undefined ? hasFeaturedAlias(wikiTarget) : hasFeaturedTitle(this.getMarkdownEmbedTarget(embed.original))) {
+            return true;
+        }
+
+        const attributes = /^\{[^{}\n]*\}/.exec(content.slice(embed.position.end.offset));
+        return hasFeaturedAttribute(attributes?.[0]);
+    }
+
+    /**
+     * Extracts the raw target (including an optional title) from a markdown embed.
+     * @param {string} original - Embed text as written, e.g. `![alt](image.png "title")`.
+     * @returns {string} Raw target, or an empty string for other embed syntaxes.
+     */
+    private getMarkdownEmbedTarget(original: string): string {
+        const match = /\]\((.*)\)\s*$/.exec(original);
+        return match ? safeDecodeLinkComponent(match[1]) : '';
+    }
+
+    /**
+     * Adds images referenced by embeds and links in the metadata cache to the used files set.
+     * @param {TFile} file - The file being scanned.
+     * @param {CachedMetadata} cache - Metadata cache entry for the file.
+     * @param {Set<string>} usedFiles - Set to store referenced file paths.
+     */
+    private collectMetadataReferences(file: TFile, cache: CachedMetadata, usedFiles: Set<string>): void {
+        for (const reference of [...(cache.embeds ?? []), ...(cache.links ?? [])]) {
+            const { path } = parseLinktext(reference.link);
+            if (path) {
+                this.addNormalizedPath(path, usedFiles, file);
             }
-            return null;
-        } catch {
-            this.deps.errorLog('Invalid YouTube URL:', url);
-            return null;
         }
     }
 
     /**
-     * Creates a stateful processor for handling Auto Card Link code blocks.
-     * @param {Function} handler - Function to process extracted image paths.
-     * @returns {Object} Processor with consume method for line-by-line processing.
+     * Checks whether a file must be read to find references the metadata cache does not index.
+     * Block providers only apply when the note contains code sections.
+     * @param {CachedMetadata} cache - Metadata cache entry for the file.
+     * @returns {boolean} True when the file content must be scanned.
      */
-    private createCardLinkProcessor<T>(handler: (imagePath: string) => Promise<T | undefined> | T | undefined): {
-        consume: (line: string) => Promise<CardLinkProcessResult<T>>;
-    } {
-        let inCodeBlock = false;
-        let codeBlockLanguage = '';
-        let codeBlockBuffer = '';
+    private needsContentForReferences(cache: CachedMetadata): boolean {
+        const hasCodeSections = (cache.sections ?? []).some(section => section.type === 'code');
 
+        return this.deps.imageSources.getProviders().some(provider => {
+            if (!provider.collectReferences) {
+                return false;
+            }
+            if (provider.kind === 'block') {
+                return hasCodeSections;
+            }
+            return !provider.coveredByMetadata;
+        });
+    }
+
+    /**
+     * Checks whether a content candidate is already indexed by the metadata cache.
+     * @param {DocumentCandidate} candidate - Candidate found in the file content.
+     * @returns {boolean} True when the candidate is covered by metadata.
+     */
+    private isCoveredByMetadata(candidate: DocumentCandidate): boolean {
+        // The metadata cache does not index reference-style images
+        if (candidate.viaReference) {
+            return false;
+        }
+        return candidate.provider.coveredByMetadata?.(candidate.value) ?? false;
+    }
+
+    /**
+     * Builds the context handed to image source providers.
+     * @param {TFile} file - The file being scanned.
+     * @param {string | undefined} currentFeature - The current featured image.
+     * @returns {ImageSourceContext} Provider context.
+     */
+    private createSourceContext(file: TFile, currentFeature: string | undefined): ImageSourceContext {
         return {
-            consume: async (line: string): Promise<CardLinkProcessResult<T>> => {
-                const codeBlockMatch = this.codeBlockStartRegex.exec(line);
-                if (codeBlockMatch) {
-                    if (!inCodeBlock) {
-                        inCodeBlock = true;
-                        codeBlockLanguage = (codeBlockMatch[1] || '').toLowerCase();
-                        codeBlockBuffer = '';
-                        return { handled: true };
-                    }
+            app: this.app,
+            settings: this.settings,
+            file,
+            currentFeature,
+            downloadExternalImage: this.deps.downloadExternalImage,
+            downloadYoutubeThumbnail: this.deps.downloadYoutubeThumbnail,
+            downloadVideoThumbnail: this.deps.downloadVideoThumbnail,
+            saveInlineImage: this.deps.saveInlineImage,
+            renderPdfPage: this.deps.renderPdfPage,
+            captureVideoFrame: this.deps.captureVideoFrame,
+            extractAudioCover: this.deps.extractAudioCover,
+            getExcalidrawImage: this.deps.getExcalidrawImage,
+            getPageImageUrl: this.deps.getPageImageUrl,
+            logHttpImageWarning: (url, source) => this.logHttpImageWarning(file.path, url, source),
+            debugLog: this.deps.debugLog,
+            errorLog: this.deps.errorLog
+        };
+    }
 
-                    if (codeBlockLanguage === 'cardlink') {
-                        const imageMatch = this.autoCardImageRegex.exec(codeBlockBuffer);
-                        const imagePath = imageMatch?.groups?.autoCardImage?.trim();
-                        inCodeBlock = false;
-                        codeBlockLanguage = '';
-                        codeBlockBuffer = '';
-
-                        if (imagePath) {
-                            const result = await handler(imagePath);
-                            if (result !== undefined) {
-                                return { handled: true, result };
-                            }
-                        }
-                        return { handled: true };
-                    }
+    /**
+     * Resolves a candidate through its provider, isolating provider failures.
+     * @param {DocumentCandidate} candidate - Candidate to resolve.
+     * @param {ImageSourceContext} context - Provider context.
+     * @returns {Promise<string | undefined>} Resolved image path, if any.
+     */
+    private async resolveCandidate(candidate: DocumentCandidate, context: ImageSourceContext): Promise<string | undefined> {
+        try {
+            return await candidate.provider.resolve(candidate.value, context);
+        } catch (error) {
+            this.deps.errorLog(`Image source provider "${candidate.provider.id}" failed to resolve ${candidate.value}:`, error);
+            return undefined;
+        }
+    }
 
-                    inCodeBlock = false;
-                    codeBlockLanguage = '';
-                    codeBlockBuffer = '';
-                    return { handled: true };
-                }
+    /**
+     * Collects provider matches from scanned markdown in document order.
+     * Fenced code blocks are only considered when their language is claimed by a block provider;
+     * line providers only see rendered text, so code, comments and math never produce candidates.
+     * @param {MarkdownScan} scan - Scanned document content.
+     * @param {number} baseOffset - Offset of the scanned content within the full file.
+     * @param {number} limit - Offset (within the full file) at which matching stops.
+     * @returns {DocumentCandidate[]} Candidates in document order.
+     */
+    private collectCandidates(scan: MarkdownScan, baseOffset: number = 0, limit: number = Infinity): DocumentCandidate[] {
+        const lineProviders = this.deps.imageSources.getLineProviders();
+        const candidates: DocumentCandidate[] = [];
+
+        for (const block of scan.blocks) {
+            const offset = baseOffset + block.offset;
+            const blockProvider = offset < limit ? this.deps.imageSources.getBlockProvider(block.language) : undefined;
+            const value = blockProvider?.extract(block.content, this.settings);
+            if (blockProvider && value) {
+                candidates.push({ provider: blockProvider, value, offset, featured: false });
+            }
+        }
+
+        // Definitions may follow the images that use them, so they are collected before matching
+        const references = collectLinkReferences(scan.text);
+
+        let lineOffset = baseOffset;
+        for (const line of scan.text.split('\n')) {
+            if (lineOffset >= limit) {
+                break;
+            }
+            if (line.trim() && !isLinkReferenceDefinition(line)) {
+                candidates.push(...this.matchLine(line, lineOffset, lineProviders));
+                candidates.push(...this.matchReferenceImages(line, lineOffset, references, lineProviders));
+            }
+            lineOffset += line.length + 1;
+        }
+
+        return candidates.sort((a, b) => a.offset - b.offset);
+    }
+
+    /**
+     * Runs all line providers over a line and returns non-overlapping matches.
+     * Matching proceeds left to right: the earliest match wins, and when two matches start at the same
+     * position the provider registered first wins. Providers whose next match overlaps an accepted match
+     * are re-run on the remainder of the line, so a greedy match never hides a later one.
+     * @param {string} line - The line to scan.
+     * @param {number} lineOffset - Offset of the line within the full file.
+     * @param {LineImageSourceProvider[]} providers - Line providers in priority order.
+     * @returns {DocumentCandidate[]} Matches ordered by position.
+     */
+    private matchLine(line: string, lineOffset: number, providers: LineImageSourceProvider[]): DocumentCandidate[] {
+        const pending = providers.map(provider => ({ provider, matches: this.runLineProvider(provider, line, 0) }));
+        const candidates: DocumentCandidate[] = [];
+        let position = 0;
+
+        while (position < line.length) {
+            let best: { entry: (typeof pending)[number]; match: ImageSourceMatch } | undefined;
 
-                if (inCodeBlock && codeBlockLanguage === 'cardlink') {
-                    codeBlockBuffer += `${line}\n`;
-                    return { handled: true };
+            for (const entry of pending) {
+                if (entry.matches.length > 0 && entry.matches[0].index < position) {
+                    entry.matches = this.runLineProvider(entry.provider, line, position);
                 }
+                const next = entry.matches[0];
+                if (next && (!best || next.index < best.match.index)) {
+                    best = { entry, match: next };
+                }
+            }
 
-                return { handled: false };
+            if (!best) {
+                break;
             }
-        };
+
+            best.entry.matches.shift();
+            candidates.push({
+                provider: best.entry.provider,
+                value: best.match.value,
+                offset: lineOffset + best.match.index,
+                featured: best.match.featured ?? false
+            });
+            position = best.match.index + Math.max(best.match.length, 1);
+        }
+
+        return candidates;
+    }
+
+    /**
+     * Matches reference-style images such as `![alt][logo]` by running the line providers over the equivalent
+     * inline image, so references to video links, remote images and local files resolve like inline images.
+     * @param {string} line - The line to scan.
+     * @param {number} lineOffset - Offset of the line within the full file.
+     * @param {Map<string, LinkReference>} references - Link reference definitions of the document.
+     * @param {LineImageSourceProvider[]} providers - Line providers in priority order.
+     * @returns {DocumentCandidate[]} Matches ordered by position.
+     */
+    private matchReferenceImages(
+        line: string,
+        lineOffset: number,
+        references: Map<string, LinkReference>,
+        providers: LineImageSourceProvider[]
+    ): DocumentCandidate[] {
+        const candidates: DocumentCandidate[] = [];
+        for (const image of findReferenceImages(line, references)) {
+            const candidate = this.matchLine(image.inline, 0, providers).find(match => match.offset === 0);
+            if (candidate) {
+                candidates.push({ ...candidate, offset: lineOffset + image.index, viaReference: true });
+            }
+        }
+        return candidates;
+    }
+
+    /**
+     * Runs a line provider on the part of a line starting at `from`.
+     * @param {LineImageSourceProvider} provider - Provider to run.
+     * @param {string} line - The full line.
+     * @param {number} from - Offset within the line where matching starts.
+     * @returns {ImageSourceMatch[]} Matches with indexes relative to the full line, in order.
+     */
+    private runLineProvider(provider: LineImageSourceProvider, line: string, from: number): ImageSourceMatch[] {
+        try {
+            return provider
+                .match(from > 0 ? line.slice(from) : line, this.settings)
+                .map(match => ({ ...match, index: match.index + from }))
+                .sort((a, b) => a.index - b.index);
+        } catch (error) {
+            this.deps.errorLog(`Image source provider "${provider.id}" failed to match line:`, error);
+            return [];
+        }
     }
 }
@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_SETTINGS, FeaturedImageSettings } from '../settings';
+import { getImageRejection, hasDimensionFilter, hasImageFilters, isFailedDownloadMarker, isIgnoredImageSource } from './image-filters';
+
+const withSettings = (settings: Partial<FeaturedImageSettings>): FeaturedImageSettings => ({ ...DEFAULT_SETTINGS, ...settings });
+
+describe('isIgnoredImageSource', () => {
+    it('ignores nothing without patterns', () => {
+        assert.equal(isIgnoredImageSource('https://img.shields.io/badge/a.svg', DEFAULT_SETTINGS), false);
+    });
+
+    it('matches glob and regular expression patterns against paths and URLs', () => {
+        const settings = withSettings({ ignoredImagePatterns: ['https://img.shields.io/**', 'emoji-*.png', '/^assets\\/icons\\//'] });
+
+        assert.equal(isIgnoredImageSource('https://img.shields.io/badge/build-passing.svg', settings), true);
+        assert.equal(isIgnoredImageSource('emoji-smile.png', settings), true);
+        assert.equal(isIgnoredImageSource('assets/icons/home.png', settings), true);
+        assert.equal(isIgnoredImageSource('assets/photos/home.png', settings), false);
+        assert.equal(isIgnoredImageSource('https://example.com/photo.png', settings), false);
+    });
+});
+
+describe('hasImageFilters', () => {
+    it('reports whether any filter is configured', () => {
+        assert.equal(hasImageFilters(DEFAULT_SETTINGS), false);
+        assert.equal(hasImageFilters(withSettings({ ignoredImagePatterns: ['*.gif'] })), true);
+        assert.equal(hasImageFilters(withSettings({ minImageHeight: 50 })), true);
+        assert.equal(hasImageFilters(withSettings({ minImageFileSizeKb: 2 })), true);
+    });
+
+    it('only needs dimensions for a minimum width or height', () => {
+        assert.equal(hasDimensionFilter(withSettings({ minImageFileSizeKb: 2 })), false);
+        assert.equal(hasDimensionFilter(withSettings({ minImageWidth: 50 })), true);
+        assert.equal(hasDimensionFilter(withSettings({ minImageHeight: 50 })), true);
+    });
+});
+
+describe('getImageRejection', () => {
+    const settings = withSettings({ minImageWidth: 100, minImageHeight: 80, minImageFileSizeKb: 2 });
+
+    it('accepts images meeting every minimum', () => {
+        assert.equal(getImageRejection({ size: { width: 100, height: 80 }, fileSize: 2048 }, settings), undefined);
+    });
+
+    it('rejects images below the minimum width, height or file size', () => {
+        assert.match(getImageRejection({ size: { width: 99, height: 80 }, fileSize: 4096 }, settings) ?? '', /^width 99px/);
+        assert.match(getImageRejection({ size: { width: 100, height: 79 }, fileSize: 4096 }, settings) ?? '', /^height 79px/);
+        assert.match(getImageRejection({ size: { width: 100, height: 80 }, fileSize: 2047 }, settings) ?? '', /^file size 2047 bytes/);
+    });
+
+    it('never rejects on unknown values', () => {
+        assert.equal(getImageRejection({ size: undefined, fileSize: undefined }, settings), undefined);
+        assert.equal(getImageRejection({ size: undefined, fileSize: 4096 }, settings), undefined);
+    });
+
+    it('rejects nothing without filters', () => {
+        assert.equal(getImageRejection({ size: { width: 1, height: 1 }, fileSize: 1 }, DEFAULT_SETTINGS), undefined);
+    });
+});
+
+describe('isFailedDownloadMarker', () => {
+    it('recognizes failed-download markers', () => {
+        assert.equal(isFailedDownloadMarker('thumbnails/external/0cc175b9.failed.png'), true);
+        assert.equal(isFailedDownloadMarker('thumbnails/external/0cc175b9.png'), false);
+    });
+});
@@ -0,0 +1,70 @@
+import type { FeaturedImageSettings } from '../settings';
+import { matchesAnyPattern } from '../utils/glob';
+import type { ImageSize } from '../utils/image-size';
+
+/**
+ * Facts about an image used to apply the minimum-size filters. Unknown values never reject an image.
+ */
+interface ImageFacts {
+    size: ImageSize | undefined; // Pixel dimensions, when they could be read
+    fileSize: number | undefined; // File size in bytes
+}
+
+/**
+ * Checks whether a vault path or URL matches one of the ignore patterns.
+ * @param {string} value - Vault path or URL of a candidate image.
+ * @param {FeaturedImageSettings} settings - Plugin settings.
+ * @returns {boolean} True when the image must be skipped.
+ */
+export const isIgnoredImageSource = (value: string, settings: FeaturedImageSettings): boolean => {
+    return settings.ignoredImagePatterns.length > 0 && matchesAnyPattern(value, settings.ignoredImagePatterns);
+};
+
+/**
+ * Checks whether a path is the `.failed.png` marker left for a download that failed. Markers stand in for the
+ * remote image so it is not requested again, and are never rejected by the size filters.
+ * @param {string} path - Vault path of a resolved image.
+ * @returns {boolean} True when the path is a failed-download marker.
+ */
+export const isFailedDownloadMarker = (path: string): boolean => {
+    return path.endsWith('.failed.png');
+};
+
+/**
+ * Checks whether any image filter is configured, in which case a resolvable image may still be rejected.
+ * @param {FeaturedImageSettings} settings - Plugin settings.
+ * @returns {boolean} True when candidates are filtered.
+ */
+export const hasImageFilters = (settings: FeaturedImageSettings): boolean => {
+    return settings.ignoredImagePatterns.length > 0 || hasDimensionFilter(settings) || settings.minImageFileSizeKb > 0;
+};
+
+/**
+ * Checks whether a minimum width or height is configured, which requires reading image dimensions.
+ * @param {FeaturedImageSettings} settings - Plugin settings.
+ * @returns {boolean} True when dimensions are needed to filter images.
+ */
+export const hasDimensionFilter = (settings: FeaturedImageSettings): boolean => {
+    return settings.minImageWidth > 0 || settings.minImageHeight > 0;
+};
+
+/**
+ * Applies the minimum width, height and file size filters to an image.
+ * @param {ImageFacts} facts - Known dimensions and file size.
+ * @param {FeaturedImageSettings} settings - Plugin settings.
+ * @returns {string | undefined} Reason the image is rejected, or undefined when it passes.
+ */
+export const getImageRejection = (facts: ImageFacts, settings: FeaturedImageSettings): string | undefined => {
+    const { size, fileSize } = facts;
+    if (size && settings.minImageWidth > 0 && size.width < settings.minImageWidth) {
+        return `width ${size.width}px is below the minimum of ${settings.minImageWidth}px`;
+    }
+    if (size && settings.minImageHeight > 0 && size.height < settings.minImageHeight) {
+        return `height ${size.height}px is below the minimum of ${settings.minImageHeight}px`;
+    }
+    const minBytes = settings.minImageFileSizeKb * 1024;
+    if (fileSize !== undefined && minBytes > 0 && fileSize < minBytes) {
+        return `file size ${fileSize} bytes is below the minimum of ${settings.minImageFileSizeKb} KB`;
+    }
+    return undefined;
+};
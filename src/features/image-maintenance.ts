@@ -3,14 +3,40 @@ import { FeaturedImageSettings } from '../settings';
 import { restoreMtimeWithOffset } from '../utils/mtime';
 import { FeatureScanner } from './feature-scanner';
 import { ThumbnailService } from '../thumbnails/thumbnail-service';
+import { TitleCardService } from '../thumbnails/title-card-service';
+import { VideoFrameService } from '../thumbnails/video-frame-service';
 
 type LoggerFn = (...args: unknown[]) => void;
 
+/**
+ * Subfolders of the thumbnails folder holding images created or downloaded by the plugin.
+ */
+const MANAGED_IMAGE_SUBFOLDERS = [
+    'external',
+    'youtube',
+    'vimeo',
+    'dailymotion',
+    'loom',
+    'twitch',
+    'autocardlink',
+    'opengraph',
+    'inline',
+    'pdf',
+    'video',
+    'audio',
+    'excalidraw',
+    'mermaid',
+    'resized',
+    'generated'
+];
+
 type ConfirmFunction = (title: string, message: string, showPreservationNote?: boolean) => Promise<boolean>;
 
 interface ImageMaintenanceDeps {
     featureScanner: FeatureScanner;
     thumbnailService: ThumbnailService;
+    titleCardService: TitleCardService;
+    videoFrameService: VideoFrameService;
     debugLog: LoggerFn;
     errorLog: LoggerFn;
     trashFileAtPath: (path: string) => Promise<boolean>;
@@ -54,27 +80,13 @@ export class ImageMaintenanceService {
         this.deps.debugLog('Starting cleanup of unused images');
         new Notice('Scanning for unused images...');
 
-        // Initialize counters and storage sets
-        let externalImagesCount = 0;
-        let youtubeImagesCount = 0;
-        let autoCardImagesCount = 0;
-        let resizedThumbnailsCount = 0;
-
-        const externalImages = new Set<string>();
-        const youtubeImages = new Set<string>();
-        const autoCardImages = new Set<string>();
-        const resizedThumbnails = new Set<string>();
         const usedFiles = new Set<string>();
 
         try {
             // Step 1: Collect all target files
-            await this.collectImageFiles(externalImages, youtubeImages, autoCardImages, resizedThumbnails);
+            const managedImages = await this.collectImageFiles();
 
-            this.deps.debugLog(`Collected image files:
-                - External: ${externalImages.size}
-                - YouTube: ${youtubeImages.size}
-                - Auto Card: ${autoCardImages.size}
-                - Resized Thumbnails: ${resizedThumbnails.size}`);
+            this.deps.debugLog(`Collected image files:\n${this.formatFolderCounts(managedImages)}`);
 
             // Step 2: Build reference map from all markdown files
             await this.buildReferenceMap(usedFiles);
@@ -82,22 +94,15 @@ export class ImageMaintenanceService {
             this.deps.debugLog(`Found ${usedFiles.size} unique file references in notes`);
 
             // Step 3: Find unused files
-            const unusedExternal = this.findUnusedFiles(externalImages, usedFiles);
-            const unusedYoutube = this.findUnusedFiles(youtubeImages, usedFiles);
-            const unusedAutoCard = this.findUnusedFiles(autoCardImages, usedFiles);
-            const unusedResized = this.findUnusedFiles(resizedThumbnails, usedFiles);
-
-            externalImagesCount = unusedExternal.size;
-            youtubeImagesCount = unusedYoutube.size;
-            autoCardImagesCount = unusedAutoCard.size;
-            resizedThumbnailsCount = unusedResized.size;
-            this.deps.debugLog(`Unused images detected:
-                - External: ${externalImagesCount}
-                - YouTube: ${youtubeImagesCount}
-                - Auto Card: ${autoCardImagesCount}
-                - Resized Thumbnails: ${resizedThumbnailsCount}`);
-
-            const totalUnused = externalImagesCount + youtubeImagesCount + autoCardImagesCount + resizedThumbnailsCount;
+            const unusedImages = new Map<string, Set<string>>();
+            for (const [subfolder, files] of managedImages) {
+                unusedImages.set(subfolder, this.findUnusedFiles(files, usedFiles));
+            }
+
+            this.deps.debugLog(`Unused images detected:\n${this.formatFolderCounts(unusedImages)}`);
+
+            const allUnusedPaths = Array.from(unusedImages.values()).flatMap(files => Array.from(files));
+            const totalUnused = allUnusedPaths.length;
 
             if (totalUnused === 0) {
                 new Notice('No unused images found.');
@@ -125,8 +130,6 @@ export class ImageMaintenanceService {
             // Delete files in batches
             new Notice(`Deleting ${totalUnused} unused files...`);
 
-            const allUnusedPaths = [...unusedExternal, ...unusedYoutube, ...unusedAutoCard, ...unusedResized];
-
             const totalBytes = await this.calculateFileSizes(allUnusedPaths);
             const deletedCount = await this.deleteUnusedFiles(allUnusedPaths);
 
@@ -204,9 +207,10 @@ export class ImageMaintenanceService {
                 const batch = filesToProcess.slice(i, i + batchSize);
 
                 const results = await Promise.all(
-                    batch.map(async ({ file, feature }) => {
+                    batch.map(async ({ file, feature: currentFeature }) => {
                         try {
                             const originalMtime = file.stat.mtime;
+                            const feature = await this.regenerateFeature(file, currentFeature);
                             const newThumbnail = await this.deps.thumbnailService.createThumbnail(feature);
 
                             if (newThumbnail) {
@@ -258,47 +262,57 @@ export class ImageMaintenanceService {
     }
 
     /**
-     * Collects all plugin-managed media files organized by type.
-     * @param {Set<string>} externalImages - Set to store external image paths.
-     * @param {Set<string>} youtubeImages - Set to store YouTube thumbnail paths.
-     * @param {Set<string>} autoCardImages - Set to store Auto Card Link image paths.
-     * @param {Set<string>} resizedThumbnails - Set to store resized thumbnail paths.
+     * Re-creates features generated by the plugin before their thumbnails are re-rendered.
+     * Title cards are rendered from the current template, and video frames are captured again at the current offset
+     * by scanning the note for its video.
+     * @param {TFile} file - The note being re-rendered.
+     * @param {string} feature - The note's current feature.
+     * @returns {Promise<string>} The regenerated feature, or the current feature when it was not generated.
+     */
+    private async regenerateFeature(file: TFile, feature: string): Promise<string> {
+        if (this.deps.titleCardService.isTitleCard(feature)) {
+            return (await this.deps.titleCardService.createTitleCard(file)) ?? feature;
+        }
+        if (this.deps.videoFrameService.isVideoFrame(feature)) {
+            return (await this.deps.featureScanner.getFeatureFromNote(file, feature)) ?? feature;
+        }
+        return feature;
+    }
+
+    /**
+     * Collects all plugin-managed media files organized by subfolder of the thumbnails folder.
+     * @returns {Promise<Map<string, Set<string>>>} File paths keyed by managed subfolder.
      */
-    private async collectImageFiles(
-        externalImages: Set<string>,
-        youtubeImages: Set<string>,
-        autoCardImages: Set<string>,
-        resizedThumbnails: Set<string>
-    ): Promise<void> {
+    private async collectImageFiles(): Promise<Map<string, Set<string>>> {
+        const managedImages = new Map<string, Set<string>>();
         const thumbnailFolder = normalizePath(this.settings.thumbnailsFolder);
 
         // Ensure thumbnail directory exists
         if (!(await this.app.vault.adapter.exists(thumbnailFolder))) {
             this.deps.debugLog(`Thumbnail folder ${thumbnailFolder} does not exist`);
-            return;
+            return managedImages;
         }
 
         // Check each subfolder
-        const externalFolder = `${thumbnailFolder}/external`;
-        const youtubeFolder = `${thumbnailFolder}/youtube`;
-        const autoCardFolder = `${thumbnailFolder}/autocardlink`;
-        const resizedFolder = `${thumbnailFolder}/resized`;
-
-        if (await this.app.vault.adapter.exists(externalFolder)) {
-            await this.collectFilesInFolder(externalFolder, externalImages, '.failed.png');
-        }
-
-        if (await this.app.vault.adapter.exists(youtubeFolder)) {
-            await this.collectFilesInFolder(youtubeFolder, youtubeImages, '.failed.png');
+        for (const subfolder of MANAGED_IMAGE_SUBFOLDERS) {
+            const files = new Set<string>();
+            const folderPath = `${thumbnailFolder}/${subfolder}`;
+            if (await this.app.vault.adapter.exists(folderPath)) {
+                await this.collectFilesInFolder(folderPath, files, '.failed.png');
+            }
+            managedImages.set(subfolder, files);
         }
 
-        if (await this.app.vault.adapter.exists(autoCardFolder)) {
-            await this.collectFilesInFolder(autoCardFolder, autoCardImages, '.failed.png');
-        }
+        return managedImages;
+    }
 
-        if (await this.app.vault.adapter.exists(resizedFolder)) {
-            await this.collectFilesInFolder(resizedFolder, resizedThumbnails, '.failed.png');
-        }
+    /**
+     * Formats per-subfolder file counts for debug logging.
+     * @param {Map<string, Set<string>>} filesBySubfolder - File paths keyed by managed subfolder.
+     * @returns {string} One `- subfolder: count` line per subfolder.
+     */
+    private formatFolderCounts(filesBySubfolder: Map<string, Set<string>>): string {
+        return Array.from(filesBySubfolder, ([subfolder, files]) => `- ${subfolder}: ${files.size}`).join('\n');
     }
 
     /**
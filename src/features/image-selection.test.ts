@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_SETTINGS } from '../settings';
+import { getTargetAspectRatio, pickImage, RankedImage } from './image-selection';
+
+const image = (path: string, width?: number, height?: number, source = path): RankedImage => ({
+    path,
+    source,
+    size: width && height ? { width, height } : undefined
+});
+
+const WIDE = 16 / 9;
+
+describe('pickImage', () => {
+    const images = [image('small.png', 200, 200), image('large.png', 1600, 900), image('tall.png', 900, 1800)];
+
+    it('picks by document order with first and last', () => {
+        assert.equal(pickImage(images, 'first', WIDE)?.path, 'small.png');
+        assert.equal(pickImage(images, 'last', WIDE)?.path, 'tall.png');
+    });
+
+    it('returns undefined without images', () => {
+        for (const strategy of ['first', 'last', 'largest', 'aspectRatio', 'best'] as const) {
+            assert.equal(pickImage([], strategy, WIDE), undefined);
+        }
+    });
+
+    it('picks the image with the most pixels with largest', () => {
+        assert.equal(pickImage(images, 'largest', WIDE)?.path, 'tall.png');
+    });
+
+    it('ranks images of unknown size last with largest', () => {
+        assert.equal(pickImage([image('unknown.png'), image('tiny.png', 10, 10)], 'largest', WIDE)?.path, 'tiny.png');
+    });
+
+    it('picks the closest aspect ratio, treating wider and taller alike', () => {
+        assert.equal(pickImage(images, 'aspectRatio', WIDE)?.path, 'large.png');
+        assert.equal(pickImage(images, 'aspectRatio', 1)?.path, 'small.png');
+        // 2:1 and 1:2 are equally far from a square target, so the first one wins
+        assert.equal(pickImage([image('wide.png', 200, 100), image('tall.png', 100, 200)], 'aspectRatio', 1)?.path, 'wide.png');
+        assert.equal(pickImage([image('unknown.png'), image('odd.png', 100, 900)], 'aspectRatio', WIDE)?.path, 'odd.png');
+    });
+
+    it('breaks ties in favor of the image that appears first', () => {
+        const twins = [image('a.png', 800, 450), image('b.png', 800, 450)];
+        for (const strategy of ['largest', 'aspectRatio', 'best'] as const) {
+            assert.equal(pickImage(twins, strategy, WIDE)?.path, 'a.png');
+        }
+        assert.equal(pickImage([image('a.png'), image('b.png')], 'largest', WIDE)?.path, 'a.png');
+    });
+
+    it('prefers large photos over icons, badges and banners with best', () => {
+        const photo = image('photo.jpg', 1200, 800);
+        const candidates = [
+            image('icon.png', 2000, 2000, 'assets/icon.png'),
+            image('badge.svg', 90, 20, 'https://img.shields.io/badge/build-passing-green'),
+            image('divider.png', 3000, 100),
+            image('emoji.png', 32, 32),
+            photo
+        ];
+
+        assert.equal(pickImage(candidates, 'best', WIDE), photo);
+    });
+
+    it('prefers a known large image over one of unknown size with best', () => {
+        assert.equal(pickImage([image('unknown.png'), image('photo.jpg', 1200, 800)], 'best', WIDE)?.path, 'photo.jpg');
+        assert.equal(pickImage([image('unknown.png'), image('thumb.png', 48, 48)], 'best', WIDE)?.path, 'unknown.png');
+    });
+
+    it('penalizes SVG images over rasters of the same size with best', () => {
+        assert.equal(pickImage([image('chart.svg', 800, 450), image('chart.png', 800, 450)], 'best', WIDE)?.path, 'chart.png');
+    });
+});
+
+describe('getTargetAspectRatio', () => {
+    it('uses the resized thumbnail shape, or 16:9 when it has none', () => {
+        assert.equal(getTargetAspectRatio({ ...DEFAULT_SETTINGS, maxResizedWidth: 400, maxResizedHeight: 400 }), 1);
+        assert.equal(getTargetAspectRatio({ ...DEFAULT_SETTINGS, maxResizedWidth: 400, maxResizedHeight: 0 }), WIDE);
+    });
+});
@@ -0,0 +1,120 @@
+import type { FeaturedImageSettings } from '../settings';
+import type { ImageSize } from '../utils/image-size';
+
+type SelectionStrategy = FeaturedImageSettings['selectionStrategy'];
+
+/**
+ * A resolved image considered by a ranking strategy.
+ */
+export interface RankedImage {
+    path: string; // Vault-relative path of the resolved image
+    source: string; // Value the image was resolved from (path, URL or provider payload)
+    size: ImageSize | undefined; // Pixel dimensions, when they could be read
+}
+
+// Dimensions below which an image is treated as an icon or a small inline graphic
+const ICON_MAX_SIDE = 64;
+const SMALL_MAX_SIDE = 150;
+// Aspect ratios beyond this factor are typical for badges, dividers and banners
+const EXTREME_ASPECT_RATIO = 4;
+// Score for images whose dimensions are unknown, roughly that of a 128x128 image
+const UNKNOWN_SIZE_SCORE = 14;
+
+const DECORATIVE_NAME_REGEX = /(?:^|[^a-z])(?:icon|favicon|badge|shield|logo|avatar|emoji|sprite|button|spacer)s?(?:[^a-z]|$)/i;
+const BADGE_HOST_REGEX = /^https?:\/\/(?:[^/]*\.)?(?:shields\.io|badgen\.net|badge\.fury\.io|travis-ci\.(?:org|com)|codecov\.io)\//i;
+
+/**
+ * Returns the thumbnail aspect ratio images are compared against.
+ * Falls back to 16:9 when the resized thumbnail has no fixed shape.
+ * @param {FeaturedImageSettings} settings - Plugin settings.
+ * @returns {number} Target width divided by height.
+ */
+export const getTargetAspectRatio = (settings: FeaturedImageSettings): number => {
+    if (settings.maxResizedWidth > 0 && settings.maxResizedHeight > 0) {
+        return settings.maxResizedWidth / settings.maxResizedHeight;
+    }
+    return 16 / 9;
+};
+
+/**
+ * Picks an image according to a ranking strategy. Ties are won by the image that appears first.
+ * @param {RankedImage[]} images - Resolved images in document order.
+ * @param {SelectionStrategy} strategy - Ranking strategy (`first` and `last` ignore dimensions).
+ * @param {number} targetAspectRatio - Aspect ratio of the thumbnail.
+ * @returns {RankedImage | undefined} The selected image, if any.
+ */
+export const pickImage = (images: RankedImage[], strategy: SelectionStrategy, targetAspectRatio: number): RankedImage | undefined => {
+    switch (strategy) {
+        case 'first':
+            return images[0];
+        case 'last':
+            return images[images.length - 1];
+        case 'largest':
+            return pickHighest(images, image => (image.size ? image.size.width * image.size.height : 0));
+        case 'aspectRatio':
+            return pickHighest(images, image =>
+                image.size ? -aspectRatioDistance(image.size, targetAspectRatio) : Number.NEGATIVE_INFINITY
+            );
+        case 'best':
+            return pickHighest(images, image => scoreImage(image, targetAspectRatio));
+    }
+};
+
+const pickHighest = (images: RankedImage[], score: (image: RankedImage) => number): RankedImage | undefined => {
+    let best: RankedImage | undefined;
+    let bestScore = Number.NEGATIVE_INFINITY;
+    for (const image of images) {
+        const imageScore = score(image);
+        if (!best || imageScore > bestScore) {
+            best = image;
+            bestScore = imageScore;
+        }
+    }
+    return best;
+};
+
+/**
+ * Distance between an image's aspect ratio and the target, symmetric for wider and taller images.
+ */
+const aspectRatioDistance = (size: ImageSize, targetAspectRatio: number): number => {
+    return Math.abs(Math.log2(size.width / size.height / targetAspectRatio));
+};
+
+/**
+ * Scores an image for the `best` strategy. Larger images score higher (logarithmically), while icons,
+ * badges, tiny images and shapes far from the thumbnail's aspect ratio are penalized.
+ * @param {RankedImage} image - Image to score.
+ * @param {number} targetAspectRatio - Aspect ratio of the thumbnail.
+ * @returns {number} Score; higher is better.
+ */
+const scoreImage = (image: RankedImage, targetAspectRatio: number): number => {
+    let score = UNKNOWN_SIZE_SCORE;
+
+    if (image.size) {
+        const { width, height } = image.size;
+        const shortSide = Math.min(width, height);
+        const aspectRatio = width / height;
+
+        score = Math.log2(width * height);
+        if (shortSide <= ICON_MAX_SIDE) {
+            score -= 8;
+        } else if (shortSide <= SMALL_MAX_SIDE) {
+            score -= 3;
+        }
+        if (aspectRatio > EXTREME_ASPECT_RATIO || aspectRatio < 1 / EXTREME_ASPECT_RATIO) {
+            score -= 6;
+        }
+        score -= 2 * aspectRatioDistance(image.size, targetAspectRatio);
+    }
+
+    if (BADGE_HOST_REGEX.test(image.source)) {
+        score -= 10;
+    } else if (DECORATIVE_NAME_REGEX.test(image.source) || DECORATIVE_NAME_REGEX.test(image.path)) {
+        score -= 6;
+    }
+    if (image.path.toLowerCase().endsWith('.svg')) {
+        score -= 2;
+    }
+
+    return score;
+};
@@ -0,0 +1,174 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { collectLinkReferences, findReferenceImages, isHiddenOffset, isLinkReferenceDefinition, scanMarkdown } from './markdown-context';
+
+/**
+ * Checks whether the first occurrence of a marker in the content is hidden from rendering.
+ */
+const isHidden = (content: string, marker: string): boolean => {
+    const offset = content.indexOf(marker);
+    assert.notEqual(offset, -1, `${marker} not found`);
+    return isHiddenOffset(scanMarkdown(content), offset);
+};
+
+describe('scanMarkdown', () => {
+    it('hides fenced code blocks and reports their language and body', () => {
+        const content = 'before\n```Mermaid graph\nA --> B\n```\nafter';
+        const scan = scanMarkdown(content);
+
+        assert.equal(isHidden(content, 'A --> B'), true);
+        assert.equal(isHidden(content, 'after'), false);
+        assert.deepEqual(scan.blocks, [{ language: 'mermaid', content: 'A --> B\n', offset: 7 }]);
+    });
+
+    it('closes fences only with the same marker and at least the opening length', () => {
+        const content = '~~~~\n```\n~~~\nhidden\n~~~~\nshown';
+
+        assert.equal(isHidden(content, 'hidden'), true);
+        assert.equal(isHidden(content, 'shown'), false);
+        assert.equal(scanMarkdown(content).blocks[0].content, '```\n~~~\nhidden\n');
+    });
+
+    it('hides unclosed fences to the end of the document without reporting a block', () => {
+        const content = 'text\n```\n![](a.png)\n\nmore';
+        const scan = scanMarkdown(content);
+
+        assert.equal(isHidden(content, '![](a.png)'), true);
+        assert.equal(isHidden(content, 'more'), true);
+        assert.deepEqual(scan.blocks, []);
+    });
+
+    it('ends fences inside a blockquote with the blockquote', () => {
+        const content = '> ```\n> ![](a.png)\n\n![](b.png)';
+
+        assert.equal(isHidden(content, '![](a.png)'), true);
+        assert.equal(isHidden(content, '![](b.png)'), false);
+        assert.deepEqual(scanMarkdown(content).blocks, []);
+    });
+
+    it('reports fences closed inside a blockquote', () => {
+        const content = '> ```js\n> code\n> ```\n> ![](a.png)';
+
+        assert.equal(isHidden(content, 'code'), true);
+        assert.equal(isHidden(content, '![](a.png)'), false);
+        assert.deepEqual(scanMarkdown(content).blocks, [{ language: 'js', content: 'code\n', offset: 0 }]);
+    });
+
+    it('hides indented code after a blank line but not indented list continuations', () => {
+        assert.equal(isHidden('text\n\n    ![](a.png)', '![](a.png)'), true);
+        assert.equal(isHidden('text\n    ![](a.png)', '![](a.png)'), false);
+        assert.equal(isHidden('- item\n\n    ![](a.png)', '![](a.png)'), false);
+        assert.equal(isHidden('- item\n\nparagraph\n\n    ![](a.png)', '![](a.png)'), true);
+    });
+
+    it('hides inline code, also when it continues on the next line', () => {
+        assert.equal(isHidden('a `![](a.png)` b', '![](a.png)'), true);
+        assert.equal(isHidden('a ``x ` ![](a.png)`` b', '![](a.png)'), true);
+        assert.equal(isHidden('a `one\n![](a.png)` b', '![](a.png)'), true);
+        assert.equal(isHidden('a `one\n![](a.png)` b ![](b.png)', '![](b.png)'), false);
+    });
+
+    it('does not hide backtick runs without a closing run in the same paragraph', () => {
+        assert.equal(isHidden('a `one\n\n![](a.png)` b', '![](a.png)'), false);
+        assert.equal(isHidden('a ``one` ![](a.png)', '![](a.png)'), false);
+        assert.equal(isHidden('a \\`![](a.png)`', '![](a.png)'), false);
+    });
+
+    it('hides %% comments, to the end of the document when unclosed', () => {
+        assert.equal(isHidden('a %% ![](a.png) %% ![](b.png)', '![](a.png)'), true);
+        assert.equal(isHidden('a %% ![](a.png) %% ![](b.png)', '![](b.png)'), false);
+        assert.equal(isHidden('%%\n![](a.png)\n\n%%\n![](b.png)', '![](a.png)'), true);
+        assert.equal(isHidden('%%\n![](a.png)\n\n%%\n![](b.png)', '![](b.png)'), false);
+        assert.equal(isHidden('a %%\n\n![](a.png)', '![](a.png)'), true);
+    });
+
+    it('hides HTML comments, to the end of the document when unclosed', () => {
+        assert.equal(isHidden('<!--\n![](a.png)\n-->\n![](b.png)', '![](a.png)'), true);
+        assert.equal(isHidden('<!--\n![](a.png)\n-->\n![](b.png)', '![](b.png)'), false);
+        assert.equal(isHidden('<!-- ![](a.png)', '![](a.png)'), true);
+    });
+
+    it('hides $$ math blocks but not an unclosed $$', () => {
+        assert.equal(isHidden('$$\n![](a.png)\n$$\n![](b.png)', '![](a.png)'), true);
+        assert.equal(isHidden('$$\n![](a.png)\n$$\n![](b.png)', '![](b.png)'), false);
+        assert.equal(isHidden('costs $$ ![](a.png)', '![](a.png)'), false);
+    });
+
+    it('masks hidden regions with spaces, keeping offsets and newlines', () => {
+        const content = 'a `b` c\n```\nx\n```\nd';
+        const scan = scanMarkdown(content);
+
+        assert.equal(scan.text, 'a     c\n   \n \n   \nd');
+        assert.equal(scan.text.length, content.length);
+    });
+});
+
+describe('collectLinkReferences', () => {
+    it('collects destinations and titles keyed by normalized label', () => {
+        const references = collectLinkReferences(
+            ['[Logo]: https://example.com/logo.png "Logo"', '  [Big   Photo]: <photos/big photo.png>', "[chart]: chart.png 'Chart'"].join(
+                '\n'
+            )
+        );
+
+        assert.deepEqual(references.get('logo'), { destination: 'https://example.com/logo.png', title: '"Logo"' });
+        assert.deepEqual(references.get('big photo'), { destination: 'photos/big photo.png', title: undefined });
+        assert.deepEqual(references.get('chart'), { destination: 'chart.png', title: "'Chart'" });
+    });
+
+    it('rewrites parenthesized titles with quotes', () => {
+        assert.deepEqual(collectLinkReferences('[logo]: logo.png (featured)').get('logo'), {
+            destination: 'logo.png',
+            title: '"featured"'
+        });
+    });
+
+    it('keeps the first definition of a label', () => {
+        const references = collectLinkReferences('[logo]: first.png\n[LOGO]: second.png');
+
+        assert.equal(references.size, 1);
+        assert.equal(references.get('logo')?.destination, 'first.png');
+    });
+
+    it('ignores lines that are not definitions', () => {
+        const references = collectLinkReferences(
+            ['    [code]: indented.png', '[]: empty.png', '[text] [logo]: inline.png', '[logo]:'].join('\n')
+        );
+
+        assert.equal(references.size, 0);
+        assert.equal(isLinkReferenceDefinition('[logo]: logo.png'), true);
+        assert.equal(isLinkReferenceDefinition('See [logo]: logo.png'), false);
+    });
+});
+
+describe('findReferenceImages', () => {
+    const references = collectLinkReferences('[logo]: logo.png "Logo"\n[big photo]: photo.png');
+
+    it('resolves full, collapsed and shortcut references', () => {
+        assert.deepEqual(findReferenceImages('![Alt][logo]', references), [{ index: 0, length: 12, inline: '![Alt](logo.png "Logo")' }]);
+        assert.deepEqual(findReferenceImages('a ![logo][]', references), [{ index: 2, length: 9, inline: '![logo](logo.png "Logo")' }]);
+        assert.deepEqual(findReferenceImages('![logo] b', references), [{ index: 0, length: 7, inline: '![logo](logo.png "Logo")' }]);
+    });
+
+    it('matches labels case-insensitively with collapsed whitespace', () => {
+        assert.deepEqual(
+            findReferenceImages('![Photo][ Big\tPHOTO ]', references).map(image => image.inline),
+            ['![Photo](photo.png)']
+        );
+    });
+
+    it('skips inline images and undefined labels', () => {
+        assert.deepEqual(findReferenceImages('![logo](other.png) ![x][missing] ![missing]', references), []);
+    });
+
+    it('returns every reference image of a line in order', () => {
+        assert.deepEqual(
+            findReferenceImages('![logo] and ![big photo][]', references).map(image => image.index),
+            [0, 12]
+        );
+    });
+
+    it('finds nothing without definitions', () => {
+        assert.deepEqual(findReferenceImages('![logo]', new Map()), []);
+    });
+});
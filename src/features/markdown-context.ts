@@ -0,0 +1,363 @@
+/**
+ * A fenced code block found while scanning markdown.
+ */
+interface FencedCodeBlock {
+    language: string; // Lowercase first word of the info string
+    content: string; // Block body, each line terminated by a newline
+    offset: number; // Offset of the opening fence within the scanned text
+}
+
+/**
+ * Result of scanning markdown for rendered content.
+ */
+export interface MarkdownScan {
+    text: string; // Scanned text with non-rendered regions replaced by spaces (offsets and newlines preserved)
+    blocks: FencedCodeBlock[]; // Closed fenced code blocks in document order
+    hiddenRanges: [number, number][]; // Non-rendered [start, end) ranges in ascending order
+}
+
+interface FenceInfo {
+    marker: '`' | '~';
+    length: number;
+    language: string;
+    quoteDepth: number;
+}
+
+const FENCE_OPEN_REGEX = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+const LIST_ITEM_REGEX = /^\s*(?:[-*+]|\d+[.)])(?:\s|$)/;
+const INDENTED_CODE_REGEX = /^(?: {4}|\t)/;
+
+/**
+ * Scans markdown and identifies regions that Obsidian does not render as regular content:
+ * fenced and indented code blocks, inline code, `%% %%` comments, HTML comments and `$$` math blocks.
+ * @param {string} content - Markdown content to scan.
+ * @returns {MarkdownScan} Masked text, fenced code blocks and hidden ranges.
+ */
+export const scanMarkdown = (content: string): MarkdownScan => {
+    const hiddenRanges: [number, number][] = [];
+    const blocks: FencedCodeBlock[] = [];
+    const length = content.length;
+
+    let pos = 0;
+    let previousLineBlank = true;
+    let inList = false;
+    let inIndentedCode = false;
+
+    while (pos < length) {
+        const lineEnd = findLineEnd(content, pos);
+        const line = content.slice(pos, lineEnd);
+        const isBlank = line.trim() === '';
+
+        const fence = parseFenceOpen(line);
+        if (fence) {
+            const blockEnd = consumeFencedBlock(content, lineEnd, fence, pos, blocks);
+            hiddenRanges.push([pos, blockEnd]);
+            pos = blockEnd + 1;
+            previousLineBlank = false;
+            inIndentedCode = false;
+            continue;
+        }
+
+        const isIndented = INDENTED_CODE_REGEX.test(line);
+        if (!isBlank && isIndented && (inIndentedCode || (previousLineBlank && !inList))) {
+            hiddenRanges.push([pos, lineEnd]);
+            pos = lineEnd + 1;
+            previousLineBlank = false;
+            inIndentedCode = true;
+            continue;
+        }
+
+        if (!isBlank) {
+            inIndentedCode = false;
+            if (LIST_ITEM_REGEX.test(line)) {
+                inList = true;
+            } else if (previousLineBlank && !isIndented) {
+                inList = false;
+            }
+        }
+
+        const scanEnd = scanInline(content, pos, lineEnd, hiddenRanges);
+        previousLineBlank = scanEnd === lineEnd ? isBlank : false;
+        pos = scanEnd + 1;
+    }
+
+    return {
+        text: maskRanges(content, hiddenRanges),
+        blocks,
+        hiddenRanges
+    };
+};
+
+/**
+ * Checks whether an offset falls inside a non-rendered region.
+ * @param {MarkdownScan} scan - Scan result.
+ * @param {number} offset - Offset within the scanned text.
+ * @returns {boolean} True when the offset is hidden.
+ */
+export const isHiddenOffset = (scan: MarkdownScan, offset: number): boolean => {
+    return scan.hiddenRanges.some(([start, end]) => offset >= start && offset < end);
+};
+
+/**
+ * Target of a link reference definition such as `[logo]: https://example.com/logo.png "Title"`.
+ */
+export interface LinkReference {
+    destination: string;
+    title?: string; // Title including its quotes, e.g. `"featured"`
+}
+
+/**
+ * A reference-style image such as `![alt][logo]`, `![logo][]` or `![logo]`, rewritten as an inline image.
+ */
+interface ReferenceImage {
+    index: number; // Offset of the image within the line
+    length: number; // Length of the reference-style image text
+    inline: string; // Equivalent inline image, e.g. `![alt](https://example.com/logo.png "Title")`
+}
+
+const LINK_REFERENCE_DEFINITION_REGEX =
+    /^ {0,3}\[(?<label>[^[\]]*[^\s[\]][^[\]]*)\]:[ \t]*(?:<(?<angle>[^<>\n]*)>|(?<plain>[^\s<][^\s]*))(?:[ \t]+(?<title>"[^"]*"|'[^']*'|\([^()]*\)))?[ \t]*$/;
+
+// Full (`![alt][label]`), collapsed (`![label][]`) and shortcut (`![label]`) references
+const REFERENCE_IMAGE_REGEX = /!\[(?<alt>[^[\]]*)\](?:\[(?<label>[^[\]]*)\]|(?![[(]))/g;
+
+/**
+ * Normalizes a link label for matching: labels are case-insensitive and runs of whitespace are equivalent.
+ */
+const normalizeLinkLabel = (label: string): string => label.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Checks whether a line is a link reference definition, which Obsidian does not render.
+ * @param {string} line - Line of rendered text.
+ * @returns {boolean} True when the line defines a link reference.
+ */
+export const isLinkReferenceDefinition = (line: string): boolean => LINK_REFERENCE_DEFINITION_REGEX.test(line);
+
+/**
+ * Collects link reference definitions from rendered text. When a label is defined twice, the first definition wins.
+ * @param {string} text - Scanned text, with code, comments and math masked.
+ * @returns {Map<string, LinkReference>} Definitions keyed by normalized label.
+ */
+export const collectLinkReferences = (text: string): Map<string, LinkReference> => {
+    const references = new Map<string, LinkReference>();
+    for (const line of text.split('\n')) {
+        const groups = LINK_REFERENCE_DEFINITION_REGEX.exec(line)?.groups;
+        const label = groups ? normalizeLinkLabel(groups.label) : '';
+        if (groups && !references.has(label)) {
+            // Parenthesized titles are rewritten with quotes, the form inline images use
+            const title = groups.title?.startsWith('(') ? `"${groups.title.slice(1, -1)}"` : groups.title;
+            references.set(label, { destination: groups.angle ?? groups.plain, title });
+        }
+    }
+    return references;
+};
+
+/**
+ * Finds reference-style images in a line whose label has a definition.
+ * @param {string} line - Line of rendered text.
+ * @param {Map<string, LinkReference>} references - Definitions from {@link collectLinkReferences}.
+ * @returns {ReferenceImage[]} Reference-style images in line order.
+ */
+export const findReferenceImages = (line: string, references: Map<string, LinkReference>): ReferenceImage[] => {
+    const images: ReferenceImage[] = [];
+    if (references.size === 0 || !line.includes('![')) {
+        return images;
+    }
+
+    for (const match of line.matchAll(REFERENCE_IMAGE_REGEX)) {
+        const alt = match.groups?.alt ?? '';
+        const label = match.groups?.label;
+        // Collapsed and shortcut references use the alt text as label
+        const reference = references.get(normalizeLinkLabel(label || alt));
+        if (!reference?.destination || match.index === undefined) {
+            continue;
+        }
+        const title = reference.title ? ` ${reference.title}` : '';
+        images.push({ index: match.index, length: match[0].length, inline: `![${alt}](${reference.destination}${title})` });
+    }
+    return images;
+};
+
+const findLineEnd = (content: string, from: number): number => {
+    const index = content.indexOf('\n', from);
+    return index === -1 ? content.length : index;
+};
+
+/**
+ * Splits leading blockquote markers (`>`) from a line.
+ */
+const splitQuotePrefix = (line: string): { depth: number; rest: string } => {
+    const match = /^(?:[ \t]{0,3}>[ \t]?)*/.exec(line);
+    const prefix = match ? match[0] : '';
+    const depth = (prefix.match(/>/g) ?? []).length;
+    return { depth, rest: line.slice(prefix.length) };
+};
+
+const parseFenceOpen = (line: string): FenceInfo | undefined => {
+    const { depth, rest } = splitQuotePrefix(line);
+    const match = FENCE_OPEN_REGEX.exec(rest);
+    if (!match) {
+        return undefined;
+    }
+
+    const marker = match[1][0] as '`' | '~';
+    const info = match[2];
+    if (marker === '`' && info.includes('`')) {
+        return undefined;
+    }
+
+    return {
+        marker,
+        length: match[1].length,
+        language: (info.trim().split(/\s+/)[0] || '').toLowerCase(),
+        quoteDepth: depth
+    };
+};
+
+const isFenceClose = (rest: string, fence: FenceInfo): boolean => {
+    const match = /^ {0,3}(`{3,}|~{3,})[ \t]*$/.exec(rest);
+    return Boolean(match && match[1][0] === fence.marker && match[1].length >= fence.length);
+};
+
+/**
+ * Consumes a fenced code block starting after the opening fence line.
+ * Unclosed blocks extend to the end of the document (or the end of their blockquote) and are not reported.
+ * @returns {number} Offset of the end of the block's last line.
+ */
+const consumeFencedBlock = (
+    content: string,
+    openLineEnd: number,
+    fence: FenceInfo,
+    openOffset: number,
+    blocks: FencedCodeBlock[]
+): number => {
+    const length = content.length;
+    const bodyLines: string[] = [];
+    let blockEnd = openLineEnd;
+    let cursor = openLineEnd + 1;
+
+    while (cursor < length) {
+        const lineEnd = findLineEnd(content, cursor);
+        const { depth, rest } = splitQuotePrefix(content.slice(cursor, lineEnd));
+
+        if (depth < fence.quoteDepth) {
+            return blockEnd;
+        }
+
+        blockEnd = lineEnd;
+        if (isFenceClose(rest, fence)) {
+            blocks.push({
+                language: fence.language,
+                content: bodyLines.map(bodyLine => `${bodyLine}\n`).join(''),
+                offset: openOffset
+            });
+            return blockEnd;
+        }
+
+        bodyLines.push(rest);
+        cursor = lineEnd + 1;
+    }
+
+    return blockEnd;
+};
+
+/**
+ * Scans a line for inline constructs that hide content. Constructs may continue on later lines,
+ * in which case scanning resumes after the construct and finishes the line where it ended.
+ * @returns {number} Offset of the end of the last line scanned.
+ */
+const scanInline = (content: string, from: number, lineEnd: number, hiddenRanges: [number, number][]): number => {
+    const length = content.length;
+    let cursor = from;
+    let scanEnd = lineEnd;
+
+    while (cursor < scanEnd) {
+        const char = content[cursor];
+
+        if (char === '\\') {
+            cursor += 2;
+            continue;
+        }
+
+        let hiddenEnd = -1;
+        if (char === '`') {
+            const run = countRun(content, cursor, '`');
+            const close = findClosingBackticks(content, cursor + run, run);
+            if (close === -1) {
+                cursor += run;
+                continue;
+            }
+            hiddenEnd = close + run;
+        } else if (char === '%' && content.startsWith('%%', cursor)) {
+            const close = content.indexOf('%%', cursor + 2);
+            hiddenEnd = close === -1 ? length : close + 2;
+        } else if (char === '<' && content.startsWith('<!--', cursor)) {
+            const close = content.indexOf('-->', cursor + 4);
+            hiddenEnd = close === -1 ? length : close + 3;
+        } else if (char === '$' && content.startsWith('$$', cursor)) {
+            const close = content.indexOf('$$', cursor + 2);
+            if (close === -1) {
+                cursor += 2;
+                continue;
+            }
+            hiddenEnd = close + 2;
+        } else {
+            cursor++;
+            continue;
+        }
+
+        hiddenRanges.push([cursor, hiddenEnd]);
+        cursor = hiddenEnd;
+        if (cursor > scanEnd) {
+            scanEnd = findLineEnd(content, cursor);
+        }
+    }
+
+    return scanEnd;
+};
+
+const countRun = (content: string, from: number, char: string): number => {
+    let index = from;
+    while (index < content.length && content[index] === char) {
+        index++;
+    }
+    return index - from;
+};
+
+/**
+ * Finds a closing backtick run of exactly `run` characters within the current paragraph.
+ */
+const findClosingBackticks = (content: string, from: number, run: number): number => {
+    let index = from;
+    while (index < content.length) {
+        const char = content[index];
+        if (char === '\n') {
+            const nextLineEnd = findLineEnd(content, index + 1);
+            if (content.slice(index + 1, nextLineEnd).trim() === '') {
+                return -1;
+            }
+            index++;
+            continue;
+        }
+        if (char === '`') {
+            const closeRun = countRun(content, index, '`');
+            if (closeRun === run) {
+                return index;
+            }
+            index += closeRun;
+            continue;
+        }
+        index++;
+    }
+    return -1;
+};
+
+const maskRanges = (content: string, ranges: [number, number][]): string => {
+    let result = '';
+    let last = 0;
+    for (const [start, end] of ranges) {
+        result += content.slice(last, start) + content.slice(start, end).replace(/[^\n]/g, ' ');
+        last = end;
+    }
+    return result + content.slice(last);
+};
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { createServer, Server } from 'node:http';
+import { after, before, describe, it } from 'node:test';
+import { OpenGraphService } from './open-graph';
+
+/**
+ * Responses of the local stand-in for remote web pages, by path.
+ */
+const PAGES: Record<string, { status?: number; contentType: string; body: string }> = {
+    '/article': {
+        contentType: 'text/html; charset=utf-8',
+        body: '<html><head><meta property="og:image" content="https://cdn.example.com/cover.jpg"></head><body></body></html>'
+    },
+    '/no-image': {
+        contentType: 'text/html',
+        body: '<html><head><title>No image</title></head><body><img src="/inline.png"></body></html>'
+    },
+    '/relative': {
+        contentType: 'text/html',
+        body: '<html><head><meta name="twitter:image" content="/images/cover.png"></head></html>'
+    },
+    '/data.json': {
+        contentType: 'application/json',
+        body: '{"og:image": "https://cdn.example.com/cover.jpg"}'
+    },
+    '/gone': { status: 404, contentType: 'text/html', body: 'Not found' }
+};
+
+describe('OpenGraphService', () => {
+    let server: Server;
+    let baseUrl: string;
+    const requests: string[] = [];
+
+    before(async () => {
+        server = createServer((request, response) => {
+            requests.push(request.url ?? '');
+            const page = PAGES[request.url ?? ''] ?? PAGES['/gone'];
+            response.writeHead(page.status ?? 200, { 'Content-Type': page.contentType });
+            response.end(page.body);
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    const createService = () => new OpenGraphService({ debugLog: () => {}, errorLog: () => {} });
+
+    it('returns the og:image of a page', async () => {
+        assert.equal(await createService().getPageImageUrl(`${baseUrl}/article`), 'https://cdn.example.com/cover.jpg');
+    });
+
+    it('returns undefined for a page without a declared image', async () => {
+        assert.equal(await createService().getPageImageUrl(`${baseUrl}/no-image`), undefined);
+    });
+
+    it('resolves relative image URLs against the page URL', async () => {
+        assert.equal(await createService().getPageImageUrl(`${baseUrl}/relative`), `${baseUrl}/images/cover.png`);
+    });
+
+    it('ignores responses that are not HTML', async () => {
+        assert.equal(await createService().getPageImageUrl(`${baseUrl}/data.json`), undefined);
+    });
+
+    it('returns undefined for failed requests and does not fetch them again', async () => {
+        const service = createService();
+        requests.length = 0;
+
+        assert.equal(await service.getPageImageUrl(`${baseUrl}/gone`), undefined);
+        assert.equal(await service.getPageImageUrl(`${baseUrl}/gone`), undefined);
+        assert.deepEqual(requests, ['/gone']);
+    });
+});
@@ -0,0 +1,127 @@
+import { requestUrl } from 'obsidian';
+import { parseHtmlAttributes } from '../utils/html';
+
+interface OpenGraphServiceDeps {
+    debugLog: (...args: unknown[]) => void;
+    errorLog: (...args: unknown[]) => void;
+}
+
+/**
+ * Maximum number of pages whose lead image is kept in memory.
+ */
+const MAX_CACHED_PAGES = 200;
+
+/**
+ * Only the start of a page is parsed, since the lead image is declared in the document head.
+ */
+const MAX_PARSED_HTML_LENGTH = 512 * 1024;
+
+/**
+ * Meta properties holding the lead image, in order of preference.
+ */
+const IMAGE_META_PROPERTIES = ['og:image:secure_url', 'og:image', 'og:image:url', 'twitter:image', 'twitter:image:src'];
+
+/**
+ * Finds the lead image of web pages from their Open Graph, Twitter card and `image_src` declarations.
+ */
+export class OpenGraphService {
+    private readonly cache = new Map<string, Promise<string | undefined>>();
+
+    constructor(private readonly deps: OpenGraphServiceDeps) {}
+
+    /**
+     * Fetches a page and returns the absolute URL of its lead image.
+     * Results are cached per page URL for the session, including failed requests, so notes with dead links
+     * do not fetch the page again on every scan.
+     * @param {string} pageUrl - URL of the web page.
+     * @returns {Promise<string | undefined>} Image URL, or undefined when the page declares no image.
+     */
+    async getPageImageUrl(pageUrl: string): Promise<string | undefined> {
+        const cached = this.cache.get(pageUrl);
+        if (cached) {
+            return await cached;
+        }
+
+        const pending = this.fetchPageImageUrl(pageUrl);
+        if (this.cache.size >= MAX_CACHED_PAGES) {
+            const oldest = this.cache.keys().next().value;
+            if (oldest !== undefined) {
+                this.cache.delete(oldest);
+            }
+        }
+        this.cache.set(pageUrl, pending);
+        return await pending;
+    }
+
+    private async fetchPageImageUrl(pageUrl: string): Promise<string | undefined> {
+        let html: string | undefined;
+        try {
+            html = await fetchPage(pageUrl);
+        } catch (error) {
+            this.deps.errorLog('Failed to fetch page for Open Graph image:', pageUrl, error);
+            return undefined;
+        }
+
+        const imageUrl = html ? extractPageImageUrl(html, pageUrl) : undefined;
+        this.deps.debugLog('Open Graph image for', pageUrl, imageUrl ? `: ${imageUrl}` : 'not found');
+        return imageUrl;
+    }
+}
+
+/**
+ * Fetches the HTML of a web page. Returns undefined when the response is not an HTML document.
+ */
+const fetchPage = async (url: string): Promise<string | undefined> => {
+    const response = await requestUrl({ url, method: 'GET', headers: { Accept: 'text/html,application/xhtml+xml' } });
+    const contentType = Object.entries(response.headers).find(([key]) => key.toLowerCase() === 'content-type')?.[1] ?? '';
+    if (contentType && !contentType.toLowerCase().includes('html')) {
+        return undefined;
+    }
+    return response.text;
+};
+
+/**
+ * Extracts the lead image from the head of an HTML document.
+ * Relative image URLs are resolved against the document's `<base href>` or the page URL.
+ * @param {string} html - HTML document.
+ * @param {string} pageUrl - URL the document was fetched from.
+ * @returns {string | undefined} Absolute image URL, if declared.
+ */
+const extractPageImageUrl = (html: string, pageUrl: string): string | undefined => {
+    const head = html.slice(0, MAX_PARSED_HTML_LENGTH).split(/<\/head\s*>/i)[0];
+    const metaValues = new Map<string, string>();
+    let linkImage: string | undefined;
+    let baseHref: string | undefined;
+
+    for (const [, name, attributeText] of head.matchAll(/<(meta|link|base)\b([^>]*)>/gi)) {
+        const attributes = parseHtmlAttributes(attributeText);
+        const tag = name.toLowerCase();
+
+        if (tag === 'meta') {
+            const key = (attributes.property ?? attributes.name ?? '').toLowerCase();
+            const content = attributes.content?.trim();
+            if (content && IMAGE_META_PROPERTIES.includes(key) && !metaValues.has(key)) {
+                metaValues.set(key, content);
+            }
+        } else if (tag === 'link') {
+            const rel = (attributes.rel ?? '').toLowerCase().split(/\s+/);
+            if (rel.includes('image_src') && attributes.href?.trim() && !linkImage) {
+                linkImage = attributes.href.trim();
+            }
+        } else if (attributes.href?.trim() && !baseHref) {
+            baseHref = attributes.href.trim();
+        }
+    }
+
+    const image = IMAGE_META_PROPERTIES.map(property => metaValues.get(property)).find(Boolean) ?? linkImage;
+    if (!image) {
+        return undefined;
+    }
+
+    try {
+        const base = baseHref ? new URL(baseHref, pageUrl).href : pageUrl;
+        return new URL(image, base).href;
+    } catch {
+        return undefined;
+    }
+};
@@ -0,0 +1,61 @@
+import { SUPPORTED_AUDIO_EXTENSIONS } from '../../settings';
+import { hasFeaturedAlias, hasFeaturedAttribute, hasFeaturedTitle, safeDecodeLinkComponent } from '../../utils/links';
+import { resolveLocalImagePath } from '../../utils/obsidian';
+import { collectRegexMatches } from './registry';
+import type { ImageSourceContext, LineImageSourceProvider } from './types';
+
+const audioExtensionsPattern = SUPPORTED_AUDIO_EXTENSIONS.join('|');
+const ATTRIBUTES_PATTERN = '(?<attributes>\\{[^{}\\n]*\\})?';
+
+const wikiAudioRegex = new RegExp(
+    `!\\[\\[(?<wikiAudio>[^\\]|#]+\\.(?:${audioExtensionsPattern}))(?<wikiMeta>[#|][^\\]]*)?\\]\\]${ATTRIBUTES_PATTERN}`,
+    'gi'
+);
+
+const markdownAudioRegex = new RegExp(
+    `!\\[[^\\]]*\\]\\(\\s*<?(?<mdAudio>(?![a-z][a-z\\d+.-]*:)[^)(\\s<>#]+\\.(?:${audioExtensionsPattern}))(?:#[^)(\\s<>]*)?>?(?<title>\\s+(?:"[^"]*"|'[^']*'))?\\s*\\)${ATTRIBUTES_PATTERN}`,
+    'gi'
+);
+
+/**
+ * Local audio embeds with cover art, e.g. `![[episode.mp3]]`, `![[track.m4a]]` or `![](album.flac)`.
+ * The cover is extracted to the `audio` subfolder; files without one are skipped.
+ * `![[episode.mp3|featured]]` and `![[episode.mp3]]{.featured}` mark the embed as the featured image.
+ */
+export const audioCoverProvider: LineImageSourceProvider = {
+    id: 'audio-cover',
+    kind: 'line',
+
+    match(line: string) {
+        return [
+            ...collectRegexMatches(
+                wikiAudioRegex,
+                line,
+                'wikiAudio',
+                match => hasFeaturedAlias(match.groups?.wikiMeta ?? '') || hasFeaturedAttribute(match.groups?.attributes)
+            ),
+            ...collectRegexMatches(
+                markdownAudioRegex,
+                line,
+                'mdAudio',
+                match =>
+                    hasFeaturedTitle(`${match.groups?.mdAudio}${match.groups?.title ?? ''}`) ||
+                    hasFeaturedAttribute(match.groups?.attributes)
+            )
+        ].sort((a, b) => a.index - b.index);
+    },
+
+    async resolve(value: string, context: ImageSourceContext) {
+        const audioPath = safeDecodeLinkComponent(value);
+        const resolvedAudio = resolveLocalImagePath(context.app, audioPath, context.file);
+        if (!resolvedAudio) {
+            context.errorLog(`Local audio file not found for featured image: ${audioPath} (referenced in ${context.file.path})`);
+            return undefined;
+        }
+        return await context.extractAudioCover(resolvedAudio);
+    },
+
+    collectReferences(value: string) {
+        return [safeDecodeLinkComponent(value)];
+    }
+};
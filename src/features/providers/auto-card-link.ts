@@ -0,0 +1,66 @@
+import { isHttpUrl } from '../../utils/links';
+import { resolveLocalImagePath } from '../../utils/obsidian';
+import { isValidHttpsUrl } from '../../utils/urls';
+import type { BlockImageSourceProvider, ImageSourceContext } from './types';
+
+const autoCardImageRegex = /image:\s*(?<autoCardImage>.+?)(?:\n|$)/i;
+
+/**
+ * Extracts the local target path from an Auto Card Link image entry.
+ * @param {string} imagePath - Raw image path value from code block.
+ * @returns {string | undefined} Sanitized local path when present.
+ */
+const extractAutoCardLinkLocalPath = (imagePath: string): string | undefined => {
+    if (!(imagePath.startsWith('"') && imagePath.endsWith('"'))) {
+        return undefined;
+    }
+
+    let localPath = imagePath.slice(1, -1).trim();
+    localPath = localPath.replace(/^\[\[|\]\]$/g, '');
+    return localPath;
+};
+
+/**
+ * Image entries in Auto Card Link code blocks (`cardlink`).
+ */
+export const autoCardLinkProvider: BlockImageSourceProvider = {
+    id: 'auto-card-link',
+    kind: 'block',
+    languages: ['cardlink'],
+
+    extract(blockContent: string) {
+        const imageMatch = autoCardImageRegex.exec(blockContent);
+        return imageMatch?.groups?.autoCardImage?.trim() || undefined;
+    },
+
+    async resolve(value: string, context: ImageSourceContext) {
+        const imagePath = value.trim();
+
+        const localPath = extractAutoCardLinkLocalPath(imagePath);
+        if (localPath) {
+            const resolvedLocalPath = resolveLocalImagePath(context.app, localPath, context.file);
+            if (!resolvedLocalPath) {
+                context.errorLog(`Local Auto Card Link image not found: ${localPath} (referenced in ${context.file.path})`);
+                return undefined;
+            }
+            return resolvedLocalPath;
+        }
+
+        if (isHttpUrl(imagePath)) {
+            context.logHttpImageWarning(imagePath, 'Auto Card Link');
+            return undefined;
+        }
+
+        if (!isValidHttpsUrl(imagePath)) {
+            context.errorLog('Invalid Auto Card Link URL:', imagePath);
+            return undefined;
+        }
+
+        return await context.downloadExternalImage(imagePath, 'autocardlink');
+    },
+
+    collectReferences(value: string) {
+        const localPath = extractAutoCardLinkLocalPath(value.trim());
+        return localPath ? [localPath] : [];
+    }
+};
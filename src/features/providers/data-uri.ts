@@ -0,0 +1,25 @@
+import { hasFeaturedAttribute } from '../../utils/links';
+import { collectRegexMatches } from './registry';
+import type { ImageSourceContext, LineImageSourceProvider } from './types';
+
+const dataUriImageRegex = /!\[[^\]]*\]\(\s*<?(?<dataUri>data:image\/[\w.+-]+(?:;[^,;)\s]*)*,[^)\s>]+)>?\s*\)(?<attributes>\{[^{}\n]*\})?/gi;
+
+/**
+ * Markdown images embedded as `data:` URIs, e.g. `![](data:image/png;base64,iVBORw0...)`, as pasted by some clients.
+ * The image is extracted to the `inline` subfolder. `![](data:...){.featured}` marks the image as the featured image.
+ */
+export const dataUriImageProvider: LineImageSourceProvider = {
+    id: 'data-uri',
+    kind: 'line',
+
+    match(line: string) {
+        if (!line.includes('data:')) {
+            return [];
+        }
+        return collectRegexMatches(dataUriImageRegex, line, 'dataUri', match => hasFeaturedAttribute(match.groups?.attributes));
+    },
+
+    async resolve(value: string, context: ImageSourceContext) {
+        return await context.saveInlineImage(value);
+    }
+};
@@ -0,0 +1,62 @@
+import { hasFeaturedAlias, hasFeaturedAttribute, hasFeaturedTitle, safeDecodeLinkComponent } from '../../utils/links';
+import { resolveLocalImagePath } from '../../utils/obsidian';
+import { collectRegexMatches } from './registry';
+import type { ImageSourceContext, LineImageSourceProvider } from './types';
+
+const ATTRIBUTES_PATTERN = '(?<attributes>\\{[^{}\\n]*\\})?';
+
+const wikiDrawingRegex = new RegExp(
+    `!\\[\\[(?<wikiDrawing>[^\\]|#]+\\.excalidraw(?:\\.md)?)(?<wikiMeta>[#|][^\\]]*)?\\]\\]${ATTRIBUTES_PATTERN}`,
+    'gi'
+);
+
+const markdownDrawingRegex = new RegExp(
+    `!\\[[^\\]]*\\]\\(\\s*<?(?<mdDrawing>(?![a-z][a-z\\d+.-]*:)[^)(\\s<>#]+\\.excalidraw(?:\\.md)?)(?:#[^)(\\s<>]*)?>?(?<title>\\s+(?:"[^"]*"|'[^']*'))?\\s*\\)${ATTRIBUTES_PATTERN}`,
+    'gi'
+);
+
+/**
+ * Excalidraw drawing embeds, e.g. `![[Drawing.excalidraw]]` or `![[Drawing.excalidraw.md]]`.
+ * The drawing's exported PNG or SVG is used, or a preview rendered by the Excalidraw plugin.
+ * `![[Drawing.excalidraw|featured]]` and `![[Drawing.excalidraw]]{.featured}` mark the embed as the featured image.
+ */
+export const excalidrawProvider: LineImageSourceProvider = {
+    id: 'excalidraw',
+    kind: 'line',
+
+    match(line: string) {
+        if (!/\.excalidraw/i.test(line)) {
+            return [];
+        }
+        return [
+            ...collectRegexMatches(
+                wikiDrawingRegex,
+                line,
+                'wikiDrawing',
+                match => hasFeaturedAlias(match.groups?.wikiMeta ?? '') || hasFeaturedAttribute(match.groups?.attributes)
+            ),
+            ...collectRegexMatches(
+                markdownDrawingRegex,
+                line,
+                'mdDrawing',
+                match =>
+                    hasFeaturedTitle(`${match.groups?.mdDrawing}${match.groups?.title ?? ''}`) ||
+                    hasFeaturedAttribute(match.groups?.attributes)
+            )
+        ].sort((a, b) => a.index - b.index);
+    },
+
+    async resolve(value: string, context: ImageSourceContext) {
+        const drawingPath = safeDecodeLinkComponent(value);
+        const resolvedDrawing = resolveLocalImagePath(context.app, drawingPath, context.file);
+        if (!resolvedDrawing) {
+            context.errorLog(`Excalidraw drawing not found for featured image: ${drawingPath} (referenced in ${context.file.path})`);
+            return undefined;
+        }
+        return await context.getExcalidrawImage(resolvedDrawing);
+    },
+
+    collectReferences(value: string) {
+        return [safeDecodeLinkComponent(value)];
+    }
+};
@@ -0,0 +1,101 @@
+import { SUPPORTED_IMAGE_EXTENSIONS } from '../../settings';
+import { getLargestSrcsetCandidate, parseHtmlAttributes } from '../../utils/html';
+import { FEATURED_MARKER, isHttpUrl, safeDecodeLinkComponent } from '../../utils/links';
+import { resolveLocalImagePath } from '../../utils/obsidian';
+import { isValidHttpsUrl } from '../../utils/urls';
+import type { ImageSourceContext, ImageSourceMatch, LineImageSourceProvider } from './types';
+
+const URL_SCHEME_REGEX = /^[a-z][a-z\d+.-]*:/i;
+
+const htmlImageTagRegex = /<(img|source|video)\b([^>]*)>/gi;
+
+const imageExtensionRegex = new RegExp(`\\.(?:${SUPPORTED_IMAGE_EXTENSIONS.join('|')})$`, 'i');
+
+/**
+ * Reads the image URL of an HTML element. `srcset` candidates are preferred over `src`, picking the largest one.
+ * Only `<source>` elements inside `<picture>` carry a `srcset`; audio and video sources use `src` and are ignored.
+ * @param {string} tag - Lowercase tag name.
+ * @param {Record<string, string>} attributes - Parsed attributes of the element.
+ * @returns {string | undefined} Image URL or path, if the element references one.
+ */
+const getElementImage = (tag: string, attributes: Record<string, string>): string | undefined => {
+    switch (tag) {
+        case 'img':
+            return getLargestSrcsetCandidate(attributes.srcset ?? '') ?? (attributes.src?.trim() || undefined);
+        case 'source':
+            return getLargestSrcsetCandidate(attributes.srcset ?? '');
+        case 'video':
+            return attributes.poster?.trim() || undefined;
+        default:
+            return undefined;
+    }
+};
+
+/**
+ * Normalizes an HTML image reference: protocol-relative URLs become HTTPS and local paths are percent-decoded.
+ * @param {string} value - Captured `src`, `srcset` candidate or `poster` value.
+ * @returns {string} Normalized URL or path.
+ */
+const normalizeHtmlTarget = (value: string): string => {
+    if (value.startsWith('//')) {
+        return `https:${value}`;
+    }
+    return URL_SCHEME_REGEX.test(value) ? value : safeDecodeLinkComponent(value.split(/[?#]/)[0]);
+};
+
+/**
+ * HTML image elements as found in notes imported from web clippers and other apps:
+ * `<img src>` and `<img srcset>`, `<picture><source srcset>` and `<video poster>`.
+ * `<img class="featured">` marks the image as the featured image.
+ */
+export const htmlImageProvider: LineImageSourceProvider = {
+    id: 'html-image',
+    kind: 'line',
+
+    match(line: string) {
+        const matches: ImageSourceMatch[] = [];
+        htmlImageTagRegex.lastIndex = 0;
+
+        let match: RegExpExecArray | null;
+        while ((match = htmlImageTagRegex.exec(line)) !== null) {
+            const attributes = parseHtmlAttributes(match[2]);
+            const value = getElementImage(match[1].toLowerCase(), attributes);
+            if (value) {
+                const classes = (attributes.class ?? '').toLowerCase().split(/\s+/);
+                matches.push({ value, index: match.index, length: match[0].length, featured: classes.includes(FEATURED_MARKER) });
+            }
+        }
+
+        return matches;
+    },
+
+    async resolve(value: string, context: ImageSourceContext) {
+        const target = normalizeHtmlTarget(value);
+        if (isHttpUrl(target)) {
+            context.logHttpImageWarning(target);
+            return undefined;
+        }
+        if (isValidHttpsUrl(target)) {
+            return await context.downloadExternalImage(target);
+        }
+        if (/^data:/i.test(target)) {
+            return await context.saveInlineImage(target);
+        }
+        // Other schemes, e.g. `app://` links, are not supported
+        if (URL_SCHEME_REGEX.test(target) || !imageExtensionRegex.test(target)) {
+            context.debugLog('Skipping unsupported HTML image source:', value.slice(0, 100));
+            return undefined;
+        }
+        const resolvedImage = resolveLocalImagePath(context.app, target, context.file);
+        if (resolvedImage) {
+            return resolvedImage;
+        }
+        context.errorLog(`Local image not found for featured image: ${target} (referenced in ${context.file.path})`);
+        return undefined;
+    },
+
+    collectReferences(value: string) {
+        const target = normalizeHtmlTarget(value);
+        return URL_SCHEME_REGEX.test(target) ? [] : [target];
+    }
+};
@@ -0,0 +1,40 @@
+import { audioCoverProvider } from './audio-cover';
+import { autoCardLinkProvider } from './auto-card-link';
+import { dataUriImageProvider } from './data-uri';
+import { excalidrawProvider } from './excalidraw';
+import { htmlImageProvider } from './html-image';
+import { localVideoProvider } from './local-video';
+import { markdownImageProvider } from './markdown-image';
+import { openGraphProvider } from './open-graph';
+import { pdfProvider } from './pdf';
+import { ImageSourceRegistry } from './registry';
+import { createVideoHostProvider, VIDEO_HOSTS } from './video-hosts';
+import { wikiImageProvider } from './wiki-image';
+import { youtubeProvider } from './youtube';
+
+export type { ImageSourceProvider } from './types';
+
+/**
+ * Creates a registry pre-populated with the built-in providers, whose ids are reserved.
+ * Order matters: video links, data URIs and local PDF, video, audio and drawing embeds must win over the generic markdown image provider, and bare links are matched last.
+ * @returns {ImageSourceRegistry} Registry with built-in providers.
+ */
+export const createDefaultImageSourceRegistry = (): ImageSourceRegistry => {
+    const registry = new ImageSourceRegistry();
+    registry.register(youtubeProvider);
+    for (const host of VIDEO_HOSTS) {
+        registry.register(createVideoHostProvider(host));
+    }
+    registry.register(wikiImageProvider);
+    registry.register(dataUriImageProvider);
+    registry.register(pdfProvider);
+    registry.register(localVideoProvider);
+    registry.register(audioCoverProvider);
+    registry.register(excalidrawProvider);
+    registry.register(markdownImageProvider);
+    registry.register(htmlImageProvider);
+    registry.register(autoCardLinkProvider);
+    registry.register(openGraphProvider);
+    registry.reserveRegisteredIds();
+    return registry;
+};
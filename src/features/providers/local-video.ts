@@ -0,0 +1,60 @@
+import { SUPPORTED_VIDEO_EXTENSIONS } from '../../settings';
+import { hasFeaturedAlias, hasFeaturedAttribute, hasFeaturedTitle, safeDecodeLinkComponent } from '../../utils/links';
+import { resolveLocalImagePath } from '../../utils/obsidian';
+import { collectRegexMatches } from './registry';
+import type { ImageSourceContext, LineImageSourceProvider } from './types';
+
+const videoExtensionsPattern = SUPPORTED_VIDEO_EXTENSIONS.join('|');
+const ATTRIBUTES_PATTERN = '(?<attributes>\\{[^{}\\n]*\\})?';
+
+const wikiVideoRegex = new RegExp(
+    `!\\[\\[(?<wikiVideo>[^\\]|#]+\\.(?:${videoExtensionsPattern}))(?<wikiMeta>[#|][^\\]]*)?\\]\\]${ATTRIBUTES_PATTERN}`,
+    'gi'
+);
+
+const markdownVideoRegex = new RegExp(
+    `!\\[[^\\]]*\\]\\(\\s*<?(?<mdVideo>(?![a-z][a-z\\d+.-]*:)[^)(\\s<>#]+\\.(?:${videoExtensionsPattern}))(?:#[^)(\\s<>]*)?>?(?<title>\\s+(?:"[^"]*"|'[^']*'))?\\s*\\)${ATTRIBUTES_PATTERN}`,
+    'gi'
+);
+
+/**
+ * Local video embeds, e.g. `![[clip.mp4]]` or `![](clip.webm)`. A frame at the configured offset is captured
+ * to the `video` subfolder. `![[clip.mp4|featured]]` and `![[clip.mp4]]{.featured}` mark the embed as the featured image.
+ */
+export const localVideoProvider: LineImageSourceProvider = {
+    id: 'local-video',
+    kind: 'line',
+
+    match(line: string) {
+        return [
+            ...collectRegexMatches(
+                wikiVideoRegex,
+                line,
+                'wikiVideo',
+                match => hasFeaturedAlias(match.groups?.wikiMeta ?? '') || hasFeaturedAttribute(match.groups?.attributes)
+            ),
+            ...collectRegexMatches(
+                markdownVideoRegex,
+                line,
+                'mdVideo',
+                match =>
+                    hasFeaturedTitle(`${match.groups?.mdVideo}${match.groups?.title ?? ''}`) ||
+                    hasFeaturedAttribute(match.groups?.attributes)
+            )
+        ].sort((a, b) => a.index - b.index);
+    },
+
+    async resolve(value: string, context: ImageSourceContext) {
+        const videoPath = safeDecodeLinkComponent(value);
+        const resolvedVideo = resolveLocalImagePath(context.app, videoPath, context.file);
+        if (!resolvedVideo) {
+            context.errorLog(`Local video not found for featured image: ${videoPath} (referenced in ${context.file.path})`);
+            return undefined;
+        }
+        return await context.captureVideoFrame(resolvedVideo);
+    },
+
+    collectReferences(value: string) {
+        return [safeDecodeLinkComponent(value)];
+    }
+};
@@ -0,0 +1,81 @@
+import { SUPPORTED_IMAGE_EXTENSIONS } from '../../settings';
+import { hasFeaturedAttribute, hasFeaturedTitle, isHttpUrl, safeDecodeLinkComponent, stripMarkdownImageTitle } from '../../utils/links';
+import { resolveLocalImagePath } from '../../utils/obsidian';
+import { isValidHttpsUrl } from '../../utils/urls';
+import { collectRegexMatches } from './registry';
+import type { ImageSourceContext, LineImageSourceProvider } from './types';
+
+const imageExtensionsPattern = SUPPORTED_IMAGE_EXTENSIONS.join('|');
+const MARKDOWN_IMAGE_PATTERN = `!\\[.*?\\]\\((?<mdImage>(?:https?:\\/\\/(?:[^)(]|\\([^)(]*\\))+|[^)(]+\\.(${imageExtensionsPattern})(?:\\s+(?:"[^"]*"|'[^']*'))?))\\)`;
+const ATTRIBUTES_PATTERN = `(?<attributes>\\{[^{}\\n]*\\})?`;
+
+const markdownImageRegex = new RegExp(MARKDOWN_IMAGE_PATTERN + ATTRIBUTES_PATTERN, 'gi');
+
+/**
+ * Creates a regular expression matching markdown images with the target in the `mdImage` group.
+ * @param {string} flags - Regular expression flags.
+ * @returns {RegExp} Compiled regular expression.
+ */
+export const createMarkdownImageRegex = (flags: string = 'i'): RegExp => {
+    return new RegExp(MARKDOWN_IMAGE_PATTERN, flags);
+};
+
+/**
+ * Normalizes a captured markdown image target by decoding it and removing the optional title.
+ * @param {string} value - Raw captured target.
+ * @returns {string} Cleaned target.
+ */
+const normalizeMarkdownTarget = (value: string): string => {
+    const decodedMdImage = safeDecodeLinkComponent(value);
+    return stripMarkdownImageTitle(decodedMdImage).trim();
+};
+
+/**
+ * Markdown image links, e.g. `![image.jpg](https://example.com/image.jpg)` or `![](attachments/image.png)`.
+ * `![](image.png "featured")` and `![](image.png){.featured}` mark the image as the featured image.
+ */
+export const markdownImageProvider: LineImageSourceProvider = {
+    id: 'markdown-image',
+    kind: 'line',
+
+    match(line: string) {
+        return collectRegexMatches(
+            markdownImageRegex,
+            line,
+            'mdImage',
+            match =>
+                hasFeaturedTitle(safeDecodeLinkComponent(match.groups?.mdImage ?? '')) || hasFeaturedAttribute(match.groups?.attributes)
+        );
+    },
+
+    async resolve(value: string, context: ImageSourceContext) {
+        const target = normalizeMarkdownTarget(value);
+        if (isHttpUrl(target)) {
+            context.logHttpImageWarning(target);
+            return undefined;
+        }
+        if (isValidHttpsUrl(target)) {
+            return await context.downloadExternalImage(target);
+        }
+        const resolvedMdImage = resolveLocalImagePath(context.app, target, context.file);
+        if (resolvedMdImage) {
+            return resolvedMdImage;
+        }
+        context.errorLog(`Local image not found for featured image: ${target} (referenced in ${context.file.path})`);
+        return undefined;
+    },
+
+    collectReferences(value: string, context: ImageSourceContext) {
+        const target = normalizeMarkdownTarget(value);
+        if (isHttpUrl(target)) {
+            context.logHttpImageWarning(target);
+            return [];
+        }
+        return isValidHttpsUrl(target) ? [] : [target];
+    },
+
+    coveredByMetadata(value: string) {
+        const target = normalizeMarkdownTarget(value);
+        return !isHttpUrl(target) && !isValidHttpsUrl(target);
+    }
+};
@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_SETTINGS } from '../../settings';
+import { openGraphProvider } from './open-graph';
+
+const match = (line: string): string[] =>
+    openGraphProvider.match(line, { ...DEFAULT_SETTINGS, extractOpenGraphImages: true }).map(candidate => candidate.value);
+
+describe('openGraphProvider', () => {
+    it('matches bare URLs and autolinks', () => {
+        assert.deepEqual(match('Read https://example.com/article today'), ['https://example.com/article']);
+        assert.deepEqual(match('Read <https://example.com/article>'), ['https://example.com/article']);
+    });
+
+    it('drops punctuation that ends the sentence', () => {
+        assert.deepEqual(match('See https://example.com/article.'), ['https://example.com/article']);
+        assert.deepEqual(match('Is it https://example.com/a?b=1?!'), ['https://example.com/a?b=1']);
+    });
+
+    it('keeps balanced parentheses within the URL', () => {
+        assert.deepEqual(match('See https://en.wikipedia.org/wiki/Mercury_(planet) for more'), [
+            'https://en.wikipedia.org/wiki/Mercury_(planet)'
+        ]);
+        assert.deepEqual(match('See https://example.com/a_(b)_(c).'), ['https://example.com/a_(b)_(c)']);
+    });
+
+    it('drops closing parentheses without an opening one in the URL', () => {
+        assert.deepEqual(match('(also https://en.wikipedia.org/wiki/Mercury_(planet))'), [
+            'https://en.wikipedia.org/wiki/Mercury_(planet)'
+        ]);
+        assert.deepEqual(match('(see https://example.com/article).'), ['https://example.com/article']);
+    });
+
+    it('skips markdown links, HTML attributes and image URLs', () => {
+        assert.deepEqual(match('[Mercury](https://en.wikipedia.org/wiki/Mercury_(planet))'), []);
+        assert.deepEqual(match('<a href="https://example.com/article">link</a>'), []);
+        assert.deepEqual(match('https://example.com/photo.png'), []);
+    });
+
+    it('matches nothing when disabled', () => {
+        assert.deepEqual(
+            openGraphProvider.match('https://example.com/article', { ...DEFAULT_SETTINGS, extractOpenGraphImages: false }),
+            []
+        );
+    });
+});
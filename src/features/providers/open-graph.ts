@@ -0,0 +1,76 @@
+import type { FeaturedImageSettings } from '../../settings';
+import { SUPPORTED_IMAGE_EXTENSIONS } from '../../settings';
+import { isValidHttpsUrl } from '../../utils/urls';
+import { collectRegexMatches } from './registry';
+import type { ImageSourceContext, LineImageSourceProvider } from './types';
+
+// Bare URLs and `<https://...>` autolinks; URLs inside markdown links, HTML attributes or other URLs are skipped
+const bareUrlRegex = /(?:<(?<autolink>https?:\/\/[^\s<>]+)>|(?<![\w(<[\]/"'=:@.-])(?<bare>https?:\/\/[^\s<>[\]"'`]+))/gi;
+
+const imageExtensionRegex = new RegExp(`\\.(?:${SUPPORTED_IMAGE_EXTENSIONS.join('|')})$`, 'i');
+
+const trailingPunctuationRegex = /[.,;:!?*_~]+$/;
+
+const countOf = (text: string, char: string): number => text.split(char).length - 1;
+
+/**
+ * Removes trailing punctuation that ends the surrounding sentence rather than the URL.
+ * A closing parenthesis is kept when it closes one opened within the URL, as in `https://en.wikipedia.org/wiki/Mercury_(planet)`.
+ * @param {string} url - URL as matched in text.
+ * @returns {string} URL without trailing punctuation.
+ */
+const trimTrailingPunctuation = (url: string): string => {
+    let trimmed = url.replace(trailingPunctuationRegex, '');
+    while (trimmed.endsWith(')') && countOf(trimmed, ')') > countOf(trimmed, '(')) {
+        trimmed = trimmed.slice(0, -1).replace(trailingPunctuationRegex, '');
+    }
+    return trimmed;
+};
+
+/**
+ * Bare web links such as `https://example.com/article`, resolved to the page's Open Graph image.
+ * Only used when the note contains no other image.
+ */
+export const openGraphProvider: LineImageSourceProvider = {
+    id: 'open-graph',
+    kind: 'line',
+    fallback: true,
+
+    match(line: string, settings: FeaturedImageSettings) {
+        if (!settings.extractOpenGraphImages) {
+            return [];
+        }
+        return [...collectRegexMatches(bareUrlRegex, line, 'autolink'), ...collectRegexMatches(bareUrlRegex, line, 'bare')]
+            .map(match => ({ ...match, value: trimTrailingPunctuation(match.value) }))
+            .filter(match => {
+                try {
+                    return !imageExtensionRegex.test(new URL(match.value).pathname);
+                } catch {
+                    return false;
+                }
+            });
+    },
+
+    async resolve(value: string, context: ImageSourceContext) {
+        if (!context.settings.downloadExternalImages) {
+            return undefined;
+        }
+
+        // Only HTTPS pages are fetched; plain HTTP links are common in notes and not worth a warning
+        if (!isValidHttpsUrl(value)) {
+            return undefined;
+        }
+
+        const imageUrl = await context.getPageImageUrl(value);
+        if (!imageUrl) {
+            return undefined;
+        }
+
+        if (!isValidHttpsUrl(imageUrl)) {
+            context.debugLog('Skipping Open Graph image that is not served over HTTPS:', imageUrl);
+            return undefined;
+        }
+
+        return await context.downloadExternalImage(imageUrl, 'opengraph');
+    }
+};
@@ -0,0 +1,63 @@
+import { hasFeaturedAlias, hasFeaturedAttribute, hasFeaturedTitle, safeDecodeLinkComponent } from '../../utils/links';
+import { resolveLocalImagePath } from '../../utils/obsidian';
+import { collectRegexMatches } from './registry';
+import type { ImageSourceContext, LineImageSourceProvider } from './types';
+
+const ATTRIBUTES_PATTERN = '(?<attributes>\\{[^{}\\n]*\\})?';
+
+const wikiPdfRegex = new RegExp(
+    `!\\[\\[(?<wikiPdf>[^\\]|#]+\\.pdf(?:#[^\\]|]*)?)(?<wikiMeta>\\|[^\\]]*)?\\]\\]${ATTRIBUTES_PATTERN}`,
+    'gi'
+);
+
+const markdownPdfRegex = new RegExp(
+    `!\\[[^\\]]*\\]\\(\\s*<?(?<mdPdf>(?![a-z][a-z\\d+.-]*:)[^)(\\s<>]+\\.pdf(?:#[^)(\\s<>]*)?)>?(?<title>\\s+(?:"[^"]*"|'[^']*'))?\\s*\\)${ATTRIBUTES_PATTERN}`,
+    'gi'
+);
+
+/**
+ * Local PDF embeds, e.g. `![[paper.pdf]]` or `![](paper.pdf)`. The first page, or the page given by `#page=N`,
+ * is rendered to the `pdf` subfolder. `![[paper.pdf|featured]]` and `![[paper.pdf]]{.featured}` mark the embed
+ * as the featured image.
+ */
+export const pdfProvider: LineImageSourceProvider = {
+    id: 'pdf',
+    kind: 'line',
+
+    match(line: string) {
+        if (!/\.pdf/i.test(line)) {
+            return [];
+        }
+        return [
+            ...collectRegexMatches(
+                wikiPdfRegex,
+                line,
+                'wikiPdf',
+                match => hasFeaturedAlias(match.groups?.wikiMeta ?? '') || hasFeaturedAttribute(match.groups?.attributes)
+            ),
+            ...collectRegexMatches(
+                markdownPdfRegex,
+                line,
+                'mdPdf',
+                match =>
+                    hasFeaturedTitle(`${match.groups?.mdPdf}${match.groups?.title ?? ''}`) || hasFeaturedAttribute(match.groups?.attributes)
+            )
+        ].sort((a, b) => a.index - b.index);
+    },
+
+    async resolve(value: string, context: ImageSourceContext) {
+        const [path, subpath = ''] = safeDecodeLinkComponent(value).split('#');
+        const resolvedPdf = resolveLocalImagePath(context.app, path, context.file);
+        if (!resolvedPdf) {
+            context.errorLog(`Local PDF not found for featured image: ${path} (referenced in ${context.file.path})`);
+            return undefined;
+        }
+
+        const page = parseInt(/(?:^|&)page=(\d+)/i.exec(subpath)?.[1] ?? '1', 10);
+        return await context.renderPdfPage(resolvedPdf, page || 1);
+    },
+
+    collectReferences(value: string) {
+        return [safeDecodeLinkComponent(value).split('#')[0]];
+    }
+};
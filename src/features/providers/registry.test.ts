@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createDefaultImageSourceRegistry } from '.';
+import type { LineImageSourceProvider } from './types';
+
+const createProvider = (id: string): LineImageSourceProvider => ({
+    id,
+    kind: 'line',
+    match: () => [],
+    resolve: () => Promise.resolve(undefined)
+});
+
+describe('ImageSourceRegistry', () => {
+    it('adds providers after the built-in ones, so built-ins win ties', () => {
+        const registry = createDefaultImageSourceRegistry();
+        const provider = createProvider('my-plugin:gallery');
+
+        registry.register(provider);
+
+        assert.equal(registry.getProviders()[0].id, 'youtube');
+        assert.equal(registry.getProviders().at(-1), provider);
+    });
+
+    it('rejects providers with the id of a built-in provider', () => {
+        const registry = createDefaultImageSourceRegistry();
+        const builtIn = registry.getProviders().find(provider => provider.id === 'youtube');
+
+        assert.throws(() => registry.register(createProvider('youtube')), /"youtube" is reserved/);
+        assert.equal(
+            registry.getProviders().find(provider => provider.id === 'youtube'),
+            builtIn
+        );
+    });
+
+    it('never removes built-in providers', () => {
+        const registry = createDefaultImageSourceRegistry();
+
+        assert.equal(registry.unregister('youtube'), false);
+        assert.ok(registry.getProviders().some(provider => provider.id === 'youtube'));
+    });
+
+    it('replaces providers of other plugins in place and unregisters only the current one', () => {
+        const registry = createDefaultImageSourceRegistry();
+        const first = createProvider('my-plugin:gallery');
+        const second = createProvider('my-plugin:gallery');
+        const unregisterFirst = registry.register(first);
+        const unregisterSecond = registry.register(second);
+
+        unregisterFirst();
+        assert.ok(registry.getProviders().includes(second));
+
+        unregisterSecond();
+        assert.ok(!registry.getProviders().some(provider => provider.id === 'my-plugin:gallery'));
+    });
+});
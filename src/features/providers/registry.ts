@@ -0,0 +1,118 @@
+import type { BlockImageSourceProvider, ImageSourceMatch, ImageSourceProvider, LineImageSourceProvider } from './types';
+
+/**
+ * Ordered collection of image source providers.
+ * Providers registered earlier win when two matches start at the same position.
+ */
+export class ImageSourceRegistry {
+    private providers: ImageSourceProvider[] = [];
+    private reservedIds = new Set<string>();
+
+    /**
+     * Registers a provider. A provider with the same id replaces the existing one in place.
+     * @param {ImageSourceProvider} provider - Provider to register.
+     * @returns {() => void} Function that unregisters the provider.
+     * @throws {Error} When the id belongs to a reserved provider.
+     */
+    register(provider: ImageSourceProvider): () => void {
+        if (this.reservedIds.has(provider.id)) {
+            throw new Error(`Image source provider id "${provider.id}" is reserved by a built-in provider`);
+        }
+
+        const existingIndex = this.providers.findIndex(existing => existing.id === provider.id);
+        if (existingIndex !== -1) {
+            this.providers[existingIndex] = provider;
+        } else {
+            this.providers.push(provider);
+        }
+
+        return () => {
+            if (this.providers.includes(provider)) {
+                this.unregister(provider.id);
+            }
+        };
+    }
+
+    /**
+     * Reserves the ids of all providers registered so far, so they can no longer be replaced or removed.
+     */
+    reserveRegisteredIds(): void {
+        for (const provider of this.providers) {
+            this.reservedIds.add(provider.id);
+        }
+    }
+
+    /**
+     * Removes a provider by id. Reserved providers are never removed.
+     * @param {string} id - Provider identifier.
+     * @returns {boolean} True when a provider was removed.
+     */
+    unregister(id: string): boolean {
+        if (this.reservedIds.has(id)) {
+            return false;
+        }
+        const index = this.providers.findIndex(provider => provider.id === id);
+        if (index === -1) {
+            return false;
+        }
+        this.providers.splice(index, 1);
+        return true;
+    }
+
+    /**
+     * Returns all registered providers in priority order.
+     */
+    getProviders(): readonly ImageSourceProvider[] {
+        return this.providers;
+    }
+
+    getLineProviders(): LineImageSourceProvider[] {
+        return this.providers.filter((provider): provider is LineImageSourceProvider => provider.kind === 'line');
+    }
+
+    /**
+     * Finds the block provider responsible for a fenced code block language.
+     * @param {string} language - Lowercase code block language.
+     * @returns {BlockImageSourceProvider | undefined} Matching provider, if any.
+     */
+    getBlockProvider(language: string): BlockImageSourceProvider | undefined {
+        if (!language) {
+            return undefined;
+        }
+
+        return this.providers.find(
+            (provider): provider is BlockImageSourceProvider => provider.kind === 'block' && provider.languages.includes(language)
+        );
+    }
+}
+
+/**
+ * Collects all matches of a global regular expression as provider matches.
+ * @param {RegExp} regex - Regular expression with the global flag set.
+ * @param {string} line - Line to scan.
+ * @param {string} group - Named capture group holding the target value.
+ * @param {(match: RegExpExecArray) => boolean} isFeatured - Optional check for the featured marker.
+ * @returns {ImageSourceMatch[]} Matches in document order.
+ */
+export const collectRegexMatches = (
+    regex: RegExp,
+    line: string,
+    group: string,
+    isFeatured?: (match: RegExpExecArray) => boolean
+): ImageSourceMatch[] => {
+    const matches: ImageSourceMatch[] = [];
+    regex.lastIndex = 0;
+
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(line)) !== null) {
+        const value = match.groups?.[group];
+        if (value) {
+            matches.push({ value, index: match.index, length: match[0].length, featured: isFeatured?.(match) ?? false });
+        }
+        if (match[0].length === 0) {
+            regex.lastIndex++;
+        }
+    }
+
+    return matches;
+};
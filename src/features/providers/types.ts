@@ -0,0 +1,83 @@
+import type { App, TFile } from 'obsidian';
+import type { FeaturedImageSettings } from '../../settings';
+
+/**
+ * A single reference found by a line provider.
+ */
+export interface ImageSourceMatch {
+    value: string; // Captured target (path, URL or provider-specific payload)
+    index: number; // Offset of the match within the scanned line
+    length: number; // Length of the full matched text
+    featured?: boolean; // Whether the reference carries the featured marker and should take precedence
+}
+
+/**
+ * Services and state available to providers while resolving a match.
+ */
+export interface ImageSourceContext {
+    app: App;
+    settings: FeaturedImageSettings;
+    file: TFile; // The note being scanned
+    currentFeature: string | undefined; // Feature currently stored in frontmatter
+    downloadExternalImage: (imageUrl: string, subfolder?: string) => Promise<string | undefined>;
+    downloadYoutubeThumbnail: (videoId: string, currentFeature: string | undefined, isShort?: boolean) => Promise<string | undefined>;
+    // Downloads a video thumbnail to `<subfolder>/<videoId>`; the thumbnail URL is only requested when no copy exists
+    downloadVideoThumbnail: (
+        subfolder: string,
+        videoId: string,
+        getThumbnailUrl: () => Promise<string | undefined>
+    ) => Promise<string | undefined>;
+    saveInlineImage: (dataUri: string) => Promise<string | undefined>; // Saves an image `data:` URI to the `inline` subfolder
+    renderPdfPage: (pdfPath: string, page: number) => Promise<string | undefined>; // Renders a PDF page to the `pdf` subfolder
+    captureVideoFrame: (videoPath: string) => Promise<string | undefined>; // Captures a video frame to the `video` subfolder
+    extractAudioCover: (audioPath: string) => Promise<string | undefined>; // Saves audio cover art to the `audio` subfolder
+    getExcalidrawImage: (drawingPath: string) => Promise<string | undefined>; // Exported or rendered image of a drawing
+    getPageImageUrl: (pageUrl: string) => Promise<string | undefined>; // Lead image URL of a web page, e.g. its `og:image`
+    logHttpImageWarning: (url: string, source?: string) => void;
+    debugLog: (...args: unknown[]) => void;
+    errorLog: (...args: unknown[]) => void;
+}
+
+interface BaseImageSourceProvider {
+    /** Unique identifier, e.g. `youtube` or `my-plugin:gallery`. */
+    id: string;
+    /**
+     * Whether matches are weak signals that are only used when no other provider yields an image,
+     * such as bare web links resolved through the linked page.
+     */
+    fallback?: boolean;
+    /**
+     * Resolves a matched value to a vault-relative image path.
+     * Returning undefined lets the scanner continue with the next match.
+     */
+    resolve(value: string, context: ImageSourceContext): Promise<string | undefined>;
+    /**
+     * Returns local paths referenced by a matched value, used when looking for unused images.
+     * Paths may be unresolved link targets; the scanner normalizes them.
+     */
+    collectReferences?(value: string, context: ImageSourceContext): string[];
+    /**
+     * Whether Obsidian's metadata cache already indexes the matched value as an embed or link.
+     * Covered matches are skipped in metadata detection mode; providers without this hook are never covered.
+     */
+    coveredByMetadata?(value: string): boolean;
+}
+
+/**
+ * Provider that finds references within a single line of markdown.
+ */
+export interface LineImageSourceProvider extends BaseImageSourceProvider {
+    kind: 'line';
+    match(line: string, settings: FeaturedImageSettings): ImageSourceMatch[];
+}
+
+/**
+ * Provider that consumes fenced code blocks of specific languages, e.g. `cardlink`.
+ */
+export interface BlockImageSourceProvider extends BaseImageSourceProvider {
+    kind: 'block';
+    languages: string[]; // Lowercase code block languages handled by the provider
+    extract(blockContent: string, settings: FeaturedImageSettings): string | undefined;
+}
+
+export type ImageSourceProvider = LineImageSourceProvider | BlockImageSourceProvider;
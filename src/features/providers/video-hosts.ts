@@ -0,0 +1,168 @@
+import type { FeaturedImageSettings } from '../../settings';
+import { fetchOEmbed } from '../../utils/oembed';
+import { collectRegexMatches } from './registry';
+import type { ImageSourceContext, LineImageSourceProvider } from './types';
+
+/**
+ * A video hosting service whose links resolve to the video's thumbnail.
+ */
+export interface VideoHost {
+    id: string; // Provider id and name of the thumbnails subfolder
+    hostnames: string[]; // Domains whose links are matched; subdomains are included
+    isEnabled(settings: FeaturedImageSettings): boolean;
+    /**
+     * Extracts the video identifier from a link to the host.
+     * Returns undefined for links that do not point to a single video, e.g. channel pages.
+     */
+    getVideoId(url: URL): string | undefined;
+    /**
+     * Downloads or locates the thumbnail of a video and returns its vault path.
+     */
+    resolveThumbnail(videoId: string, url: string, context: ImageSourceContext): Promise<string | undefined>;
+}
+
+/**
+ * Creates a provider for markdown links to a video host, e.g. `![Talk](https://vimeo.com/76979871)`,
+ * and for `<iframe>` embeds of its player. Like YouTube links, markdown links must be prefixed with `!`
+ * when the exclamation mark setting is enabled.
+ * @param {VideoHost} host - The video host.
+ * @returns {LineImageSourceProvider} Provider resolving links to video thumbnails.
+ */
+export const createVideoHostProvider = (host: VideoHost): LineImageSourceProvider => {
+    const domains = host.hostnames.map(hostname => hostname.replace(/\./g, '\\.')).join('|');
+    const url = `https?:\\/\\/(?:[\\w-]+\\.)*(?:${domains})\\/`;
+    const pattern = `\\[.*?\\]\\((?<video>${url}\\S+)\\)`;
+    const embedRegex = new RegExp(`!${pattern}`, 'gi');
+    const linkRegex = new RegExp(`!?${pattern}`, 'gi');
+    const iframeRegex = new RegExp(`<iframe\\b[^>]*?\\ssrc\\s*=\\s*["'](?<iframe>${url}[^"']+)["'][^>]*>`, 'gi');
+
+    return {
+        id: host.id,
+        kind: 'line',
+
+        // Links are matched even when the host is disabled, so video pages are never downloaded as images
+        match(line: string, settings: FeaturedImageSettings) {
+            const linkMatches = collectRegexMatches(settings.requireExclamationForYouTube ? embedRegex : linkRegex, line, 'video');
+            const iframeMatches = collectRegexMatches(iframeRegex, line, 'iframe').map(match => ({
+                ...match,
+                value: match.value.replace(/&amp;/g, '&')
+            }));
+            return [...linkMatches, ...iframeMatches];
+        },
+
+        async resolve(value: string, context: ImageSourceContext) {
+            if (!host.isEnabled(context.settings)) {
+                return undefined;
+            }
+
+            let videoId: string | undefined;
+            try {
+                videoId = host.getVideoId(new URL(value));
+            } catch {
+                context.errorLog(`Invalid ${host.id} URL:`, value);
+                return undefined;
+            }
+
+            if (!videoId) {
+                context.debugLog(`No ${host.id} video found in link:`, value);
+                return undefined;
+            }
+            return await host.resolveThumbnail(videoId, value, context);
+        }
+    };
+};
+
+/**
+ * Vimeo videos: `vimeo.com/123`, `vimeo.com/channels/name/123`, `player.vimeo.com/video/123`.
+ * Unlisted videos keep their hash in the URL passed to oEmbed.
+ */
+const vimeoHost: VideoHost = {
+    id: 'vimeo',
+    hostnames: ['vimeo.com'],
+    isEnabled: settings => settings.downloadVimeoThumbnails,
+    getVideoId(url) {
+        const segments = url.pathname.split('/').filter(Boolean);
+        // Showcases and albums are collections of videos
+        if (['showcase', 'album'].includes(segments[0])) {
+            return undefined;
+        }
+        return segments.find(segment => /^\d+$/.test(segment));
+    },
+    async resolveThumbnail(videoId, url, context) {
+        return await context.downloadVideoThumbnail('vimeo', videoId, async () => {
+            const data = await fetchOEmbed(`https://vimeo.com/api/oembed.json?width=1280&url=${encodeURIComponent(url)}`);
+            return data.thumbnail_url;
+        });
+    }
+};
+
+/**
+ * Dailymotion videos: `dailymotion.com/video/x7tgad0`, `dailymotion.com/embed/video/x7tgad0`, `dai.ly/x7tgad0`.
+ */
+const dailymotionHost: VideoHost = {
+    id: 'dailymotion',
+    hostnames: ['dailymotion.com', 'dai.ly'],
+    isEnabled: settings => settings.downloadDailymotionThumbnails,
+    getVideoId(url) {
+        const segments = url.pathname.split('/').filter(Boolean);
+        if (url.hostname.endsWith('dai.ly')) {
+            return segments[0];
+        }
+        const videoIndex = segments.indexOf('video');
+        // Page URLs may append a slug to the ID, e.g. `/video/x7tgad0_title`
+        return videoIndex !== -1 ? segments[videoIndex + 1]?.split('_')[0] : undefined;
+    },
+    async resolveThumbnail(videoId, _url, context) {
+        return await context.downloadVideoThumbnail('dailymotion', videoId, () =>
+            Promise.resolve(`https://www.dailymotion.com/thumbnail/video/${videoId}`)
+        );
+    }
+};
+
+/**
+ * Loom recordings: `loom.com/share/<id>`, `loom.com/embed/<id>`.
+ */
+const loomHost: VideoHost = {
+    id: 'loom',
+    hostnames: ['loom.com'],
+    isEnabled: settings => settings.downloadLoomThumbnails,
+    getVideoId(url) {
+        const match = /^\/(?:share|embed)\/([\da-f]{32})/i.exec(url.pathname);
+        return match?.[1];
+    },
+    async resolveThumbnail(videoId, _url, context) {
+        return await context.downloadVideoThumbnail('loom', videoId, async () => {
+            const data = await fetchOEmbed(
+                `https://www.loom.com/v1/oembed?url=${encodeURIComponent(`https://www.loom.com/share/${videoId}`)}`
+            );
+            return data.thumbnail_url;
+        });
+    }
+};
+
+/**
+ * Twitch clips: `clips.twitch.tv/<slug>`, `twitch.tv/<channel>/clip/<slug>`.
+ * Twitch has no public oEmbed endpoint, so the thumbnail is read from the clip page's Open Graph image.
+ */
+const twitchHost: VideoHost = {
+    id: 'twitch',
+    hostnames: ['twitch.tv'],
+    isEnabled: settings => settings.downloadTwitchThumbnails,
+    getVideoId(url) {
+        const segments = url.pathname.split('/').filter(Boolean);
+        if (url.hostname.startsWith('clips.')) {
+            return segments[0] === 'embed' ? (url.searchParams.get('clip') ?? undefined) : segments[0];
+        }
+        const clipIndex = segments.indexOf('clip');
+        return clipIndex !== -1 ? segments[clipIndex + 1] : undefined;
+    },
+    async resolveThumbnail(videoId, _url, context) {
+        return await context.downloadVideoThumbnail('twitch', videoId, () => context.getPageImageUrl(`https://clips.twitch.tv/${videoId}`));
+    }
+};
+
+/**
+ * Built-in video hosts besides YouTube, in registration order. YouTube keeps its own provider because
+ * its thumbnails are downloaded through a quality fallback chain.
+ */
+export const VIDEO_HOSTS: VideoHost[] = [vimeoHost, dailymotionHost, loomHost, twitchHost];
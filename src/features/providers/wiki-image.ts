@@ -0,0 +1,47 @@
+import { SUPPORTED_IMAGE_EXTENSIONS } from '../../settings';
+import { hasFeaturedAlias, hasFeaturedAttribute, safeDecodeLinkComponent } from '../../utils/links';
+import { resolveLocalImagePath } from '../../utils/obsidian';
+import { collectRegexMatches } from './registry';
+import type { ImageSourceContext, LineImageSourceProvider } from './types';
+
+const imageExtensionsPattern = SUPPORTED_IMAGE_EXTENSIONS.join('|');
+const wikiImageRegex = new RegExp(
+    `!\\[\\[(?<wikiImage>[^\\]|#]+\\.(${imageExtensionsPattern}))(?<wikiMeta>[#|][^\\]]*)?\\]\\](?<attributes>\\{[^{}\\n]*\\})?`,
+    'gi'
+);
+
+/**
+ * Local wiki image embeds, e.g. `![[image.jpg]]` or `![[image.jpg|300]]`.
+ * `![[image.jpg|featured]]` and `![[image.jpg]]{.featured}` mark the embed as the featured image.
+ */
+export const wikiImageProvider: LineImageSourceProvider = {
+    id: 'wiki-image',
+    kind: 'line',
+
+    match(line: string) {
+        return collectRegexMatches(
+            wikiImageRegex,
+            line,
+            'wikiImage',
+            match => hasFeaturedAlias(match.groups?.wikiMeta ?? '') || hasFeaturedAttribute(match.groups?.attributes)
+        );
+    },
+
+    async resolve(value: string, context: ImageSourceContext) {
+        const wikiImage = safeDecodeLinkComponent(value);
+        const resolvedWikiImage = resolveLocalImagePath(context.app, wikiImage, context.file);
+        if (resolvedWikiImage) {
+            return resolvedWikiImage;
+        }
+        context.errorLog(`Local image not found for featured image: ${wikiImage} (referenced in ${context.file.path})`);
+        return undefined;
+    },
+
+    collectReferences(value: string) {
+        return [value];
+    },
+
+    coveredByMetadata() {
+        return true;
+    }
+};
@@ -0,0 +1,35 @@
+import { getVideoIdFromThumbnailUrl, parseYouTubeUrl, YOUTUBE_HOSTNAMES } from '../../utils/youtube';
+import type { ImageSourceContext, LineImageSourceProvider } from './types';
+import { createVideoHostProvider } from './video-hosts';
+import type { VideoHost } from './video-hosts';
+
+const youtubeHost: VideoHost = {
+    id: 'youtube',
+    hostnames: YOUTUBE_HOSTNAMES,
+    isEnabled: settings => settings.downloadYoutubeThumbnails,
+    getVideoId(url: URL) {
+        const info = parseYouTubeUrl(url.href);
+        return info?.videoId ?? info?.clipId;
+    },
+    async resolveThumbnail(_id: string, url: string, context: ImageSourceContext) {
+        const info = parseYouTubeUrl(url);
+        let videoId = info?.videoId;
+
+        // Clip links do not contain the video ID, but the clip page's image is the video thumbnail
+        if (!videoId && info?.clipId) {
+            const pageImage = await context.getPageImageUrl(url);
+            videoId = pageImage ? getVideoIdFromThumbnailUrl(pageImage) : undefined;
+            if (!videoId) {
+                context.debugLog('Could not find the video of YouTube clip:', url);
+                return undefined;
+            }
+        }
+
+        return videoId ? await context.downloadYoutubeThumbnail(videoId, context.currentFeature, info?.isShort) : undefined;
+    }
+};
+
+/**
+ * Markdown links and `<iframe>` embeds of YouTube videos, e.g. `![Movie title](https://www.youtube.com/watch?v=dQw4w9WgXcQ)`.
+ */
+export const youtubeProvider: LineImageSourceProvider = createVideoHostProvider(youtubeHost);
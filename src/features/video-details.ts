@@ -0,0 +1,167 @@
+import { App, normalizePath } from 'obsidian';
+import type { FeaturedImageSettings } from '../settings';
+import { fetchOEmbed } from '../utils/oembed';
+
+interface VideoDetailsServiceDeps {
+    debugLog: (...args: unknown[]) => void;
+    errorLog: (...args: unknown[]) => void;
+}
+
+/**
+ * Video hosts with an oEmbed endpoint for video details.
+ */
+type VideoDetailsHost = 'youtube' | 'vimeo';
+
+/**
+ * Title and author of a video as reported by its host.
+ */
+interface VideoDetails {
+    title?: string;
+    author?: string;
+}
+
+/**
+ * Name of the cache file inside the thumbnails folder.
+ */
+const CACHE_FILE_NAME = 'video-details.json';
+
+const OEMBED_ENDPOINTS: Record<VideoDetailsHost, string> = {
+    youtube: 'https://www.youtube.com/oembed?format=json&url=',
+    vimeo: 'https://vimeo.com/api/oembed.json?url='
+};
+
+/**
+ * Looks up video titles and authors through oEmbed.
+ * Results are cached per video in a JSON file inside the thumbnails folder, so each video is requested once.
+ */
+export class VideoDetailsService {
+    private settings: FeaturedImageSettings;
+    private cache: Promise<Map<string, VideoDetails>> | null = null;
+    private readonly pending = new Map<string, Promise<VideoDetails>>();
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(
+        private readonly app: App,
+        settings: FeaturedImageSettings,
+        private readonly deps: VideoDetailsServiceDeps
+    ) {
+        this.settings = settings;
+    }
+
+    /**
+     * Updates service configuration when settings change.
+     * @param {FeaturedImageSettings} settings - Latest plugin settings.
+     */
+    setSettings(settings: FeaturedImageSettings): void {
+        // The cache file moves with the thumbnails folder
+        if (settings.thumbnailsFolder !== this.settings.thumbnailsFolder) {
+            this.cache = null;
+        }
+        this.settings = settings;
+    }
+
+    /**
+     * Returns the title and author of a video, requesting them from the host when not cached.
+     * Failed requests are not cached so they are retried on the next update.
+     * @param {VideoDetailsHost} host - The video host.
+     * @param {string} videoId - The video ID on the host.
+     * @param {string} videoUrl - Link to the video, passed to the oEmbed endpoint.
+     * @returns {Promise<VideoDetails>} Video details; empty when they could not be retrieved.
+     */
+    async getVideoDetails(host: VideoDetailsHost, videoId: string, videoUrl: string): Promise<VideoDetails> {
+        const key = `${host}/${videoId}`;
+        const cache = await this.loadCache();
+        const cached = cache.get(key);
+        if (cached) {
+            return cached;
+        }
+
+        const pending = this.pending.get(key);
+        if (pending) {
+            return await pending;
+        }
+
+        const request = this.fetchVideoDetails(host, videoUrl);
+        this.pending.set(key, request);
+        try {
+            const details = await request;
+            if (details.title || details.author) {
+                cache.set(key, details);
+                await this.saveCache(cache);
+            }
+            return details;
+        } finally {
+            this.pending.delete(key);
+        }
+    }
+
+    private async fetchVideoDetails(host: VideoDetailsHost, videoUrl: string): Promise<VideoDetails> {
+        try {
+            const data = await fetchOEmbed(`${OEMBED_ENDPOINTS[host]}${encodeURIComponent(videoUrl)}`);
+            this.deps.debugLog('Fetched video details for', videoUrl, data.title);
+            return { title: data.title, author: data.author_name };
+        } catch (error) {
+            this.deps.errorLog('Failed to fetch video details:', videoUrl, error);
+            return {};
+        }
+    }
+
+    private getCachePath(): string {
+        return normalizePath(`${this.settings.thumbnailsFolder}/${CACHE_FILE_NAME}`);
+    }
+
+    private loadCache(): Promise<Map<string, VideoDetails>> {
+        if (!this.cache) {
+            this.cache = this.readCacheFile();
+        }
+        return this.cache;
+    }
+
+    private async readCacheFile(): Promise<Map<string, VideoDetails>> {
+        const cache = new Map<string, VideoDetails>();
+        const cachePath = this.getCachePath();
+        try {
+            if (!(await this.app.vault.adapter.exists(cachePath))) {
+                return cache;
+            }
+            const data: unknown = JSON.parse(await this.app.vault.adapter.read(cachePath));
+            if (data && typeof data === 'object') {
+                for (const [key, value] of Object.entries(data as Record<string, VideoDetails>)) {
+                    if (value && typeof value === 'object') {
+                        cache.set(key, {
+                            title: typeof value.title === 'string' ? value.title : undefined,
+                            author: typeof value.author === 'string' ? value.author : undefined
+                        });
+                    }
+                }
+            }
+        } catch (error) {
+            this.deps.errorLog('Failed to read video details cache:', cachePath, error);
+        }
+        return cache;
+    }
+
+    /**
+     * Writes the cache file. Writes are queued so concurrent updates do not interleave.
+     */
+    private async saveCache(cache: Map<string, VideoDetails>): Promise<void> {
+        if (this.settings.dryRun) {
+            this.deps.debugLog('Dry run: Skipping video details cache update');
+            return;
+        }
+
+        const cachePath = this.getCachePath();
+        const folder = normalizePath(this.settings.thumbnailsFolder);
+        this.writeQueue = this.writeQueue.then(async () => {
+            try {
+                if (!(await this.app.vault.adapter.exists(folder))) {
+                    await this.app.vault.adapter.mkdir(folder);
+                }
+                await this.app.vault.adapter.write(cachePath, JSON.stringify(Object.fromEntries(cache), null, 2));
+            } catch (error) {
+                this.deps.errorLog('Failed to write video details cache:', cachePath, error);
+            }
+        });
+        await this.writeQueue;
+    }
+}
@@ -95,6 +95,10 @@ export const STRINGS_DE = {
                 name: 'Frontmatter-Bildquellen',
                 desc: 'Kommagetrennte Liste von Frontmatter-Eigenschaften, die vor dem Scannen des Dokuments nach Bildpfaden/URLs geprüft werden. Unterstützt Strings und YAML-Listen.'
             },
+            pageUrlProperties: {
+                name: 'Eigenschaften mit Seiten-URL',
+                desc: 'Kommagetrennte Liste von Frontmatter-Eigenschaften mit Webseiten-URLs, etwa die von Web-Clippern geschriebene Quelle (source). Die Seite wird abgerufen und ihr Hauptbild (og:image) heruntergeladen. Wird nach den Bildquellen-Eigenschaften geprüft.'
+            },
             onlyUpdateExisting: {
                 name: 'Nur aktualisieren, wenn Frontmatter-Eigenschaft existiert',
                 desc: 'Aktivieren Sie dies, um die Frontmatter-Eigenschaft nur zu aktualisieren, wenn sie bereits existiert.'
@@ -107,9 +111,29 @@ export const STRINGS_DE = {
                 name: 'Bestehende Eigenschaft nicht löschen',
                 desc: 'Wenn aktiviert, wird die bestehende Featured Image Eigenschaft beibehalten, wenn kein Bild im Dokument gefunden wird. Wenn deaktiviert, wird die Eigenschaft gelöscht oder entfernt, wenn kein Bild erkannt wird (abhängig von der Einstellung "Leere Eigenschaft beibehalten").'
             },
+            videoIdProperty: {
+                name: 'Eigenschaft für Video-ID',
+                desc: 'Frontmatter-Eigenschaft, die die Video-ID erhält, wenn das Beitragsbild ein YouTube- oder Vimeo-Vorschaubild ist, z. B. video_id. Leer lassen zum Deaktivieren.'
+            },
+            videoStartProperty: {
+                name: 'Eigenschaft für Video-Startzeit',
+                desc: 'Frontmatter-Eigenschaft, die die Startzeit in Sekunden aus dem YouTube-Link (Parameter t oder start) erhält, z. B. video_start. Leer lassen zum Deaktivieren.'
+            },
+            videoTitleProperty: {
+                name: 'Eigenschaft für Videotitel',
+                desc: 'Frontmatter-Eigenschaft, die den Titel des YouTube- oder Vimeo-Videos des Beitragsbilds erhält, z. B. video_title. Titel werden im Vorschaubilder-Ordner zwischengespeichert. Leer lassen zum Deaktivieren.'
+            },
+            videoAuthorProperty: {
+                name: 'Eigenschaft für Videoautor',
+                desc: 'Frontmatter-Eigenschaft, die den Kanal oder Uploader des YouTube- oder Vimeo-Videos des Beitragsbilds erhält, z. B. video_author. Leer lassen zum Deaktivieren.'
+            },
+            videoUrlProperty: {
+                name: 'Eigenschaft für Video-URL',
+                desc: 'Frontmatter-Eigenschaft, die den Link zum YouTube- oder Vimeo-Video des Beitragsbilds erhält, z. B. video_url. Leer lassen zum Deaktivieren.'
+            },
             requireExclamationForYouTube: {
                 name: 'Ausrufezeichen für YouTube-Vorschaubilder erforderlich',
-                desc: 'Wenn aktiviert, werden nur YouTube-Links mit vorangestelltem Ausrufezeichen für den Vorschaubild-Download berücksichtigt.'
+                desc: 'Wenn aktiviert, werden nur YouTube- und andere Video-Links mit vorangestelltem Ausrufezeichen für den Vorschaubild-Download berücksichtigt.'
             },
             downloadExternalImages: {
                 name: 'Externe Bilder in den Vorschaubilder-Ordner herunterladen',
@@ -119,6 +143,128 @@ export const STRINGS_DE = {
                 name: 'YouTube-Vorschaubilder herunterladen',
                 desc: 'YouTube-Vorschaubilder lokal speichern. Deaktivieren, um YouTube-Links bei der Auswahl eines Featured Image zu überspringen.'
             },
+            downloadVimeoThumbnails: {
+                name: 'Vimeo-Vorschaubilder herunterladen',
+                desc: 'Vimeo-Vorschaubilder lokal speichern. Deaktivieren, um Vimeo-Links bei der Auswahl eines Featured Image zu überspringen.'
+            },
+            downloadDailymotionThumbnails: {
+                name: 'Dailymotion-Vorschaubilder herunterladen',
+                desc: 'Dailymotion-Vorschaubilder lokal speichern. Deaktivieren, um Dailymotion-Links bei der Auswahl eines Featured Image zu überspringen.'
+            },
+            downloadLoomThumbnails: {
+                name: 'Loom-Vorschaubilder herunterladen',
+                desc: 'Loom-Vorschaubilder lokal speichern. Deaktivieren, um Loom-Links bei der Auswahl eines Featured Image zu überspringen.'
+            },
+            downloadTwitchThumbnails: {
+                name: 'Twitch-Vorschaubilder herunterladen',
+                desc: 'Twitch-Vorschaubilder lokal speichern. Deaktivieren, um Twitch-Links bei der Auswahl eines Featured Image zu überspringen.'
+            },
+            extractOpenGraphImages: {
+                name: 'Seitenbilder für einfache Links verwenden',
+                desc: 'Wenn eine Notiz kein anderes Bild enthält, werden Webseiten, die mit einem einfachen https://-Link verknüpft sind, abgerufen und ihr Open-Graph-Bild (og:image), Twitter-Card-Bild oder image_src-Bild verwendet. Erfordert das Herunterladen externer Bilder.'
+            },
+            detectionMode: {
+                name: 'Erkennungsmodus',
+                desc: 'Wie Bilder in Notizen gefunden werden. Der Metadaten-Cache-Modus verwendet die von Obsidian geparsten Einbettungen und Links, findet so auch Anhänge, die ohne Dateiendung verlinkt sind, und liest die Notiz nur für externe Bilder, YouTube-Links und Auto Card Links.',
+                options: {
+                    content: 'Notizinhalt durchsuchen',
+                    metadata: 'Metadaten-Cache verwenden'
+                }
+            },
+            selectionStrategy: {
+                name: 'Bildauswahl',
+                desc: 'Welches Bild zum Beitragsbild wird, wenn eine Notiz mehrere enthält. Alle Strategien außer erstes und letztes Bild vergleichen die Bildabmessungen, daher wird jedes Bild der Notiz aufgelöst (und externe Bilder werden heruntergeladen). Als Beitragsbild markierte Bilder haben immer Vorrang.',
+                options: {
+                    first: 'Erstes Bild',
+                    last: 'Letztes Bild',
+                    largest: 'Größtes Bild',
+                    aspectRatio: 'Nächstes am Seitenverhältnis der Miniatur',
+                    best: 'Beste Übereinstimmung (Icons und Badges überspringen)'
+                }
+            },
+            renderPdfPages: {
+                name: 'PDF-Seiten rendern',
+                desc: 'Eingebettete PDFs wie ![[paper.pdf]] als Featured Image verwenden, indem ihre erste Seite oder die mit #page=N angegebene Seite gerendert wird. Jedes PDF wird dafür vollständig gelesen. Seiten werden im Unterordner pdf gespeichert.'
+            },
+            captureVideoFrames: {
+                name: 'Videobilder aufnehmen',
+                desc: 'Eingebettete lokale Videos wie ![[clip.mp4]] als Featured Image verwenden, indem eines ihrer Bilder aufgenommen wird. Jedes Video wird dafür vollständig gelesen. Bilder werden im Unterordner video gespeichert.'
+            },
+            videoFrameOffset: {
+                name: 'Position des Videobilds',
+                desc: 'Zeitpunkt in Sekunden, an dem das Bild eines eingebetteten lokalen Videos wie ![[clip.mp4]] für das Featured Image aufgenommen wird. Bei kürzeren Videos wird das Bild aus der Mitte verwendet.'
+            },
+            extractAudioCovers: {
+                name: 'Cover aus Audiodateien extrahieren',
+                desc: 'Das in Audiodateien wie ![[episode.mp3]] eingebettete Cover als Featured Image verwenden. Jede Audiodatei wird dafür vollständig gelesen. Cover werden im Unterordner audio gespeichert.'
+            },
+            renderExcalidrawDrawings: {
+                name: 'Excalidraw-Zeichnungen rendern',
+                desc: 'Das exportierte PNG oder SVG von Excalidraw-Zeichnungen wird als deren eigenes Featured Image gesetzt. Liegt neben einer Zeichnung kein Export, wird mit dem Excalidraw-Plugin (falls installiert) eine Vorschau gerendert und im Unterordner excalidraw gespeichert. Wenn deaktiviert, bleiben Zeichnungen unverändert und Notizen verwenden nur deren exportierte Bilder.'
+            },
+            followTransclusions: {
+                name: 'Eingebetteten Notizen folgen',
+                desc: 'Wenn eine Notiz kein eigenes Bild hat, wird in Notizen und Abschnitten gesucht, die mit ![[Notiz]], ![[Notiz#Überschrift]] oder ![[Notiz#^block]] eingebettet sind.'
+            },
+            maxTransclusionDepth: {
+                name: 'Einbettungstiefe',
+                desc: 'Wie viele Ebenen verschachtelter Einbettungen verfolgt werden.'
+            },
+            renderMermaidDiagrams: {
+                name: 'Mermaid-Diagramme rendern',
+                desc: 'Wenn eine Notiz kein Bild enthält, wird ihr erster mermaid-Codeblock gerendert und als Featured Image verwendet. Diagramme werden im Unterordner mermaid gespeichert und nur bei Änderungen neu gerendert.'
+            },
+            inheritFromFolderNote: {
+                name: 'Von Ordnernotiz erben',
+                desc: 'Wenn eine Notiz kein Bild hat, wird das Beitragsbild ihrer Ordnernotiz verwendet (Ordner/Ordner.md oder Ordner.md neben dem Ordner).'
+            },
+            inheritFromProperties: {
+                name: 'Von Eigenschaften erben',
+                desc: 'Kommagetrennte Frontmatter-Eigenschaften, die auf eine übergeordnete Notiz verlinken, z. B. up, parent. Wenn eine Notiz kein Bild hat, wird das Beitragsbild der ersten verlinkten Notiz mit Bild verwendet.'
+            },
+            inheritFromLinks: {
+                name: 'Von Links erben',
+                desc: 'Wenn eine Notiz kein Bild hat, wird das Beitragsbild des ersten ausgehenden Links mit Bild verwendet.'
+            },
+            inheritedFromProperty: {
+                name: 'Eigenschaft für die Herkunft',
+                desc: 'Frontmatter-Eigenschaft, die auf die Notiz verlinkt, von der ein geerbtes Featured Image stammt. Geerbte Bilder werden nie an diese Notiz zurückgegeben, sodass sich gegenseitig verlinkende Notizen kein entferntes Bild am Leben halten.'
+            },
+            generateTitleCards: {
+                name: 'Titelkarten erzeugen',
+                desc: 'Wenn eine Notiz kein Bild hat, wird eine SVG-Titelkarte mit Notiztitel, erstem Tag und einer aus dem Notizpfad abgeleiteten Farbe erzeugt und als Beitragsbild verwendet. Karten werden im Unterordner generated gespeichert.'
+            },
+            titleCardTemplate: {
+                name: 'Titelkarten-Vorlage',
+                desc: 'SVG-Vorlage für Titelkarten. Platzhalter: {{title}}, {{folder}}, {{tags}}, {{tag}} (erster Tag), {{color}} und {{colorDark}}. Leer lassen, um die Standardvorlage zu verwenden.'
+            },
+            defaultImageRules: {
+                name: 'Regeln für Standardbilder',
+                desc: 'Verwendet ein festes Bild für Notizen, die einem Tag (z. B. #book) oder einem Pfadmuster (z. B. Meetings/**) entsprechen. Regeln werden von oben nach unten geprüft. Aktiviere den Schalter, um das Bild auch dann zu verwenden, wenn die Notiz ein Bild enthält.',
+                addRule: 'Regel hinzufügen',
+                matchPlaceholder: '#tag oder Ordner/**',
+                imagePlaceholder: 'assets/bild.png',
+                override: 'Dieses Bild immer verwenden',
+                moveUp: 'Nach oben',
+                moveDown: 'Nach unten',
+                remove: 'Regel entfernen'
+            },
+            minImageWidth: {
+                name: 'Minimale Bildbreite',
+                desc: 'Bilder, die schmaler als diese Anzahl Pixel sind, werden übersprungen. 0 deaktiviert den Filter.'
+            },
+            minImageHeight: {
+                name: 'Minimale Bildhöhe',
+                desc: 'Bilder, die niedriger als diese Anzahl Pixel sind, werden übersprungen. 0 deaktiviert den Filter.'
+            },
+            minImageFileSizeKb: {
+                name: 'Minimale Dateigröße',
+                desc: 'Bilder, die kleiner als diese Anzahl Kilobyte sind, werden übersprungen, z. B. Tracking-Pixel. 0 deaktiviert den Filter.'
+            },
+            ignoredImagePatterns: {
+                name: 'Ignorierte Bildmuster',
+                desc: 'Bilder, deren Vault-Pfad oder URL einem dieser Muster entspricht, werden übersprungen. Ein Muster pro Zeile: Globs (* und **) oder reguläre Ausdrücke in der Form /Ausdruck/.'
+            },
             debugMode: {
                 name: 'Debug-Modus',
                 desc: 'Debug-Modus aktivieren, um detaillierte Informationen in der Konsole zu protokollieren.'
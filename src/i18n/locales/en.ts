@@ -95,6 +95,10 @@ export const STRINGS_EN = {
                 name: 'Frontmatter image source properties',
                 desc: 'Comma-separated list of frontmatter properties to check for image paths/URLs before scanning the document. Supports strings and YAML lists.'
             },
+            pageUrlProperties: {
+                name: 'Page URL properties',
+                desc: 'Comma-separated list of frontmatter properties holding web page URLs, such as the source written by web clippers. The page is fetched and its lead image (og:image) is downloaded. Checked after the image source properties.'
+            },
             onlyUpdateExisting: {
                 name: 'Only update if frontmatter property exists',
                 desc: 'Enable this to only update the frontmatter property if it already exists.'
@@ -107,9 +111,29 @@ export const STRINGS_EN = {
                 name: "Don't clear existing property",
                 desc: "When enabled, keeps the existing featured image property if no image is found in the document. When disabled, clears or removes the property when no image is detected (depending on the 'Keep empty property' setting)."
             },
+            videoIdProperty: {
+                name: 'Video ID property',
+                desc: 'Frontmatter property that receives the video ID when the featured image is a YouTube or Vimeo thumbnail, e.g. video_id. Leave empty to disable.'
+            },
+            videoStartProperty: {
+                name: 'Video start time property',
+                desc: 'Frontmatter property that receives the start time in seconds from the YouTube link (t or start parameter), e.g. video_start. Leave empty to disable.'
+            },
+            videoTitleProperty: {
+                name: 'Video title property',
+                desc: 'Frontmatter property that receives the title of the featured YouTube or Vimeo video, e.g. video_title. Titles are cached in the thumbnails folder. Leave empty to disable.'
+            },
+            videoAuthorProperty: {
+                name: 'Video author property',
+                desc: 'Frontmatter property that receives the channel or uploader of the featured YouTube or Vimeo video, e.g. video_author. Leave empty to disable.'
+            },
+            videoUrlProperty: {
+                name: 'Video URL property',
+                desc: 'Frontmatter property that receives the link to the featured YouTube or Vimeo video, e.g. video_url. Leave empty to disable.'
+            },
             requireExclamationForYouTube: {
                 name: 'Require exclamation mark for YouTube thumbnails',
-                desc: 'If enabled, only YouTube links prefixed with an exclamation mark will be considered for thumbnail download.'
+                desc: 'If enabled, only YouTube and other video links prefixed with an exclamation mark will be considered for thumbnail download.'
             },
             downloadExternalImages: {
                 name: 'Download external images to thumbnails folder',
@@ -119,6 +143,128 @@ export const STRINGS_EN = {
                 name: 'Download YouTube thumbnails',
                 desc: 'Store YouTube thumbnails locally. Disable to skip YouTube links when selecting a featured image.'
             },
+            downloadVimeoThumbnails: {
+                name: 'Download Vimeo thumbnails',
+                desc: 'Store Vimeo thumbnails locally. Disable to skip Vimeo links when selecting a featured image.'
+            },
+            downloadDailymotionThumbnails: {
+                name: 'Download Dailymotion thumbnails',
+                desc: 'Store Dailymotion thumbnails locally. Disable to skip Dailymotion links when selecting a featured image.'
+            },
+            downloadLoomThumbnails: {
+                name: 'Download Loom thumbnails',
+                desc: 'Store Loom thumbnails locally. Disable to skip Loom links when selecting a featured image.'
+            },
+            downloadTwitchThumbnails: {
+                name: 'Download Twitch thumbnails',
+                desc: 'Store Twitch thumbnails locally. Disable to skip Twitch links when selecting a featured image.'
+            },
+            extractOpenGraphImages: {
+                name: 'Use page images for bare links',
+                desc: 'When a note has no other image, fetch web pages linked with a plain https:// link and use their Open Graph (og:image), Twitter card or image_src image. Requires downloading external images.'
+            },
+            detectionMode: {
+                name: 'Detection mode',
+                desc: "How images are found in notes. Metadata cache mode uses Obsidian's parsed embeds and links, which also finds attachments linked without an extension, and only reads the note for remote images, YouTube links and Auto Card Links.",
+                options: {
+                    content: 'Scan note content',
+                    metadata: 'Use metadata cache'
+                }
+            },
+            selectionStrategy: {
+                name: 'Image selection',
+                desc: 'Which image becomes the featured image when a note contains several. Strategies other than first and last compare image dimensions, so every image in the note is resolved (and external images are downloaded). Images marked as featured always take precedence.',
+                options: {
+                    first: 'First image',
+                    last: 'Last image',
+                    largest: 'Largest image',
+                    aspectRatio: 'Closest to thumbnail aspect ratio',
+                    best: 'Best match (skip icons and badges)'
+                }
+            },
+            renderPdfPages: {
+                name: 'Render PDF pages',
+                desc: 'Use embedded PDFs such as ![[paper.pdf]] as featured images by rendering their first page, or the page given with #page=N. Each PDF is read in full when it is rendered. Pages are saved in the pdf subfolder.'
+            },
+            captureVideoFrames: {
+                name: 'Capture video frames',
+                desc: 'Use embedded local videos such as ![[clip.mp4]] as featured images by capturing one of their frames. Each video is read in full when a frame is captured. Frames are saved in the video subfolder.'
+            },
+            videoFrameOffset: {
+                name: 'Video frame position',
+                desc: 'Seconds into a local video embed such as ![[clip.mp4]] at which the frame used as the featured image is captured. Videos shorter than this use the frame in the middle.'
+            },
+            extractAudioCovers: {
+                name: 'Extract audio cover art',
+                desc: 'Use the cover art embedded in audio files such as ![[episode.mp3]] as featured images. Each audio file is read in full to find its cover. Covers are saved in the audio subfolder.'
+            },
+            renderExcalidrawDrawings: {
+                name: 'Render Excalidraw drawings',
+                desc: 'Set the exported PNG or SVG of Excalidraw drawings as their own featured image. When a drawing has no export next to it, render a preview with the Excalidraw plugin (if installed) and save it in the excalidraw subfolder. When off, drawings are left unchanged and notes only use their exported images.'
+            },
+            followTransclusions: {
+                name: 'Follow transcluded notes',
+                desc: 'When a note has no image of its own, look for one in notes and sections it transcludes with ![[Note]], ![[Note#Heading]] or ![[Note#^block]].'
+            },
+            maxTransclusionDepth: {
+                name: 'Transclusion depth',
+                desc: 'How many levels of nested transclusions to follow.'
+            },
+            renderMermaidDiagrams: {
+                name: 'Render Mermaid diagrams',
+                desc: 'When a note has no image, render its first mermaid code block and use it as the featured image. Diagrams are saved in the mermaid subfolder and only rendered again when they change.'
+            },
+            inheritFromFolderNote: {
+                name: 'Inherit from folder note',
+                desc: 'When a note has no image, use the feature of its folder note (Folder/Folder.md or Folder.md next to the folder).'
+            },
+            inheritFromProperties: {
+                name: 'Inherit from properties',
+                desc: 'Comma-separated frontmatter properties linking to a parent note, e.g. up, parent. When a note has no image, the feature of the first linked note that has one is used.'
+            },
+            inheritFromLinks: {
+                name: 'Inherit from links',
+                desc: 'When a note has no image, use the feature of the first outgoing link that has one.'
+            },
+            inheritedFromProperty: {
+                name: 'Inherited from property',
+                desc: 'Frontmatter property linking to the note an inherited featured image comes from. Inherited images are never passed back to that note, so notes that link to each other cannot keep a removed image alive.'
+            },
+            generateTitleCards: {
+                name: 'Generate title cards',
+                desc: 'When a note has no image, generate an SVG title card with the note title, first tag and a color derived from the note path, and use it as the featured image. Cards are saved in the generated subfolder.'
+            },
+            titleCardTemplate: {
+                name: 'Title card template',
+                desc: 'SVG template for title cards. Placeholders: {{title}}, {{folder}}, {{tags}}, {{tag}} (first tag), {{color}} and {{colorDark}}. Leave empty to use the default template.'
+            },
+            defaultImageRules: {
+                name: 'Default image rules',
+                desc: 'Use a fixed image for notes that match a tag (such as #book) or a path pattern (such as Meetings/**). Rules are checked from top to bottom. Enable the toggle to use the image even when the note contains one.',
+                addRule: 'Add rule',
+                matchPlaceholder: '#tag or Folder/**',
+                imagePlaceholder: 'assets/image.png',
+                override: 'Always use this image',
+                moveUp: 'Move up',
+                moveDown: 'Move down',
+                remove: 'Remove rule'
+            },
+            minImageWidth: {
+                name: 'Minimum image width',
+                desc: 'Images narrower than this many pixels are skipped. Set to 0 to disable.'
+            },
+            minImageHeight: {
+                name: 'Minimum image height',
+                desc: 'Images shorter than this many pixels are skipped. Set to 0 to disable.'
+            },
+            minImageFileSizeKb: {
+                name: 'Minimum image file size',
+                desc: 'Images smaller than this many kilobytes are skipped, e.g. tracking pixels. Set to 0 to disable.'
+            },
+            ignoredImagePatterns: {
+                name: 'Ignored image patterns',
+                desc: 'Images whose vault path or URL matches one of these patterns are skipped. One pattern per line: globs (* and **), or regular expressions written as /expression/.'
+            },
             debugMode: {
                 name: 'Debug mode',
                 desc: 'Enable debug mode to log detailed information to the console.'
@@ -95,6 +95,10 @@ export const STRINGS_ES = {
                 name: 'Propiedades de origen de imagen en frontmatter',
                 desc: 'Lista separada por comas de propiedades de frontmatter para buscar rutas/URLs de imágenes antes de escanear el documento. Admite cadenas y listas YAML.'
             },
+            pageUrlProperties: {
+                name: 'Propiedades de URL de página',
+                desc: 'Lista separada por comas de propiedades del frontmatter que contienen URL de páginas web, como el source que escriben los recortadores web. Se obtiene la página y se descarga su imagen principal (og:image). Se comprueban después de las propiedades de origen de imagen.'
+            },
             onlyUpdateExisting: {
                 name: 'Solo actualizar si existe la propiedad de frontmatter',
                 desc: 'Habilite esto para actualizar solo la propiedad de frontmatter si ya existe.'
@@ -107,9 +111,29 @@ export const STRINGS_ES = {
                 name: 'No borrar propiedad existente',
                 desc: 'Cuando está habilitado, mantiene la propiedad de imagen destacada existente si no se encuentra ninguna imagen en el documento. Cuando está deshabilitado, borra o elimina la propiedad cuando no se detecta ninguna imagen (dependiendo de la configuración "Mantener propiedad vacía").'
             },
+            videoIdProperty: {
+                name: 'Propiedad de ID de vídeo',
+                desc: 'Propiedad del frontmatter que recibe el ID del vídeo cuando la imagen destacada es una miniatura de YouTube o Vimeo, p. ej. video_id. Déjala vacía para desactivarla.'
+            },
+            videoStartProperty: {
+                name: 'Propiedad de inicio del vídeo',
+                desc: 'Propiedad del frontmatter que recibe el tiempo de inicio en segundos del enlace de YouTube (parámetro t o start), p. ej. video_start. Déjala vacía para desactivarla.'
+            },
+            videoTitleProperty: {
+                name: 'Propiedad del título del vídeo',
+                desc: 'Propiedad del frontmatter que recibe el título del vídeo de YouTube o Vimeo de la imagen destacada, p. ej. video_title. Los títulos se guardan en caché en la carpeta de miniaturas. Déjala vacía para desactivarla.'
+            },
+            videoAuthorProperty: {
+                name: 'Propiedad del autor del vídeo',
+                desc: 'Propiedad del frontmatter que recibe el canal o autor del vídeo de YouTube o Vimeo de la imagen destacada, p. ej. video_author. Déjala vacía para desactivarla.'
+            },
+            videoUrlProperty: {
+                name: 'Propiedad de la URL del vídeo',
+                desc: 'Propiedad del frontmatter que recibe el enlace al vídeo de YouTube o Vimeo de la imagen destacada, p. ej. video_url. Déjala vacía para desactivarla.'
+            },
             requireExclamationForYouTube: {
                 name: 'Requerir signo de exclamación para miniaturas de YouTube',
-                desc: 'Si está habilitado, solo los enlaces de YouTube con prefijo de signo de exclamación se considerarán para la descarga de miniaturas.'
+                desc: 'Si está habilitado, solo los enlaces de YouTube y de otros vídeos con prefijo de signo de exclamación se considerarán para la descarga de miniaturas.'
             },
             downloadExternalImages: {
                 name: 'Descargar imágenes externas en la carpeta de miniaturas',
@@ -119,6 +143,128 @@ export const STRINGS_ES = {
                 name: 'Descargar miniaturas de YouTube',
                 desc: 'Almacenar miniaturas de YouTube localmente. Deshabilite para omitir enlaces de YouTube al seleccionar la imagen destacada.'
             },
+            downloadVimeoThumbnails: {
+                name: 'Descargar miniaturas de Vimeo',
+                desc: 'Almacenar miniaturas de Vimeo localmente. Deshabilite para omitir enlaces de Vimeo al seleccionar la imagen destacada.'
+            },
+            downloadDailymotionThumbnails: {
+                name: 'Descargar miniaturas de Dailymotion',
+                desc: 'Almacenar miniaturas de Dailymotion localmente. Deshabilite para omitir enlaces de Dailymotion al seleccionar la imagen destacada.'
+            },
+            downloadLoomThumbnails: {
+                name: 'Descargar miniaturas de Loom',
+                desc: 'Almacenar miniaturas de Loom localmente. Deshabilite para omitir enlaces de Loom al seleccionar la imagen destacada.'
+            },
+            downloadTwitchThumbnails: {
+                name: 'Descargar miniaturas de Twitch',
+                desc: 'Almacenar miniaturas de Twitch localmente. Deshabilite para omitir enlaces de Twitch al seleccionar la imagen destacada.'
+            },
+            extractOpenGraphImages: {
+                name: 'Usar imágenes de página para enlaces simples',
+                desc: 'Cuando una nota no tiene otra imagen, obtiene las páginas web enlazadas con un enlace https:// simple y usa su imagen Open Graph (og:image), de tarjeta de Twitter o image_src. Requiere descargar imágenes externas.'
+            },
+            detectionMode: {
+                name: 'Modo de detección',
+                desc: 'Cómo se encuentran las imágenes en las notas. El modo de caché de metadatos usa las incrustaciones y enlaces analizados por Obsidian, lo que también encuentra adjuntos enlazados sin extensión, y solo lee la nota para imágenes remotas, enlaces de YouTube y Auto Card Links.',
+                options: {
+                    content: 'Escanear el contenido de la nota',
+                    metadata: 'Usar la caché de metadatos'
+                }
+            },
+            selectionStrategy: {
+                name: 'Selección de imagen',
+                desc: 'Qué imagen se convierte en la imagen destacada cuando una nota contiene varias. Las estrategias distintas de primera y última comparan las dimensiones, por lo que se resuelven todas las imágenes de la nota (y se descargan las imágenes externas). Las imágenes marcadas como destacadas siempre tienen prioridad.',
+                options: {
+                    first: 'Primera imagen',
+                    last: 'Última imagen',
+                    largest: 'Imagen más grande',
+                    aspectRatio: 'Más cercana a la relación de aspecto de la miniatura',
+                    best: 'Mejor coincidencia (omitir iconos e insignias)'
+                }
+            },
+            renderPdfPages: {
+                name: 'Renderizar páginas de PDF',
+                desc: 'Usa PDF incrustados como ![[paper.pdf]] como imagen destacada renderizando su primera página o la indicada con #page=N. Cada PDF se lee por completo al renderizarlo. Las páginas se guardan en la subcarpeta pdf.'
+            },
+            captureVideoFrames: {
+                name: 'Capturar fotogramas de vídeo',
+                desc: 'Usa vídeos locales incrustados como ![[clip.mp4]] como imagen destacada capturando uno de sus fotogramas. Cada vídeo se lee por completo al capturar el fotograma. Los fotogramas se guardan en la subcarpeta video.'
+            },
+            videoFrameOffset: {
+                name: 'Posición del fotograma de vídeo',
+                desc: 'Segundos dentro de un vídeo local incrustado como ![[clip.mp4]] en los que se captura el fotograma usado como imagen destacada. En vídeos más cortos se usa el fotograma central.'
+            },
+            extractAudioCovers: {
+                name: 'Extraer portadas de audio',
+                desc: 'Usa la portada incrustada en archivos de audio como ![[episode.mp3]] como imagen destacada. Cada archivo de audio se lee por completo para encontrar su portada. Las portadas se guardan en la subcarpeta audio.'
+            },
+            renderExcalidrawDrawings: {
+                name: 'Renderizar dibujos de Excalidraw',
+                desc: 'Establece el PNG o SVG exportado de los dibujos de Excalidraw como su propia imagen destacada. Cuando un dibujo no tiene una exportación junto a él, se genera una vista previa con el plugin Excalidraw (si está instalado) y se guarda en la subcarpeta excalidraw. Si está desactivado, los dibujos no se modifican y las notas solo usan sus imágenes exportadas.'
+            },
+            followTransclusions: {
+                name: 'Seguir notas incrustadas',
+                desc: 'Si una nota no tiene imagen propia, busca una en las notas y secciones que incrusta con ![[Nota]], ![[Nota#Encabezado]] o ![[Nota#^bloque]].'
+            },
+            maxTransclusionDepth: {
+                name: 'Profundidad de incrustación',
+                desc: 'Cuántos niveles de incrustaciones anidadas se siguen.'
+            },
+            renderMermaidDiagrams: {
+                name: 'Renderizar diagramas Mermaid',
+                desc: 'Cuando una nota no tiene imágenes, se renderiza su primer bloque de código mermaid y se usa como imagen destacada. Los diagramas se guardan en la subcarpeta mermaid y solo se vuelven a renderizar cuando cambian.'
+            },
+            inheritFromFolderNote: {
+                name: 'Heredar de la nota de carpeta',
+                desc: 'Si una nota no tiene imagen, usa la imagen destacada de su nota de carpeta (Carpeta/Carpeta.md o Carpeta.md junto a la carpeta).'
+            },
+            inheritFromProperties: {
+                name: 'Heredar de propiedades',
+                desc: 'Propiedades de frontmatter separadas por comas que enlazan a una nota principal, p. ej. up, parent. Si una nota no tiene imagen, se usa la imagen destacada de la primera nota enlazada que tenga una.'
+            },
+            inheritFromLinks: {
+                name: 'Heredar de enlaces',
+                desc: 'Si una nota no tiene imagen, usa la imagen destacada del primer enlace saliente que tenga una.'
+            },
+            inheritedFromProperty: {
+                name: 'Propiedad de origen heredado',
+                desc: 'Propiedad del frontmatter que enlaza a la nota de la que procede una imagen destacada heredada. Las imágenes heredadas nunca se devuelven a esa nota, así que las notas que se enlazan entre sí no mantienen una imagen eliminada.'
+            },
+            generateTitleCards: {
+                name: 'Generar tarjetas de título',
+                desc: 'Si una nota no tiene imagen, genera una tarjeta de título SVG con el título de la nota, la primera etiqueta y un color derivado de la ruta de la nota, y la usa como imagen destacada. Las tarjetas se guardan en la subcarpeta generated.'
+            },
+            titleCardTemplate: {
+                name: 'Plantilla de tarjeta de título',
+                desc: 'Plantilla SVG para las tarjetas de título. Marcadores: {{title}}, {{folder}}, {{tags}}, {{tag}} (primera etiqueta), {{color}} y {{colorDark}}. Déjala vacía para usar la plantilla predeterminada.'
+            },
+            defaultImageRules: {
+                name: 'Reglas de imagen predeterminada',
+                desc: 'Usa una imagen fija para las notas que coinciden con una etiqueta (como #book) o un patrón de ruta (como Meetings/**). Las reglas se comprueban de arriba abajo. Activa el interruptor para usar la imagen aunque la nota contenga una.',
+                addRule: 'Añadir regla',
+                matchPlaceholder: '#etiqueta o Carpeta/**',
+                imagePlaceholder: 'assets/imagen.png',
+                override: 'Usar siempre esta imagen',
+                moveUp: 'Subir',
+                moveDown: 'Bajar',
+                remove: 'Eliminar regla'
+            },
+            minImageWidth: {
+                name: 'Ancho mínimo de imagen',
+                desc: 'Se omiten las imágenes más estrechas que este número de píxeles. Establece 0 para desactivarlo.'
+            },
+            minImageHeight: {
+                name: 'Alto mínimo de imagen',
+                desc: 'Se omiten las imágenes más bajas que este número de píxeles. Establece 0 para desactivarlo.'
+            },
+            minImageFileSizeKb: {
+                name: 'Tamaño mínimo de archivo',
+                desc: 'Se omiten las imágenes de menos de este número de kilobytes, por ejemplo píxeles de seguimiento. Establece 0 para desactivarlo.'
+            },
+            ignoredImagePatterns: {
+                name: 'Patrones de imágenes ignoradas',
+                desc: 'Se omiten las imágenes cuya ruta en la bóveda o URL coincida con uno de estos patrones. Un patrón por línea: globs (* y **) o expresiones regulares escritas como /expresión/.'
+            },
             debugMode: {
                 name: 'Modo de depuración',
                 desc: 'Habilitar el modo de depuración para registrar información detallada en la consola.'
@@ -95,6 +95,10 @@ export const STRINGS_FR = {
                 name: "Propriétés source d'image (frontmatter)",
                 desc: "Liste de propriétés frontmatter séparées par des virgules à vérifier pour des chemins/URLs d'image avant de scanner le document. Prend en charge les chaînes et les listes YAML."
             },
+            pageUrlProperties: {
+                name: "Propriétés d'URL de page",
+                desc: "Liste de propriétés du frontmatter séparées par des virgules contenant des URL de pages web, comme la source écrite par les outils de capture web. La page est récupérée et son image principale (og:image) est téléchargée. Vérifiées après les propriétés de source d'image."
+            },
             onlyUpdateExisting: {
                 name: 'Mettre à jour uniquement si la propriété frontmatter existe',
                 desc: 'Activez ceci pour mettre à jour uniquement la propriété frontmatter si elle existe déjà.'
@@ -107,9 +111,29 @@ export const STRINGS_FR = {
                 name: 'Ne pas effacer la propriété existante',
                 desc: "Lorsque activé, conserve la propriété d'image vedette existante si aucune image n'est trouvée dans le document. Lorsque désactivé, efface ou supprime la propriété lorsqu'aucune image n'est détectée (selon le paramètre \"Conserver la propriété vide\")."
             },
+            videoIdProperty: {
+                name: 'Propriété d’identifiant vidéo',
+                desc: 'Propriété du frontmatter qui reçoit l’identifiant de la vidéo lorsque l’image vedette est une miniature YouTube ou Vimeo, par ex. video_id. Laisser vide pour désactiver.'
+            },
+            videoStartProperty: {
+                name: 'Propriété de début de la vidéo',
+                desc: 'Propriété du frontmatter qui reçoit le temps de départ en secondes du lien YouTube (paramètre t ou start), par ex. video_start. Laisser vide pour désactiver.'
+            },
+            videoTitleProperty: {
+                name: 'Propriété du titre de la vidéo',
+                desc: 'Propriété du frontmatter qui reçoit le titre de la vidéo YouTube ou Vimeo de l’image vedette, par ex. video_title. Les titres sont mis en cache dans le dossier des miniatures. Laisser vide pour désactiver.'
+            },
+            videoAuthorProperty: {
+                name: 'Propriété de l’auteur de la vidéo',
+                desc: 'Propriété du frontmatter qui reçoit la chaîne ou l’auteur de la vidéo YouTube ou Vimeo de l’image vedette, par ex. video_author. Laisser vide pour désactiver.'
+            },
+            videoUrlProperty: {
+                name: 'Propriété de l’URL de la vidéo',
+                desc: 'Propriété du frontmatter qui reçoit le lien vers la vidéo YouTube ou Vimeo de l’image vedette, par ex. video_url. Laisser vide pour désactiver.'
+            },
             requireExclamationForYouTube: {
                 name: "Exiger un point d'exclamation pour les miniatures YouTube",
-                desc: "Si activé, seuls les liens YouTube préfixés d'un point d'exclamation seront considérés pour le téléchargement de miniatures."
+                desc: "Si activé, seuls les liens YouTube et autres liens vidéo préfixés d'un point d'exclamation seront considérés pour le téléchargement de miniatures."
             },
             downloadExternalImages: {
                 name: 'Télécharger les images externes dans le dossier des miniatures',
@@ -119,6 +143,128 @@ export const STRINGS_FR = {
                 name: 'Télécharger les miniatures YouTube',
                 desc: 'Stocker les miniatures YouTube localement. Désactivez pour ignorer les liens YouTube lors de la sélection de l’image vedette.'
             },
+            downloadVimeoThumbnails: {
+                name: 'Télécharger les miniatures Vimeo',
+                desc: 'Stocker les miniatures Vimeo localement. Désactivez pour ignorer les liens Vimeo lors de la sélection de l’image vedette.'
+            },
+            downloadDailymotionThumbnails: {
+                name: 'Télécharger les miniatures Dailymotion',
+                desc: 'Stocker les miniatures Dailymotion localement. Désactivez pour ignorer les liens Dailymotion lors de la sélection de l’image vedette.'
+            },
+            downloadLoomThumbnails: {
+                name: 'Télécharger les miniatures Loom',
+                desc: 'Stocker les miniatures Loom localement. Désactivez pour ignorer les liens Loom lors de la sélection de l’image vedette.'
+            },
+            downloadTwitchThumbnails: {
+                name: 'Télécharger les miniatures Twitch',
+                desc: 'Stocker les miniatures Twitch localement. Désactivez pour ignorer les liens Twitch lors de la sélection de l’image vedette.'
+            },
+            extractOpenGraphImages: {
+                name: "Utiliser l'image des pages pour les liens simples",
+                desc: "Lorsqu'une note ne contient aucune autre image, récupère les pages web liées par un simple lien https:// et utilise leur image Open Graph (og:image), de carte Twitter ou image_src. Nécessite le téléchargement des images externes."
+            },
+            detectionMode: {
+                name: 'Mode de détection',
+                desc: 'Comment les images sont trouvées dans les notes. Le mode cache de métadonnées utilise les intégrations et liens analysés par Obsidian, ce qui trouve aussi les pièces jointes liées sans extension, et ne lit la note que pour les images distantes, les liens YouTube et les Auto Card Links.',
+                options: {
+                    content: 'Analyser le contenu de la note',
+                    metadata: 'Utiliser le cache de métadonnées'
+                }
+            },
+            selectionStrategy: {
+                name: "Sélection de l'image",
+                desc: "Quelle image devient l'image mise en avant lorsqu'une note en contient plusieurs. Les stratégies autres que première et dernière comparent les dimensions des images, donc chaque image de la note est résolue (et les images externes sont téléchargées). Les images marquées comme mises en avant sont toujours prioritaires.",
+                options: {
+                    first: 'Première image',
+                    last: 'Dernière image',
+                    largest: 'Plus grande image',
+                    aspectRatio: 'Plus proche du format de la miniature',
+                    best: 'Meilleure correspondance (ignorer icônes et badges)'
+                }
+            },
+            renderPdfPages: {
+                name: 'Rendre les pages PDF',
+                desc: 'Utilise les PDF intégrés comme ![[paper.pdf]] comme image vedette en rendant leur première page, ou celle indiquée par #page=N. Chaque PDF est lu en entier pour être rendu. Les pages sont enregistrées dans le sous-dossier pdf.'
+            },
+            captureVideoFrames: {
+                name: 'Capturer des images vidéo',
+                desc: 'Utilise les vidéos locales intégrées comme ![[clip.mp4]] comme image vedette en capturant l’une de leurs images. Chaque vidéo est lue en entier pour la capture. Les images sont enregistrées dans le sous-dossier video.'
+            },
+            videoFrameOffset: {
+                name: 'Position de l’image vidéo',
+                desc: 'Nombre de secondes dans une vidéo locale intégrée comme ![[clip.mp4]] auquel l’image utilisée comme image vedette est capturée. Les vidéos plus courtes utilisent l’image du milieu.'
+            },
+            extractAudioCovers: {
+                name: 'Extraire les pochettes audio',
+                desc: 'Utilise la pochette intégrée aux fichiers audio comme ![[episode.mp3]] comme image vedette. Chaque fichier audio est lu en entier pour trouver sa pochette. Les pochettes sont enregistrées dans le sous-dossier audio.'
+            },
+            renderExcalidrawDrawings: {
+                name: 'Rendre les dessins Excalidraw',
+                desc: 'Définit le PNG ou SVG exporté des dessins Excalidraw comme leur propre image vedette. Lorsqu’un dessin n’a pas d’export à côté, un aperçu est généré avec le plugin Excalidraw (s’il est installé) et enregistré dans le sous-dossier excalidraw. Si désactivé, les dessins ne sont pas modifiés et les notes n’utilisent que leurs images exportées.'
+            },
+            followTransclusions: {
+                name: 'Suivre les notes intégrées',
+                desc: "Si une note n'a pas d'image propre, en chercher une dans les notes et sections qu'elle intègre avec ![[Note]], ![[Note#Titre]] ou ![[Note#^bloc]]."
+            },
+            maxTransclusionDepth: {
+                name: "Profondeur d'intégration",
+                desc: "Nombre de niveaux d'intégrations imbriquées à suivre."
+            },
+            renderMermaidDiagrams: {
+                name: 'Rendre les diagrammes Mermaid',
+                desc: 'Lorsqu’une note n’a pas d’image, son premier bloc de code mermaid est rendu et utilisé comme image vedette. Les diagrammes sont enregistrés dans le sous-dossier mermaid et ne sont rendus à nouveau que lorsqu’ils changent.'
+            },
+            inheritFromFolderNote: {
+                name: 'Hériter de la note de dossier',
+                desc: "Si une note n'a pas d'image, utiliser l'image mise en avant de sa note de dossier (Dossier/Dossier.md ou Dossier.md à côté du dossier)."
+            },
+            inheritFromProperties: {
+                name: 'Hériter des propriétés',
+                desc: "Propriétés frontmatter séparées par des virgules qui pointent vers une note parente, par ex. up, parent. Si une note n'a pas d'image, l'image mise en avant de la première note liée qui en a une est utilisée."
+            },
+            inheritFromLinks: {
+                name: 'Hériter des liens',
+                desc: "Si une note n'a pas d'image, utiliser l'image mise en avant du premier lien sortant qui en a une."
+            },
+            inheritedFromProperty: {
+                name: 'Propriété d’origine héritée',
+                desc: 'Propriété du frontmatter qui pointe vers la note dont provient une image vedette héritée. Les images héritées ne sont jamais renvoyées à cette note, de sorte que des notes liées entre elles ne conservent pas une image supprimée.'
+            },
+            generateTitleCards: {
+                name: 'Générer des cartes de titre',
+                desc: "Si une note n'a pas d'image, générer une carte de titre SVG avec le titre de la note, la première étiquette et une couleur dérivée du chemin de la note, et l'utiliser comme image mise en avant. Les cartes sont enregistrées dans le sous-dossier generated."
+            },
+            titleCardTemplate: {
+                name: 'Modèle de carte de titre',
+                desc: 'Modèle SVG des cartes de titre. Espaces réservés : {{title}}, {{folder}}, {{tags}}, {{tag}} (première étiquette), {{color}} et {{colorDark}}. Laisser vide pour utiliser le modèle par défaut.'
+            },
+            defaultImageRules: {
+                name: "Règles d'image par défaut",
+                desc: "Utilise une image fixe pour les notes correspondant à une étiquette (comme #book) ou à un motif de chemin (comme Meetings/**). Les règles sont vérifiées de haut en bas. Activez l'interrupteur pour utiliser l'image même si la note en contient une.",
+                addRule: 'Ajouter une règle',
+                matchPlaceholder: '#étiquette ou Dossier/**',
+                imagePlaceholder: 'assets/image.png',
+                override: 'Toujours utiliser cette image',
+                moveUp: 'Monter',
+                moveDown: 'Descendre',
+                remove: 'Supprimer la règle'
+            },
+            minImageWidth: {
+                name: "Largeur minimale de l'image",
+                desc: 'Les images plus étroites que ce nombre de pixels sont ignorées. Mettre à 0 pour désactiver.'
+            },
+            minImageHeight: {
+                name: "Hauteur minimale de l'image",
+                desc: 'Les images moins hautes que ce nombre de pixels sont ignorées. Mettre à 0 pour désactiver.'
+            },
+            minImageFileSizeKb: {
+                name: 'Taille de fichier minimale',
+                desc: 'Les images de moins de ce nombre de kilo-octets sont ignorées, par exemple les pixels de suivi. Mettre à 0 pour désactiver.'
+            },
+            ignoredImagePatterns: {
+                name: "Motifs d'images ignorées",
+                desc: "Les images dont le chemin dans le coffre ou l'URL correspond à l'un de ces motifs sont ignorées. Un motif par ligne : globs (* et **) ou expressions régulières écrites /expression/."
+            },
             debugMode: {
                 name: 'Mode débogage',
                 desc: 'Activer le mode débogage pour enregistrer des informations détaillées dans la console.'
@@ -95,6 +95,10 @@ export const STRINGS_JA = {
                 name: 'フロントマター画像ソースプロパティ',
                 desc: 'ドキュメントをスキャンする前に、画像パス/URL をチェックするフロントマタープロパティ名（カンマ区切り）。文字列と YAML リストに対応。'
             },
+            pageUrlProperties: {
+                name: 'ページ URL プロパティ',
+                desc: 'Web クリッパーが書き込む source など、Web ページの URL を含むフロントマタープロパティのカンマ区切りリスト。ページを取得し、そのメイン画像（og:image）をダウンロードします。画像ソースプロパティの後に確認されます。'
+            },
             onlyUpdateExisting: {
                 name: 'フロントマタープロパティが存在する場合のみ更新',
                 desc: 'これを有効にすると、フロントマタープロパティが既に存在する場合のみ更新されます。'
@@ -107,9 +111,29 @@ export const STRINGS_JA = {
                 name: '既存のプロパティをクリアしない',
                 desc: '有効にすると、ドキュメントに画像が見つからない場合、既存のアイキャッチ画像プロパティを保持します。無効にすると、画像が検出されない場合、プロパティをクリアまたは削除します（「空のプロパティを保持」設定に依存）。'
             },
+            videoIdProperty: {
+                name: '動画 ID プロパティ',
+                desc: 'アイキャッチ画像が YouTube または Vimeo のサムネイルの場合に動画 ID を書き込むフロントマタープロパティ（例：video_id）。空欄の場合は無効です。'
+            },
+            videoStartProperty: {
+                name: '動画開始時間プロパティ',
+                desc: 'YouTube リンクの開始時間（t または start パラメーター）を秒単位で書き込むフロントマタープロパティ（例：video_start）。空欄の場合は無効です。'
+            },
+            videoTitleProperty: {
+                name: '動画タイトルプロパティ',
+                desc: 'アイキャッチ画像の YouTube または Vimeo 動画のタイトルを書き込むフロントマタープロパティ（例：video_title）。タイトルはサムネイルフォルダーにキャッシュされます。空欄の場合は無効です。'
+            },
+            videoAuthorProperty: {
+                name: '動画作成者プロパティ',
+                desc: 'アイキャッチ画像の YouTube または Vimeo 動画のチャンネル名または投稿者を書き込むフロントマタープロパティ（例：video_author）。空欄の場合は無効です。'
+            },
+            videoUrlProperty: {
+                name: '動画 URL プロパティ',
+                desc: 'アイキャッチ画像の YouTube または Vimeo 動画へのリンクを書き込むフロントマタープロパティ（例：video_url）。空欄の場合は無効です。'
+            },
             requireExclamationForYouTube: {
                 name: 'YouTubeサムネイルに感嘆符が必要',
-                desc: '有効にすると、感嘆符が前に付いたYouTubeリンクのみがサムネイルダウンロードの対象となります。'
+                desc: '有効にすると、感嘆符が前に付いたYouTubeおよびその他の動画リンクのみがサムネイルダウンロードの対象となります。'
             },
             downloadExternalImages: {
                 name: '外部画像をサムネイルフォルダにダウンロード',
@@ -119,6 +143,128 @@ export const STRINGS_JA = {
                 name: 'YouTubeサムネイルをダウンロード',
                 desc: 'YouTubeサムネイルをローカルに保存します。無効にすると、アイキャッチ画像の選択時にYouTubeリンクをスキップします。'
             },
+            downloadVimeoThumbnails: {
+                name: 'Vimeoサムネイルをダウンロード',
+                desc: 'Vimeoサムネイルをローカルに保存します。無効にすると、アイキャッチ画像の選択時にVimeoリンクをスキップします。'
+            },
+            downloadDailymotionThumbnails: {
+                name: 'Dailymotionサムネイルをダウンロード',
+                desc: 'Dailymotionサムネイルをローカルに保存します。無効にすると、アイキャッチ画像の選択時にDailymotionリンクをスキップします。'
+            },
+            downloadLoomThumbnails: {
+                name: 'Loomサムネイルをダウンロード',
+                desc: 'Loomサムネイルをローカルに保存します。無効にすると、アイキャッチ画像の選択時にLoomリンクをスキップします。'
+            },
+            downloadTwitchThumbnails: {
+                name: 'Twitchサムネイルをダウンロード',
+                desc: 'Twitchサムネイルをローカルに保存します。無効にすると、アイキャッチ画像の選択時にTwitchリンクをスキップします。'
+            },
+            extractOpenGraphImages: {
+                name: 'URL のみのリンクにページ画像を使用',
+                desc: 'ノートに他の画像がない場合、https:// のみのリンク先の Web ページを取得し、その Open Graph（og:image）、Twitter カード、または image_src の画像を使用します。外部画像のダウンロードが必要です。'
+            },
+            detectionMode: {
+                name: '検出モード',
+                desc: 'ノート内の画像の検出方法。メタデータキャッシュモードでは Obsidian が解析した埋め込みとリンクを使用するため、拡張子なしでリンクされた添付ファイルも検出できます。ノート本文はリモート画像、YouTube リンク、Auto Card Link の検出時のみ読み込まれます。',
+                options: {
+                    content: 'ノートの内容をスキャン',
+                    metadata: 'メタデータキャッシュを使用'
+                }
+            },
+            selectionStrategy: {
+                name: '画像の選択',
+                desc: 'ノートに複数の画像がある場合にどの画像をアイキャッチ画像にするか。最初と最後以外の方式は画像サイズを比較するため、ノート内のすべての画像が解決されます（外部画像もダウンロードされます）。featured としてマークされた画像は常に優先されます。',
+                options: {
+                    first: '最初の画像',
+                    last: '最後の画像',
+                    largest: '最も大きい画像',
+                    aspectRatio: 'サムネイルの縦横比に最も近い画像',
+                    best: '最適な画像（アイコンやバッジを除外）'
+                }
+            },
+            renderPdfPages: {
+                name: 'PDF ページを描画',
+                desc: '![[paper.pdf]] のように埋め込まれた PDF の最初のページ、または #page=N で指定したページを描画してアイキャッチ画像として使用します。描画時に PDF 全体が読み込まれます。ページは pdf サブフォルダに保存されます。'
+            },
+            captureVideoFrames: {
+                name: '動画フレームをキャプチャ',
+                desc: '![[clip.mp4]] のように埋め込まれたローカル動画のフレームをキャプチャしてアイキャッチ画像として使用します。キャプチャ時に動画全体が読み込まれます。フレームは video サブフォルダに保存されます。'
+            },
+            videoFrameOffset: {
+                name: '動画フレームの位置',
+                desc: '![[clip.mp4]] のように埋め込まれたローカル動画で、アイキャッチ画像として取り込むフレームの位置（秒）。これより短い動画では中央のフレームを使用します。'
+            },
+            extractAudioCovers: {
+                name: '音声ファイルのカバーアートを抽出',
+                desc: '![[episode.mp3]] のような音声ファイルに埋め込まれたカバーアートをアイキャッチ画像として使用します。カバーを探すために音声ファイル全体が読み込まれます。カバーは audio サブフォルダに保存されます。'
+            },
+            renderExcalidrawDrawings: {
+                name: 'Excalidraw の図を描画',
+                desc: 'Excalidraw の図にエクスポートされた PNG または SVG を、その図自体のアイキャッチ画像として設定します。図の隣にエクスポートがない場合は、Excalidraw プラグイン（インストールされている場合）でプレビューを描画し、excalidraw サブフォルダに保存します。オフの場合、図は変更されず、ノートはエクスポートされた画像のみを使用します。'
+            },
+            followTransclusions: {
+                name: '埋め込みノートをたどる',
+                desc: 'ノート自体に画像がない場合、![[ノート]]、![[ノート#見出し]]、![[ノート#^ブロック]] で埋め込まれたノートやセクションから画像を探します。'
+            },
+            maxTransclusionDepth: {
+                name: '埋め込みの深さ',
+                desc: 'たどるネストされた埋め込みの階層数。'
+            },
+            renderMermaidDiagrams: {
+                name: 'Mermaid ダイアグラムを描画',
+                desc: 'ノートに画像がない場合、最初の mermaid コードブロックを描画してアイキャッチ画像として使用します。ダイアグラムは mermaid サブフォルダに保存され、変更されたときだけ再描画されます。'
+            },
+            inheritFromFolderNote: {
+                name: 'フォルダーノートから継承',
+                desc: 'ノートに画像がない場合、フォルダーノート（フォルダー/フォルダー.md またはフォルダーと同じ階層のフォルダー.md）のアイキャッチ画像を使用します。'
+            },
+            inheritFromProperties: {
+                name: 'プロパティから継承',
+                desc: '親ノートへのリンクを含むフロントマタープロパティ（カンマ区切り、例：up, parent）。ノートに画像がない場合、画像を持つ最初のリンク先ノートのアイキャッチ画像を使用します。'
+            },
+            inheritFromLinks: {
+                name: 'リンクから継承',
+                desc: 'ノートに画像がない場合、画像を持つ最初の発リンク先のアイキャッチ画像を使用します。'
+            },
+            inheritedFromProperty: {
+                name: '継承元プロパティ',
+                desc: '継承したアイキャッチ画像の元のノートへのリンクを記録するフロントマターのプロパティ。継承した画像はそのノートに戻されないため、互いにリンクするノートが削除された画像を保持し続けることはありません。'
+            },
+            generateTitleCards: {
+                name: 'タイトルカードを生成',
+                desc: 'ノートに画像がない場合、ノートのタイトル、最初のタグ、ノートのパスから導いた色を使った SVG タイトルカードを生成し、アイキャッチ画像として使用します。カードは generated サブフォルダーに保存されます。'
+            },
+            titleCardTemplate: {
+                name: 'タイトルカードのテンプレート',
+                desc: 'タイトルカードの SVG テンプレート。プレースホルダー：{{title}}、{{folder}}、{{tags}}、{{tag}}（最初のタグ）、{{color}}、{{colorDark}}。空欄の場合は既定のテンプレートを使用します。'
+            },
+            defaultImageRules: {
+                name: 'デフォルト画像ルール',
+                desc: 'タグ（例：#book）またはパスパターン（例：Meetings/**）に一致するノートに固定の画像を使用します。ルールは上から順に確認されます。トグルを有効にすると、ノートに画像が含まれていてもこの画像を使用します。',
+                addRule: 'ルールを追加',
+                matchPlaceholder: '#タグ または フォルダ/**',
+                imagePlaceholder: 'assets/image.png',
+                override: '常にこの画像を使用',
+                moveUp: '上へ移動',
+                moveDown: '下へ移動',
+                remove: 'ルールを削除'
+            },
+            minImageWidth: {
+                name: '最小画像幅',
+                desc: 'この幅（ピクセル）未満の画像はスキップされます。0 で無効になります。'
+            },
+            minImageHeight: {
+                name: '最小画像高さ',
+                desc: 'この高さ（ピクセル）未満の画像はスキップされます。0 で無効になります。'
+            },
+            minImageFileSizeKb: {
+                name: '最小ファイルサイズ',
+                desc: 'このサイズ（KB）未満の画像（トラッキングピクセルなど）はスキップされます。0 で無効になります。'
+            },
+            ignoredImagePatterns: {
+                name: '無視する画像パターン',
+                desc: '保管庫内のパスまたは URL がいずれかのパターンに一致する画像はスキップされます。1 行に 1 パターン：glob（* と **）、または /式/ 形式の正規表現。'
+            },
             debugMode: {
                 name: 'デバッグモード',
                 desc: 'デバッグモードを有効にして、コンソールに詳細情報をログ出力します。'
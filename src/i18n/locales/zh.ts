@@ -95,6 +95,10 @@ export const STRINGS_ZH = {
                 name: 'Frontmatter 图片来源属性',
                 desc: '在扫描文档之前，用于检查图片路径/URL 的 frontmatter 属性名称（逗号分隔）。支持字符串和 YAML 列表。'
             },
+            pageUrlProperties: {
+                name: '页面 URL 属性',
+                desc: '以逗号分隔的包含网页 URL 的 frontmatter 属性列表，例如网页剪藏工具写入的 source。将获取该页面并下载其主图（og:image）。在图片来源属性之后检查。'
+            },
             onlyUpdateExisting: {
                 name: '仅在 frontmatter 属性存在时更新',
                 desc: '启用此选项以仅在 frontmatter 属性已存在时更新它。'
@@ -107,9 +111,29 @@ export const STRINGS_ZH = {
                 name: '不清除现有属性',
                 desc: '启用后，如果在文档中找不到图片，则保留现有的特色图片属性。禁用后，当未检测到图片时清除或删除属性（取决于"保留空属性"设置）。'
             },
+            videoIdProperty: {
+                name: '视频 ID 属性',
+                desc: '当特色图片是 YouTube 或 Vimeo 缩略图时，写入视频 ID 的 frontmatter 属性，例如 video_id。留空则禁用。'
+            },
+            videoStartProperty: {
+                name: '视频开始时间属性',
+                desc: '写入 YouTube 链接开始时间（t 或 start 参数，单位为秒）的 frontmatter 属性，例如 video_start。留空则禁用。'
+            },
+            videoTitleProperty: {
+                name: '视频标题属性',
+                desc: '写入特色图片对应 YouTube 或 Vimeo 视频标题的 frontmatter 属性，例如 video_title。标题会缓存在缩略图文件夹中。留空则禁用。'
+            },
+            videoAuthorProperty: {
+                name: '视频作者属性',
+                desc: '写入特色图片对应 YouTube 或 Vimeo 视频频道或上传者的 frontmatter 属性，例如 video_author。留空则禁用。'
+            },
+            videoUrlProperty: {
+                name: '视频 URL 属性',
+                desc: '写入特色图片对应 YouTube 或 Vimeo 视频链接的 frontmatter 属性，例如 video_url。留空则禁用。'
+            },
             requireExclamationForYouTube: {
                 name: 'YouTube 缩略图需要感叹号',
-                desc: '如果启用，只有带有感叹号前缀的 YouTube 链接才会被考虑用于缩略图下载。'
+                desc: '如果启用，只有带有感叹号前缀的 YouTube 及其他视频链接才会被考虑用于缩略图下载。'
             },
             downloadExternalImages: {
                 name: '将外部图片下载到缩略图文件夹',
@@ -119,6 +143,128 @@ export const STRINGS_ZH = {
                 name: '下载 YouTube 缩略图',
                 desc: '将 YouTube 缩略图存储在本地。禁用后，在选择特色图片时跳过 YouTube 链接。'
             },
+            downloadVimeoThumbnails: {
+                name: '下载 Vimeo 缩略图',
+                desc: '将 Vimeo 缩略图存储在本地。禁用后，在选择特色图片时跳过 Vimeo 链接。'
+            },
+            downloadDailymotionThumbnails: {
+                name: '下载 Dailymotion 缩略图',
+                desc: '将 Dailymotion 缩略图存储在本地。禁用后，在选择特色图片时跳过 Dailymotion 链接。'
+            },
+            downloadLoomThumbnails: {
+                name: '下载 Loom 缩略图',
+                desc: '将 Loom 缩略图存储在本地。禁用后，在选择特色图片时跳过 Loom 链接。'
+            },
+            downloadTwitchThumbnails: {
+                name: '下载 Twitch 缩略图',
+                desc: '将 Twitch 缩略图存储在本地。禁用后，在选择特色图片时跳过 Twitch 链接。'
+            },
+            extractOpenGraphImages: {
+                name: '为纯链接使用页面图片',
+                desc: '当笔记没有其他图片时，获取以纯 https:// 链接链接的网页，并使用其 Open Graph（og:image）、Twitter 卡片或 image_src 图片。需要启用下载外部图片。'
+            },
+            detectionMode: {
+                name: '检测模式',
+                desc: '在笔记中查找图片的方式。元数据缓存模式使用 Obsidian 解析的嵌入和链接，因此也能找到不带扩展名链接的附件，并且只在查找远程图片、YouTube 链接和 Auto Card Link 时读取笔记内容。',
+                options: {
+                    content: '扫描笔记内容',
+                    metadata: '使用元数据缓存'
+                }
+            },
+            selectionStrategy: {
+                name: '图片选择',
+                desc: '当笔记包含多张图片时选择哪一张作为特色图片。除第一张和最后一张以外的策略会比较图片尺寸，因此会解析笔记中的每张图片（并下载外部图片）。标记为 featured 的图片始终优先。',
+                options: {
+                    first: '第一张图片',
+                    last: '最后一张图片',
+                    largest: '最大的图片',
+                    aspectRatio: '最接近缩略图宽高比',
+                    best: '最佳匹配（跳过图标和徽章）'
+                }
+            },
+            renderPdfPages: {
+                name: '渲染 PDF 页面',
+                desc: '渲染 ![[paper.pdf]] 等嵌入 PDF 的第一页或 #page=N 指定的页面，并用作特色图片。渲染时会读取整个 PDF。页面保存在 pdf 子文件夹中。'
+            },
+            captureVideoFrames: {
+                name: '截取视频帧',
+                desc: '截取 ![[clip.mp4]] 等嵌入本地视频的一帧并用作特色图片。截取时会读取整个视频。帧保存在 video 子文件夹中。'
+            },
+            videoFrameOffset: {
+                name: '视频帧位置',
+                desc: '在 ![[clip.mp4]] 等嵌入的本地视频中截取特色图片所用帧的位置（秒）。短于该时长的视频使用中间的帧。'
+            },
+            extractAudioCovers: {
+                name: '提取音频封面',
+                desc: '将 ![[episode.mp3]] 等音频文件中嵌入的封面用作特色图片。查找封面时会读取整个音频文件。封面保存在 audio 子文件夹中。'
+            },
+            renderExcalidrawDrawings: {
+                name: '渲染 Excalidraw 绘图',
+                desc: '将 Excalidraw 绘图导出的 PNG 或 SVG 设置为绘图自身的特色图片。当绘图旁边没有导出文件时，使用 Excalidraw 插件（如已安装）渲染预览并保存在 excalidraw 子文件夹中。关闭时，绘图保持不变，笔记仅使用其导出的图片。'
+            },
+            followTransclusions: {
+                name: '跟随嵌入的笔记',
+                desc: '当笔记本身没有图片时，在通过 ![[笔记]]、![[笔记#标题]] 或 ![[笔记#^块]] 嵌入的笔记和段落中查找图片。'
+            },
+            maxTransclusionDepth: {
+                name: '嵌入深度',
+                desc: '跟随的嵌套嵌入层数。'
+            },
+            renderMermaidDiagrams: {
+                name: '渲染 Mermaid 图表',
+                desc: '当笔记没有图片时，渲染其第一个 mermaid 代码块并用作特色图片。图表保存在 mermaid 子文件夹中，仅在更改时重新渲染。'
+            },
+            inheritFromFolderNote: {
+                name: '从文件夹笔记继承',
+                desc: '当笔记没有图片时，使用其文件夹笔记（文件夹/文件夹.md 或文件夹旁的 文件夹.md）的特色图片。'
+            },
+            inheritFromProperties: {
+                name: '从属性继承',
+                desc: '以逗号分隔的、链接到父笔记的 frontmatter 属性，例如 up, parent。当笔记没有图片时，使用第一个带有特色图片的链接笔记的图片。'
+            },
+            inheritFromLinks: {
+                name: '从链接继承',
+                desc: '当笔记没有图片时，使用第一个带有特色图片的出链笔记的图片。'
+            },
+            inheritedFromProperty: {
+                name: '继承来源属性',
+                desc: '记录继承的特色图片来自哪篇笔记的 frontmatter 属性（链接）。继承的图片不会再传回该笔记，因此相互链接的笔记不会保留已删除的图片。'
+            },
+            generateTitleCards: {
+                name: '生成标题卡片',
+                desc: '当笔记没有图片时，生成包含笔记标题、第一个标签和由笔记路径派生颜色的 SVG 标题卡片，并将其用作特色图片。卡片保存在 generated 子文件夹中。'
+            },
+            titleCardTemplate: {
+                name: '标题卡片模板',
+                desc: '标题卡片的 SVG 模板。占位符：{{title}}、{{folder}}、{{tags}}、{{tag}}（第一个标签）、{{color}} 和 {{colorDark}}。留空则使用默认模板。'
+            },
+            defaultImageRules: {
+                name: '默认图片规则',
+                desc: '为匹配标签（如 #book）或路径模式（如 Meetings/**）的笔记使用固定图片。规则按从上到下的顺序检查。启用开关后，即使笔记包含图片也使用此图片。',
+                addRule: '添加规则',
+                matchPlaceholder: '#标签 或 文件夹/**',
+                imagePlaceholder: 'assets/image.png',
+                override: '始终使用此图片',
+                moveUp: '上移',
+                moveDown: '下移',
+                remove: '删除规则'
+            },
+            minImageWidth: {
+                name: '最小图片宽度',
+                desc: '宽度小于此像素值的图片将被跳过。设为 0 表示禁用。'
+            },
+            minImageHeight: {
+                name: '最小图片高度',
+                desc: '高度小于此像素值的图片将被跳过。设为 0 表示禁用。'
+            },
+            minImageFileSizeKb: {
+                name: '最小文件大小',
+                desc: '小于此千字节数的图片（例如跟踪像素）将被跳过。设为 0 表示禁用。'
+            },
+            ignoredImagePatterns: {
+                name: '忽略的图片模式',
+                desc: '仓库路径或 URL 匹配任一模式的图片将被跳过。每行一个模式：glob（* 和 **），或写作 /表达式/ 的正则表达式。'
+            },
             debugMode: {
                 name: '调试模式',
                 desc: '启用调试模式以在控制台中记录详细信息。'
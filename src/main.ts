@@ -9,17 +9,33 @@ import { DEFAULT_SETTINGS, FeaturedImageSettings, FeaturedImageSettingsTab, SUPP
 import { ConfirmationModal } from './modals';
 import { strings } from './i18n';
 import { FeatureScanner } from './features/feature-scanner';
+import { getDefaultImage } from './features/default-image-rules';
+import { createDefaultImageSourceRegistry } from './features/providers';
+import type { ImageSourceProvider } from './features/providers';
 import { ThumbnailService } from './thumbnails/thumbnail-service';
+import { ExcalidrawService } from './thumbnails/excalidraw-service';
+import { MermaidService } from './thumbnails/mermaid-service';
+import { PdfPageService } from './thumbnails/pdf-page-service';
+import { TitleCardService } from './thumbnails/title-card-service';
+import { VideoFrameService } from './thumbnails/video-frame-service';
+import { getImageRejection, isFailedDownloadMarker, isIgnoredImageSource } from './features/image-filters';
 import { ImageMaintenanceService } from './features/image-maintenance';
+import { OpenGraphService } from './features/open-graph';
+import { VideoDetailsService } from './features/video-details';
 
 // Utilities
 import type { Logger } from './utils/logging';
-import { applyMediaProperty } from './utils/frontmatter';
-import { md5 } from './utils/hash';
+import { applyMediaProperty, applyVideoMetadata } from './utils/frontmatter';
+import type { VideoMetadata } from './utils/frontmatter';
+import { readAudioCover } from './utils/audio-cover';
+import { decodeImageDataUri } from './utils/data-uri';
+import { md5, md5Binary } from './utils/hash';
+import { readImageSize } from './utils/image-size';
 import { createDebugLogger, createErrorLogger } from './utils/logging';
 import { restoreMtimeWithOffset } from './utils/mtime';
 import { isTFile as isTFileGuard } from './utils/obsidian';
 import { isValidHttpsUrl } from './utils/urls';
+import { findYouTubeLink } from './utils/youtube';
 
 /**
  * FeaturedImage plugin for Obsidian.
@@ -29,12 +45,24 @@ export default class FeaturedImage extends Plugin {
     settings: FeaturedImageSettings;
     private isRunningBulkUpdate: boolean = false;
     private updatingFiles: Set<string> = new Set();
+    // Remote images rejected by the size filters, keyed by URL and filter values, so they are not downloaded again
+    private rejectedImageDownloads: Set<string> = new Set();
+    // Notes whose feature was just changed, mapped to their previous feature, until the metadata cache catches up
+    private pendingInheritanceUpdates: Map<string, string | undefined> = new Map();
     private debugLogger: Logger = createDebugLogger(false);
     private errorLogger: Logger = createErrorLogger();
     private isFirstInstall: boolean = false;
 
     private featureScanner: FeatureScanner;
+    private imageSources = createDefaultImageSourceRegistry();
     private thumbnailService: ThumbnailService;
+    private titleCardService: TitleCardService;
+    private pdfPageService: PdfPageService;
+    private videoFrameService: VideoFrameService;
+    private excalidrawService: ExcalidrawService;
+    private mermaidService: MermaidService;
+    private openGraphService: OpenGraphService;
+    private videoDetailsService: VideoDetailsService;
     private imageMaintenance: ImageMaintenanceService;
 
     // Placeholder image data for failed downloads (1x1 transparent PNG)
@@ -69,9 +97,53 @@ export default class FeaturedImage extends Plugin {
             errorLog: this.errorLog.bind(this)
         });
 
+        this.titleCardService = new TitleCardService(this.app, this.settings, {
+            debugLog: this.debugLog.bind(this),
+            errorLog: this.errorLog.bind(this)
+        });
+
+        this.pdfPageService = new PdfPageService(this.app, this.settings, {
+            debugLog: this.debugLog.bind(this),
+            errorLog: this.errorLog.bind(this)
+        });
+
+        this.videoFrameService = new VideoFrameService(this.app, this.settings, {
+            debugLog: this.debugLog.bind(this),
+            errorLog: this.errorLog.bind(this)
+        });
+
+        this.excalidrawService = new ExcalidrawService(this.app, this.settings, {
+            debugLog: this.debugLog.bind(this),
+            errorLog: this.errorLog.bind(this)
+        });
+
+        this.mermaidService = new MermaidService(this.app, this.settings, {
+            debugLog: this.debugLog.bind(this),
+            errorLog: this.errorLog.bind(this)
+        });
+
+        this.videoDetailsService = new VideoDetailsService(this.app, this.settings, {
+            debugLog: this.debugLog.bind(this),
+            errorLog: this.errorLog.bind(this)
+        });
+
+        this.openGraphService = new OpenGraphService({
+            debugLog: this.debugLog.bind(this),
+            errorLog: this.errorLog.bind(this)
+        });
+
         this.featureScanner = new FeatureScanner(this.app, this.settings, {
+            imageSources: this.imageSources,
             downloadExternalImage: this.downloadExternalImage.bind(this),
             downloadYoutubeThumbnail: this.downloadThumbnail.bind(this),
+            downloadVideoThumbnail: this.downloadVideoThumbnail.bind(this),
+            saveInlineImage: this.saveInlineImage.bind(this),
+            renderPdfPage: (pdfPath, page) => this.pdfPageService.renderPage(pdfPath, page),
+            captureVideoFrame: videoPath => this.videoFrameService.captureFrame(videoPath),
+            extractAudioCover: this.extractAudioCover.bind(this),
+            getExcalidrawImage: drawingPath => this.excalidrawService.getDrawingImage(drawingPath),
+            renderMermaidDiagram: source => this.mermaidService.renderDiagram(source),
+            getPageImageUrl: pageUrl => this.openGraphService.getPageImageUrl(pageUrl),
             debugLog: this.debugLog.bind(this),
             errorLog: this.errorLog.bind(this)
         });
@@ -79,6 +151,8 @@ export default class FeaturedImage extends Plugin {
         this.imageMaintenance = new ImageMaintenanceService(this.app, this.settings, {
             featureScanner: this.featureScanner,
             thumbnailService: this.thumbnailService,
+            titleCardService: this.titleCardService,
+            videoFrameService: this.videoFrameService,
             debugLog: this.debugLog.bind(this),
             errorLog: this.errorLog.bind(this),
             trashFileAtPath: this.trashFileAtPath.bind(this)
@@ -149,6 +223,17 @@ export default class FeaturedImage extends Plugin {
             })
         );
 
+        // Update notes inheriting the featured image of a note once its new feature is in the metadata cache
+        this.registerEvent(
+            this.app.metadataCache.on('changed', file => {
+                if (this.pendingInheritanceUpdates.has(file.path)) {
+                    const previousFeature = this.pendingInheritanceUpdates.get(file.path);
+                    this.pendingInheritanceUpdates.delete(file.path);
+                    void this.updateInheritingNotes(file, previousFeature);
+                }
+            })
+        );
+
         this.addSettingTab(new FeaturedImageSettingsTab(this.app, this));
 
         // Defer "What's new" modal until the layout is ready to avoid blocking startup UI
@@ -189,6 +274,19 @@ export default class FeaturedImage extends Plugin {
      */
     onunload() {}
 
+    /**
+     * Registers an image source provider. Intended for other plugins that want to contribute
+     * their own image sources; built-in providers always take precedence on ties.
+     * A provider with the id of another plugin's provider replaces it, but the ids of built-in providers are reserved.
+     * @param {ImageSourceProvider} provider - Provider to register.
+     * @returns {() => void} Function that unregisters the provider.
+     * @throws {Error} When the id belongs to a built-in provider.
+     */
+    registerImageSourceProvider(provider: ImageSourceProvider): () => void {
+        this.debugLog('Registering image source provider:', provider.id);
+        return this.imageSources.register(provider);
+    }
+
     /**
      * Loads the plugin settings.
      */
@@ -205,6 +303,24 @@ export default class FeaturedImage extends Plugin {
         if (this.thumbnailService) {
             this.thumbnailService.setSettings(this.settings);
         }
+        if (this.titleCardService) {
+            this.titleCardService.setSettings(this.settings);
+        }
+        if (this.pdfPageService) {
+            this.pdfPageService.setSettings(this.settings);
+        }
+        if (this.videoFrameService) {
+            this.videoFrameService.setSettings(this.settings);
+        }
+        if (this.excalidrawService) {
+            this.excalidrawService.setSettings(this.settings);
+        }
+        if (this.mermaidService) {
+            this.mermaidService.setSettings(this.settings);
+        }
+        if (this.videoDetailsService) {
+            this.videoDetailsService.setSettings(this.settings);
+        }
         if (this.imageMaintenance) {
             this.imageMaintenance.setSettings(this.settings);
         }
@@ -289,6 +405,24 @@ export default class FeaturedImage extends Plugin {
         if (this.thumbnailService) {
             this.thumbnailService.setSettings(this.settings);
         }
+        if (this.titleCardService) {
+            this.titleCardService.setSettings(this.settings);
+        }
+        if (this.pdfPageService) {
+            this.pdfPageService.setSettings(this.settings);
+        }
+        if (this.videoFrameService) {
+            this.videoFrameService.setSettings(this.settings);
+        }
+        if (this.excalidrawService) {
+            this.excalidrawService.setSettings(this.settings);
+        }
+        if (this.mermaidService) {
+            this.mermaidService.setSettings(this.settings);
+        }
+        if (this.videoDetailsService) {
+            this.videoDetailsService.setSettings(this.settings);
+        }
         if (this.imageMaintenance) {
             this.imageMaintenance.setSettings(this.settings);
         }
@@ -323,10 +457,25 @@ export default class FeaturedImage extends Plugin {
             return false;
         }
 
+        // Drawings use their own image, never default images or title cards; the scene data stored in the note is not scanned
+        const isDrawing = this.excalidrawService.isDrawing(file);
+        const defaultImage = isDrawing ? undefined : getDefaultImage(this.app, file, this.settings.defaultImageRules);
         let newFeature = await this.featureScanner.getFeatureFromFrontmatterSources(file);
+        let inheritedFrom: TFile | undefined = undefined;
+        if (!newFeature && defaultImage?.override) {
+            newFeature = defaultImage.path;
+        }
+        if (!newFeature && isDrawing) {
+            newFeature = await this.excalidrawService.getDrawingImage(file.path);
+        } else if (!newFeature) {
+            newFeature = await this.featureScanner.getFeatureFromNote(file, currentFeature);
+            inheritedFrom = this.featureScanner.getInheritanceSource(file);
+        }
         if (!newFeature) {
-            const fileContent = await this.app.vault.cachedRead(file);
-            newFeature = await this.featureScanner.getFeatureFromDocument(fileContent, file, currentFeature);
+            newFeature = defaultImage?.path;
+        }
+        if (!newFeature && !isDrawing) {
+            newFeature = await this.titleCardService.createTitleCard(file);
         }
 
         // Generate thumbnail if feature image has changed and thumbnails are enabled
@@ -363,9 +512,24 @@ export default class FeaturedImage extends Plugin {
         const thumbnailChanged = newThumbnail
             ? !this.featureScanner.isFrontmatterPathEqual(currentThumbnailInfo, newThumbnail)
             : Boolean(currentThumbnailInfo?.rawValue);
+        const videoMetadata = this.hasVideoMetadataProperties()
+            ? await this.getVideoMetadata(file, finalNewFeature, currentFeature)
+            : undefined;
+        const videoMetadataChanged = videoMetadata !== undefined && this.isVideoMetadataChanged(file, videoMetadata);
+        const inheritedFromChanged = this.featureScanner.getStoredInheritanceSource(file)?.path !== inheritedFrom?.path;
+
+        if (featureChanged || thumbnailChanged || videoMetadataChanged || inheritedFromChanged) {
+            if (
+                featureChanged &&
+                this.settings.runAutomaticallyWhileEditing &&
+                this.isInheritanceEnabled() &&
+                !this.isRunningBulkUpdate &&
+                !this.settings.dryRun
+            ) {
+                this.pendingInheritanceUpdates.set(file.path, currentFeature);
+            }
 
-        if (featureChanged || thumbnailChanged) {
-            await this.updateFrontmatter(file, finalNewFeature, newThumbnail);
+            await this.updateFrontmatter(file, finalNewFeature, newThumbnail, videoMetadata, inheritedFrom);
 
             // Delete orphaned thumbnail after updating frontmatter
             if (oldThumbnailToDelete) {
@@ -380,6 +544,127 @@ export default class FeaturedImage extends Plugin {
         return false;
     }
 
+    /**
+     * Checks whether video metadata is written to frontmatter.
+     * @returns {boolean} True when any video property is configured.
+     */
+    private hasVideoMetadataProperties(): boolean {
+        return Boolean(
+            this.settings.videoIdProperty ||
+                this.settings.videoStartProperty ||
+                this.settings.videoTitleProperty ||
+                this.settings.videoAuthorProperty ||
+                this.settings.videoUrlProperty
+        );
+    }
+
+    /**
+     * Collects the details of a featured YouTube or Vimeo thumbnail. The start time is read from the first link
+     * to the video in the note; title and author are looked up through oEmbed when their properties are configured.
+     * @param {TFile} file - The note being processed.
+     * @param {string | undefined} feature - The new featured image.
+     * @param {string | undefined} currentFeature - The featured image before the update.
+     * @returns {Promise<VideoMetadata | undefined>} Video details; empty to clear the properties written for a previous
+     * video feature, or undefined to leave them untouched when neither feature is a video, as they may be the user's own.
+     */
+    private async getVideoMetadata(
+        file: TFile,
+        feature: string | undefined,
+        currentFeature: string | undefined
+    ): Promise<VideoMetadata | undefined> {
+        const host = this.getVideoHost(feature);
+        if (!host || !feature) {
+            return this.getVideoHost(currentFeature) ? {} : undefined;
+        }
+
+        const videoId = feature.slice(feature.lastIndexOf('/') + 1).replace(/\.[^.]+$/, '');
+        const content = await this.app.vault.cachedRead(file);
+        const metadata: VideoMetadata = { videoId };
+
+        if (host === 'youtube') {
+            metadata.start = findYouTubeLink(content, videoId)?.start;
+            metadata.url = `https://www.youtube.com/watch?v=${videoId}`;
+        } else {
+            // Unlisted Vimeo videos are only reachable through the link that includes their hash
+            const vimeoLink = new RegExp(`https?:\\/\\/(?:[\\w-]+\\.)*vimeo\\.com\\/[^\\s)<>"'\\]]*?\\b${videoId}\\b[^\\s)<>"'\\]]*`, 'i');
+            metadata.url = vimeoLink.exec(content)?.[0] ?? `https://vimeo.com/${videoId}`;
+        }
+
+        if (this.settings.videoTitleProperty || this.settings.videoAuthorProperty) {
+            const details = await this.videoDetailsService.getVideoDetails(host, videoId, metadata.url);
+            metadata.title = details.title;
+            metadata.author = details.author;
+        }
+        return metadata;
+    }
+
+    /**
+     * Returns the host of a downloaded YouTube or Vimeo thumbnail.
+     * @param {string | undefined} feature - A featured image path.
+     * @returns {'youtube' | 'vimeo' | undefined} The video host, or undefined when the image is not a video thumbnail.
+     */
+    private getVideoHost(feature: string | undefined): 'youtube' | 'vimeo' | undefined {
+        if (!feature || isFailedDownloadMarker(feature)) {
+            return undefined;
+        }
+        return (['youtube', 'vimeo'] as const).find(id =>
+            feature.startsWith(`${normalizePath(`${this.settings.thumbnailsFolder}/${id}`)}/`)
+        );
+    }
+
+    /**
+     * Compares video metadata with the values currently stored in frontmatter.
+     * @param {TFile} file - The note being processed.
+     * @param {VideoMetadata} metadata - The new video metadata.
+     * @returns {boolean} True when a configured property needs to be written or removed.
+     */
+    private isVideoMetadataChanged(file: TFile, metadata: VideoMetadata): boolean {
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+        const entries: [string, string | number | undefined][] = [
+            [this.settings.videoIdProperty, metadata.videoId],
+            [this.settings.videoStartProperty, metadata.start],
+            [this.settings.videoTitleProperty, metadata.title],
+            [this.settings.videoAuthorProperty, metadata.author],
+            [this.settings.videoUrlProperty, metadata.url]
+        ];
+        return entries.some(([property, value]) => {
+            if (!property) {
+                return false;
+            }
+            const current: unknown = frontmatter[property];
+            return value === undefined ? current !== undefined : String(current) !== String(value);
+        });
+    }
+
+    /**
+     * Checks whether notes without an image may inherit the feature of a related note.
+     * @returns {boolean} True when any inheritance source is enabled.
+     */
+    private isInheritanceEnabled(): boolean {
+        return this.settings.inheritFromFolderNote || this.settings.inheritFromProperties.length > 0 || this.settings.inheritFromLinks;
+    }
+
+    /**
+     * Updates notes that inherited the previous feature of a note, or had no feature at all.
+     * Notes with an image of their own keep it, since their feature is recomputed from their content.
+     * @param {TFile} parent - The note whose feature changed.
+     * @param {string | undefined} previousFeature - The note's feature before the change.
+     */
+    private async updateInheritingNotes(parent: TFile, previousFeature: string | undefined): Promise<void> {
+        if (!this.featureScanner) {
+            return;
+        }
+
+        for (const file of this.featureScanner.getInheritingNotes(parent)) {
+            const featureInfo = this.featureScanner.getFrontmatterImageInfo(file, this.settings.frontmatterProperty);
+            const mayInherit = !featureInfo?.rawValue || this.featureScanner.isFrontmatterPathEqual(featureInfo, previousFeature);
+            if (mayInherit && !this.updatingFiles.has(file.path)) {
+                this.debugLog('Updating inherited featured image:', file.path, 'from', parent.path);
+                await this.setFeaturedImage(file);
+            }
+        }
+    }
+
     /**
      * Get the current featured image from the file's frontmatter.
      * @param {TFile} file - The file to check.
@@ -418,14 +703,12 @@ export default class FeaturedImage extends Plugin {
      * @returns {boolean} True if the file should be skipped, false otherwise.
      */
     private shouldSkipProcessing(file: TFile): boolean {
-        const cache = this.app.metadataCache.getFileCache(file);
-        const tags = cache?.frontmatter?.tags ?? [];
-
-        // Skip processing if the file has the 'excalidraw' tag
-        if (tags.includes('excalidraw')) {
+        // Excalidraw drawings are only processed when the user opts in
+        if (!this.settings.renderExcalidrawDrawings && this.excalidrawService.isDrawing(file)) {
             return true;
         }
 
+        const cache = this.app.metadataCache.getFileCache(file);
         const propertyExists = this.settings.frontmatterProperty in (cache?.frontmatter || {});
         const folderIsExcluded = this.settings.excludedFolders.some((folder: string) => file.path.startsWith(`${folder}/`));
 
@@ -445,6 +728,11 @@ export default class FeaturedImage extends Plugin {
             return undefined;
         }
 
+        if (isIgnoredImageSource(imageUrl, this.settings)) {
+            this.debugLog('Skipping download of image matching an ignore pattern:', imageUrl);
+            return undefined;
+        }
+
         // Normalize folder path
         const downloadFolder = normalizePath(`${this.settings.thumbnailsFolder}/${subfolder}`);
 
@@ -455,27 +743,20 @@ export default class FeaturedImage extends Plugin {
             return undefined;
         }
 
+        // Images rejected by the size filters are not downloaded again until the filters change
+        const rejectionKey = `${imageUrl}|${this.settings.minImageWidth}|${this.settings.minImageHeight}|${this.settings.minImageFileSizeKb}`;
+        if (this.rejectedImageDownloads.has(rejectionKey)) {
+            this.debugLog('Skipping previously rejected image:', imageUrl);
+            return undefined;
+        }
+
         // Check if we already have a failed download marker for this URL
         const failedMarkerPath = `${downloadFolder}/${hashedFilename}.failed.png`;
-        if (await this.app.vault.adapter.exists(failedMarkerPath)) {
-            // Check if the failed marker is less than 12 hours old
-            const stats = await this.app.vault.adapter.stat(failedMarkerPath);
-            if (!stats) return undefined;
-            const markerAge = Date.now() - stats.mtime;
-            const twelveHours = 12 * 60 * 60 * 1000;
-
-            // If the marker is more than 12 hours old, remove it and try again
-            if (markerAge < twelveHours) {
-                this.debugLog('Skipping recently failed download:', imageUrl);
-                // Returning the marker path is intentional: callers may store it in frontmatter to avoid
-                // repeatedly retrying a broken/removed remote URL until the user clears the property.
-                return failedMarkerPath;
-            }
-            this.debugLog('Retrying old failed download:', imageUrl);
-            const removed = await this.trashFileAtPath(failedMarkerPath);
-            if (!removed) {
-                this.debugLog('Failed to remove old failed marker via trash:', failedMarkerPath);
-            }
+        if (await this.hasRecentFailedMarker(failedMarkerPath)) {
+            this.debugLog('Skipping recently failed download:', imageUrl);
+            // Returning the marker path is intentional: callers may store it in frontmatter to avoid
+            // repeatedly retrying a broken/removed remote URL until the user clears the property.
+            return failedMarkerPath;
         }
 
         if (this.settings.dryRun) {
@@ -512,6 +793,17 @@ export default class FeaturedImage extends Plugin {
                 throw new Error(`Unknown Content-Type for image: ${contentType ?? 'missing'}`);
             }
 
+            // Reject images below the minimum size without saving them
+            const rejection = getImageRejection(
+                { size: readImageSize(response.arrayBuffer), fileSize: response.arrayBuffer.byteLength },
+                this.settings
+            );
+            if (rejection) {
+                this.debugLog(`Skipping download of ${imageUrl}: ${rejection}`);
+                this.rejectedImageDownloads.add(rejectionKey);
+                return undefined;
+            }
+
             const downloadPath = `${downloadFolder}/${hashedFilename}.${extension}`;
 
             // Save the image
@@ -519,14 +811,150 @@ export default class FeaturedImage extends Plugin {
             return downloadPath;
         } catch (error) {
             this.errorLog('Failed to download image, error:', error);
+            return await this.writeFailedMarker(failedMarkerPath);
+        }
+    }
 
-            try {
-                await this.app.vault.adapter.writeBinary(failedMarkerPath, FeaturedImage.FAILED_IMAGE_DATA.buffer);
-                return failedMarkerPath;
-            } catch (writeError) {
-                this.errorLog('Failed to write placeholder image:', writeError);
+    /**
+     * Checks for a marker left by a failed download. Markers older than 12 hours are removed so the download is retried.
+     * @param {string} failedMarkerPath - Path of the `.failed.png` marker.
+     * @returns {Promise<boolean>} True when the download failed recently and must not be retried yet.
+     */
+    private async hasRecentFailedMarker(failedMarkerPath: string): Promise<boolean> {
+        if (!(await this.app.vault.adapter.exists(failedMarkerPath))) {
+            return false;
+        }
+
+        // Check if the failed marker is less than 12 hours old
+        const stats = await this.app.vault.adapter.stat(failedMarkerPath);
+        if (!stats) return true;
+        const markerAge = Date.now() - stats.mtime;
+        const twelveHours = 12 * 60 * 60 * 1000;
+
+        // If the marker is more than 12 hours old, remove it and try again
+        if (markerAge < twelveHours) {
+            return true;
+        }
+        this.debugLog('Retrying old failed download:', failedMarkerPath);
+        const removed = await this.trashFileAtPath(failedMarkerPath);
+        if (!removed) {
+            this.debugLog('Failed to remove old failed marker via trash:', failedMarkerPath);
+        }
+        return false;
+    }
+
+    /**
+     * Writes the placeholder image marking a failed download.
+     * @param {string} failedMarkerPath - Path of the `.failed.png` marker.
+     * @returns {Promise<string | undefined>} The marker path, or undefined if it could not be written.
+     */
+    private async writeFailedMarker(failedMarkerPath: string): Promise<string | undefined> {
+        try {
+            await this.app.vault.adapter.writeBinary(failedMarkerPath, FeaturedImage.FAILED_IMAGE_DATA.buffer);
+            return failedMarkerPath;
+        } catch (writeError) {
+            this.errorLog('Failed to write placeholder image:', writeError);
+            return undefined;
+        }
+    }
+
+    /**
+     * Saves an image embedded as a `data:` URI to the `inline` subfolder. Files are named after the MD5 hash
+     * of their content, so the same image pasted into several notes is stored once.
+     * @param {string} dataUri - The data URI, e.g. `data:image/png;base64,...`.
+     * @returns {Promise<string | undefined>} The path to the saved image.
+     */
+    private async saveInlineImage(dataUri: string): Promise<string | undefined> {
+        const image = decodeImageDataUri(dataUri);
+        const extension = image ? this.getExtensionFromContentType(image.mimeType) : undefined;
+        if (!image || !extension) {
+            this.debugLog('Skipping unsupported data URI:', dataUri.slice(0, 50));
+            return undefined;
+        }
+
+        const rejection = getImageRejection({ size: readImageSize(image.data), fileSize: image.data.byteLength }, this.settings);
+        if (rejection) {
+            this.debugLog(`Skipping inline image: ${rejection}`);
+            return undefined;
+        }
+
+        const inlineFolder = normalizePath(`${this.settings.thumbnailsFolder}/inline`);
+        const imagePath = `${inlineFolder}/${md5Binary(image.data)}.${extension}`;
+
+        if (this.settings.dryRun) {
+            this.debugLog('Dry run: Skipping inline image extraction, using mock path');
+            return imagePath;
+        }
+
+        try {
+            if (await this.app.vault.adapter.exists(imagePath)) {
+                return imagePath;
+            }
+            if (!(await this.app.vault.adapter.exists(inlineFolder))) {
+                await this.app.vault.adapter.mkdir(inlineFolder);
+            }
+            await this.app.vault.adapter.writeBinary(imagePath, image.data);
+            return imagePath;
+        } catch (error) {
+            this.errorLog('Failed to save inline image:', error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Saves the cover art embedded in an audio file to the `audio` subfolder. Files are named after the audio path
+     * and modification time, so the audio file is only read again when it changes.
+     * @param {string} audioPath - Vault path of the audio file.
+     * @returns {Promise<string | undefined>} The path to the saved cover, or undefined if disabled or the file has none.
+     */
+    private async extractAudioCover(audioPath: string): Promise<string | undefined> {
+        if (!this.settings.extractAudioCovers) {
+            return undefined;
+        }
+
+        const file = this.app.vault.getAbstractFileByPath(normalizePath(audioPath));
+        if (!isTFileGuard(file)) {
+            this.errorLog('Audio file not found:', audioPath);
+            return undefined;
+        }
+
+        const audioFolder = normalizePath(`${this.settings.thumbnailsFolder}/audio`);
+        const hashedName = `${md5(file.path)}_${md5(String(file.stat.mtime)).substring(0, 8)}`;
+
+        try {
+            const existingFile = await this.findExistingImageFile(audioFolder, hashedName);
+            if (existingFile) {
+                return existingFile;
+            }
+
+            const cover = readAudioCover(await this.app.vault.adapter.readBinary(file.path));
+            const extension = cover ? this.getExtensionFromContentType(cover.mimeType) : undefined;
+            if (!cover || !extension) {
+                this.debugLog('No supported cover art found in', file.path);
+                return undefined;
+            }
+
+            const rejection = getImageRejection({ size: readImageSize(cover.data), fileSize: cover.data.byteLength }, this.settings);
+            if (rejection) {
+                this.debugLog(`Skipping cover art of ${file.path}: ${rejection}`);
                 return undefined;
             }
+
+            const imagePath = `${audioFolder}/${hashedName}.${extension}`;
+            if (this.settings.dryRun) {
+                this.debugLog('Dry run: Skipping cover art extraction, using mock path');
+                return imagePath;
+            }
+
+            if (!(await this.app.vault.adapter.exists(audioFolder))) {
+                await this.app.vault.adapter.mkdir(audioFolder);
+            }
+            await this.app.vault.adapter.writeBinary(imagePath, cover.data);
+            this.debugLog('Extracted cover art of', file.path, 'to', imagePath);
+            return imagePath;
+        } catch (error) {
+            this.errorLog('Failed to extract cover art:', file.path, error);
+            return undefined;
         }
     }
 
@@ -584,7 +1012,11 @@ export default class FeaturedImage extends Plugin {
             'image/gif': 'gif',
             'image/webp': 'webp',
             'image/svg+xml': 'svg',
-            'image/avif': 'avif'
+            'image/avif': 'avif',
+            'image/bmp': 'bmp',
+            'image/tiff': 'tiff',
+            'image/x-icon': 'ico',
+            'image/vnd.microsoft.icon': 'ico'
         };
 
         // Handle potential parameters in Content-Type (e.g., "image/jpeg; charset=utf-8")
@@ -638,8 +1070,16 @@ export default class FeaturedImage extends Plugin {
      * @param {TFile} file - The file to update.
      * @param {string | undefined} newFeature - The new featured image.
      * @param {string | undefined} newThumbnail - The new thumbnail image.
+     * @param {VideoMetadata | undefined} videoMetadata - Video details to write, or undefined to leave video properties untouched.
+     * @param {TFile | undefined} inheritedFrom - The note the new feature was inherited from, if any.
      */
-    private async updateFrontmatter(file: TFile, newFeature: string | undefined, newThumbnail: string | undefined = undefined) {
+    private async updateFrontmatter(
+        file: TFile,
+        newFeature: string | undefined,
+        newThumbnail: string | undefined = undefined,
+        videoMetadata: VideoMetadata | undefined = undefined,
+        inheritedFrom: TFile | undefined = undefined
+    ) {
         if (!this.isRunningBulkUpdate) {
             this.updatingFiles.add(file.path);
         }
@@ -670,6 +1110,24 @@ export default class FeaturedImage extends Plugin {
                             keepEmpty: this.settings.keepEmptyProperty
                         });
                     }
+
+                    if (videoMetadata) {
+                        applyVideoMetadata(frontmatter, videoMetadata, {
+                            videoId: this.settings.videoIdProperty,
+                            start: this.settings.videoStartProperty,
+                            title: this.settings.videoTitleProperty,
+                            author: this.settings.videoAuthorProperty,
+                            url: this.settings.videoUrlProperty
+                        });
+                    }
+
+                    // Record where an inherited feature comes from, so it is not inherited back by that note
+                    if (inheritedFrom) {
+                        frontmatter[this.settings.inheritedFromProperty] =
+                            `[[${this.app.metadataCache.fileToLinktext(inheritedFrom, file.path)}]]`;
+                    } else {
+                        delete frontmatter[this.settings.inheritedFromProperty];
+                    }
                 });
 
                 if (!this.isRunningBulkUpdate && this.settings.showNotificationsOnUpdate) {
@@ -688,11 +1146,13 @@ export default class FeaturedImage extends Plugin {
 
     /**
      * Downloads a YouTube video thumbnail.
+     * Shorts try the vertical thumbnail variants first, since the regular ones are letterboxed 16:9 frames.
      * @param {string} videoId - The YouTube video ID.
      * @param {string | undefined} currentFeature - The current featured image.
+     * @param {boolean} isShort - Whether the video is a vertical Short.
      * @returns {Promise<string | undefined>} The path to the downloaded thumbnail.
      */
-    async downloadThumbnail(videoId: string, currentFeature: string | undefined): Promise<string | undefined> {
+    async downloadThumbnail(videoId: string, currentFeature: string | undefined, isShort = false): Promise<string | undefined> {
         if (!this.settings.downloadYoutubeThumbnails) {
             return undefined;
         }
@@ -725,6 +1185,12 @@ export default class FeaturedImage extends Plugin {
         }
 
         const candidates: { quality: string; extension: 'webp' | 'jpg' }[] = [
+            ...(isShort
+                ? [
+                      { quality: 'oardefault.jpg', extension: 'jpg' as const },
+                      { quality: 'oar2.jpg', extension: 'jpg' as const }
+                  ]
+                : []),
             { quality: 'maxresdefault.webp', extension: 'webp' },
             { quality: 'maxresdefault.jpg', extension: 'jpg' },
             { quality: 'sddefault.jpg', extension: 'jpg' },
@@ -754,6 +1220,66 @@ export default class FeaturedImage extends Plugin {
         return undefined;
     }
 
+    /**
+     * Downloads the thumbnail of a video from a host other than YouTube.
+     * Thumbnails are stored as `<subfolder>/<videoId>.<extension>` so each video is downloaded once. Failed lookups
+     * leave a `.failed.png` marker, like external images, and are retried after 12 hours.
+     * @param {string} subfolder - Thumbnails subfolder of the video host.
+     * @param {string} videoId - The video ID on the host.
+     * @param {() => Promise<string | undefined>} getThumbnailUrl - Looks up the thumbnail URL, e.g. through oEmbed.
+     * @returns {Promise<string | undefined>} The path to the downloaded thumbnail.
+     */
+    async downloadVideoThumbnail(
+        subfolder: string,
+        videoId: string,
+        getThumbnailUrl: () => Promise<string | undefined>
+    ): Promise<string | undefined> {
+        const videoFolder = normalizePath(`${this.settings.thumbnailsFolder}/${subfolder}`);
+        const filename = videoId.replace(/[^\w-]/g, '_');
+
+        const existingPath = await this.findExistingImageFile(videoFolder, filename);
+        if (existingPath) {
+            return existingPath;
+        }
+
+        // Videos that were removed or made private are not looked up again on every scan
+        const failedMarkerPath = `${videoFolder}/${filename}.failed.png`;
+        if (await this.hasRecentFailedMarker(failedMarkerPath)) {
+            this.debugLog(`Skipping recently failed thumbnail of ${subfolder} video ${videoId}`);
+            return failedMarkerPath;
+        }
+
+        if (this.settings.dryRun) {
+            this.debugLog('Dry run: Skipping thumbnail download, using mock path');
+            return `${videoFolder}/${filename}.jpg`; // Return a mock path
+        }
+
+        try {
+            if (!(await this.app.vault.adapter.exists(videoFolder))) {
+                await this.app.vault.adapter.mkdir(videoFolder);
+            }
+
+            const thumbnailUrl = await getThumbnailUrl();
+            if (!thumbnailUrl || !this.isValidUrl(thumbnailUrl)) {
+                throw new Error('No thumbnail URL found');
+            }
+
+            const response = await requestUrl({ url: thumbnailUrl, method: 'GET' });
+            const contentType = this.getHeaderValue(response.headers, 'content-type');
+            const extension = this.getExtensionFromContentType(contentType);
+            if (!extension) {
+                throw new Error(`Unknown Content-Type for thumbnail: ${contentType ?? 'missing'}`);
+            }
+
+            const targetPath = `${videoFolder}/${filename}.${extension}`;
+            await this.app.vault.adapter.writeBinary(targetPath, response.arrayBuffer);
+            return targetPath;
+        } catch (error) {
+            this.errorLog(`Thumbnail for ${subfolder} video ${videoId} could not be downloaded:`, error);
+            return await this.writeFailedMarker(failedMarkerPath);
+        }
+    }
+
     /**
      * Fetches a YouTube thumbnail.
      * @param {string} videoId - The YouTube video ID.
@@ -985,7 +1511,7 @@ export default class FeaturedImage extends Plugin {
         const currentThumbnail = this.getThumbnailFromFrontmatter(file);
 
         this.debugLog('FEATURE REMOVED\n- File: ', file.path);
-        await this.updateFrontmatter(file, undefined, undefined);
+        await this.updateFrontmatter(file, undefined, undefined, this.hasVideoMetadataProperties() ? {} : undefined);
 
         // Delete orphaned thumbnail after removing from frontmatter
         if (currentThumbnail) {
@@ -21,14 +21,46 @@ export interface FeaturedImageSettings {
 
     // Advanced settings
     frontmatterImageSourceProperties: string[];
+    pageUrlProperties: string[];
     mediaLinkFormat: 'plain' | 'wiki' | 'embed';
     useMediaLinks: boolean; // TODO: Remove in the future, it has been replaced by mediaLinkFormat
     onlyUpdateExisting: boolean;
     keepEmptyProperty: boolean;
     preserveTemplateImages: boolean;
+    videoIdProperty: string;
+    videoStartProperty: string;
+    videoTitleProperty: string;
+    videoAuthorProperty: string;
+    videoUrlProperty: string;
     requireExclamationForYouTube: boolean;
     downloadExternalImages: boolean;
     downloadYoutubeThumbnails: boolean;
+    downloadVimeoThumbnails: boolean;
+    downloadDailymotionThumbnails: boolean;
+    downloadLoomThumbnails: boolean;
+    downloadTwitchThumbnails: boolean;
+    extractOpenGraphImages: boolean;
+    detectionMode: 'content' | 'metadata';
+    selectionStrategy: 'first' | 'last' | 'largest' | 'aspectRatio' | 'best';
+    renderPdfPages: boolean;
+    captureVideoFrames: boolean;
+    videoFrameOffset: number;
+    extractAudioCovers: boolean;
+    renderExcalidrawDrawings: boolean;
+    minImageWidth: number;
+    minImageHeight: number;
+    minImageFileSizeKb: number;
+    ignoredImagePatterns: string[];
+    followTransclusions: boolean;
+    maxTransclusionDepth: number;
+    renderMermaidDiagrams: boolean;
+    inheritFromFolderNote: boolean;
+    inheritFromProperties: string[];
+    inheritFromLinks: boolean;
+    inheritedFromProperty: string;
+    generateTitleCards: boolean;
+    titleCardTemplate: string;
+    defaultImageRules: DefaultImageRule[];
     debugMode: boolean;
     dryRun: boolean;
 
@@ -36,7 +68,30 @@ export interface FeaturedImageSettings {
     lastShownVersion: string;
 }
 
-export const SUPPORTED_IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'avif'] as const;
+export interface DefaultImageRule {
+    match: string; // Tag such as `#book`, or a glob or regular expression matched against the note path
+    image: string; // Vault path of the image to use
+    override: boolean; // Use the image even when the note contains one
+}
+
+export const SUPPORTED_IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'avif', 'bmp', 'tiff', 'tif', 'ico'] as const;
+
+export const SUPPORTED_VIDEO_EXTENSIONS = ['mp4', 'webm', 'mov', 'm4v', 'ogv', 'mkv'] as const;
+
+export const SUPPORTED_AUDIO_EXTENSIONS = ['mp3', 'm4a', 'm4b', 'flac'] as const;
+
+export const DEFAULT_TITLE_CARD_TEMPLATE = `<svg xmlns="http://www.w3.org/2000/svg" width="800" height="450" viewBox="0 0 800 450">
+  <defs>
+    <linearGradient id="background" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0" stop-color="{{color}}"/>
+      <stop offset="1" stop-color="{{colorDark}}"/>
+    </linearGradient>
+  </defs>
+  <rect width="800" height="450" fill="url(#background)"/>
+  <text x="48" y="80" font-family="sans-serif" font-size="24" fill="#ffffff" fill-opacity="0.7">{{folder}}</text>
+  <text x="48" y="250" font-family="sans-serif" font-size="52" font-weight="bold" fill="#ffffff">{{title}}</text>
+  <text x="48" y="400" font-family="sans-serif" font-size="28" fill="#ffffff" fill-opacity="0.85">{{tag}}</text>
+</svg>`;
 
 export const DEFAULT_SETTINGS: FeaturedImageSettings = {
     // Basic settings (always visible)
@@ -57,14 +112,46 @@ export const DEFAULT_SETTINGS: FeaturedImageSettings = {
 
     // Advanced settings
     frontmatterImageSourceProperties: [],
+    pageUrlProperties: [],
     mediaLinkFormat: 'plain',
     useMediaLinks: false, // TODO: Remove in the future, it has been replaced by mediaLinkFormat
     onlyUpdateExisting: false,
     keepEmptyProperty: false,
     preserveTemplateImages: false,
+    videoIdProperty: '',
+    videoStartProperty: '',
+    videoTitleProperty: '',
+    videoAuthorProperty: '',
+    videoUrlProperty: '',
     requireExclamationForYouTube: true,
     downloadExternalImages: true,
     downloadYoutubeThumbnails: true,
+    downloadVimeoThumbnails: true,
+    downloadDailymotionThumbnails: true,
+    downloadLoomThumbnails: true,
+    downloadTwitchThumbnails: true,
+    extractOpenGraphImages: false,
+    detectionMode: 'content',
+    selectionStrategy: 'first',
+    renderPdfPages: false,
+    captureVideoFrames: false,
+    videoFrameOffset: 1,
+    extractAudioCovers: false,
+    renderExcalidrawDrawings: false,
+    minImageWidth: 0,
+    minImageHeight: 0,
+    minImageFileSizeKb: 0,
+    ignoredImagePatterns: [],
+    followTransclusions: false,
+    maxTransclusionDepth: 2,
+    renderMermaidDiagrams: false,
+    inheritFromFolderNote: false,
+    inheritFromProperties: [],
+    inheritFromLinks: false,
+    inheritedFromProperty: 'inheritedFrom',
+    generateTitleCards: false,
+    titleCardTemplate: '',
+    defaultImageRules: [],
     debugMode: false,
     dryRun: false,
 
@@ -267,6 +354,27 @@ export class FeaturedImageSettingsTab extends PluginSettingTab {
                 );
         });
 
+        // Page URL properties
+        frontmatterGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.pageUrlProperties.name)
+                .setDesc(strings.settings.items.pageUrlProperties.desc)
+                .addTextArea(text =>
+                    text
+                        .setPlaceholder('source, url')
+                        .setValue(this.plugin.settings.pageUrlProperties.join(','))
+                        .onChange(async value => {
+                            const parsed = value
+                                .split(',')
+                                .map(property => property.trim())
+                                .filter(Boolean);
+
+                            this.plugin.settings.pageUrlProperties = Array.from(new Set(parsed));
+                            await this.plugin.saveSettings();
+                        })
+                );
+        });
+
         // Media link format
         frontmatterGroup.addSetting(setting => {
             setting
@@ -325,6 +433,86 @@ export class FeaturedImageSettingsTab extends PluginSettingTab {
                 });
         });
 
+        // Video ID property
+        frontmatterGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.videoIdProperty.name)
+                .setDesc(strings.settings.items.videoIdProperty.desc)
+                .addText(text =>
+                    text
+                        .setPlaceholder('video_id')
+                        .setValue(this.plugin.settings.videoIdProperty)
+                        .onChange(async value => {
+                            this.plugin.settings.videoIdProperty = value.trim();
+                            await this.plugin.saveSettings();
+                        })
+                );
+        });
+
+        // Video start property
+        frontmatterGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.videoStartProperty.name)
+                .setDesc(strings.settings.items.videoStartProperty.desc)
+                .addText(text =>
+                    text
+                        .setPlaceholder('video_start')
+                        .setValue(this.plugin.settings.videoStartProperty)
+                        .onChange(async value => {
+                            this.plugin.settings.videoStartProperty = value.trim();
+                            await this.plugin.saveSettings();
+                        })
+                );
+        });
+
+        // Video title property
+        frontmatterGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.videoTitleProperty.name)
+                .setDesc(strings.settings.items.videoTitleProperty.desc)
+                .addText(text =>
+                    text
+                        .setPlaceholder('video_title')
+                        .setValue(this.plugin.settings.videoTitleProperty)
+                        .onChange(async value => {
+                            this.plugin.settings.videoTitleProperty = value.trim();
+                            await this.plugin.saveSettings();
+                        })
+                );
+        });
+
+        // Video author property
+        frontmatterGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.videoAuthorProperty.name)
+                .setDesc(strings.settings.items.videoAuthorProperty.desc)
+                .addText(text =>
+                    text
+                        .setPlaceholder('video_author')
+                        .setValue(this.plugin.settings.videoAuthorProperty)
+                        .onChange(async value => {
+                            this.plugin.settings.videoAuthorProperty = value.trim();
+                            await this.plugin.saveSettings();
+                        })
+                );
+        });
+
+        // Video URL property
+        frontmatterGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.videoUrlProperty.name)
+                .setDesc(strings.settings.items.videoUrlProperty.desc)
+                .addText(text =>
+                    text
+                        .setPlaceholder('video_url')
+                        .setValue(this.plugin.settings.videoUrlProperty)
+                        .onChange(async value => {
+                            this.plugin.settings.videoUrlProperty = value.trim();
+                            await this.plugin.saveSettings();
+                        })
+                );
+        });
+
         const externalMediaGroup = createGroup(strings.settings.headings.externalMedia);
 
         // Download external images
@@ -353,6 +541,58 @@ export class FeaturedImageSettingsTab extends PluginSettingTab {
                 );
         });
 
+        // Download Vimeo thumbnails
+        externalMediaGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.downloadVimeoThumbnails.name)
+                .setDesc(strings.settings.items.downloadVimeoThumbnails.desc)
+                .addToggle(toggle =>
+                    toggle.setValue(this.plugin.settings.downloadVimeoThumbnails).onChange(async value => {
+                        this.plugin.settings.downloadVimeoThumbnails = value;
+                        await this.plugin.saveSettings();
+                    })
+                );
+        });
+
+        // Download Dailymotion thumbnails
+        externalMediaGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.downloadDailymotionThumbnails.name)
+                .setDesc(strings.settings.items.downloadDailymotionThumbnails.desc)
+                .addToggle(toggle =>
+                    toggle.setValue(this.plugin.settings.downloadDailymotionThumbnails).onChange(async value => {
+                        this.plugin.settings.downloadDailymotionThumbnails = value;
+                        await this.plugin.saveSettings();
+                    })
+                );
+        });
+
+        // Download Loom thumbnails
+        externalMediaGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.downloadLoomThumbnails.name)
+                .setDesc(strings.settings.items.downloadLoomThumbnails.desc)
+                .addToggle(toggle =>
+                    toggle.setValue(this.plugin.settings.downloadLoomThumbnails).onChange(async value => {
+                        this.plugin.settings.downloadLoomThumbnails = value;
+                        await this.plugin.saveSettings();
+                    })
+                );
+        });
+
+        // Download Twitch thumbnails
+        externalMediaGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.downloadTwitchThumbnails.name)
+                .setDesc(strings.settings.items.downloadTwitchThumbnails.desc)
+                .addToggle(toggle =>
+                    toggle.setValue(this.plugin.settings.downloadTwitchThumbnails).onChange(async value => {
+                        this.plugin.settings.downloadTwitchThumbnails = value;
+                        await this.plugin.saveSettings();
+                    })
+                );
+        });
+
         // Require exclamation mark for YouTube thumbnails
         externalMediaGroup.addSetting(setting => {
             setting
@@ -366,6 +606,19 @@ export class FeaturedImageSettingsTab extends PluginSettingTab {
                 );
         });
 
+        // Extract Open Graph images
+        externalMediaGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.extractOpenGraphImages.name)
+                .setDesc(strings.settings.items.extractOpenGraphImages.desc)
+                .addToggle(toggle =>
+                    toggle.setValue(this.plugin.settings.extractOpenGraphImages).onChange(async value => {
+                        this.plugin.settings.extractOpenGraphImages = value;
+                        await this.plugin.saveSettings();
+                    })
+                );
+        });
+
         const resizeThumbnailGroup = createGroup(strings.settings.headings.resizeThumbnail, 'resize-thumbnail-settings');
 
         // Resize feature image
@@ -482,6 +735,416 @@ export class FeaturedImageSettingsTab extends PluginSettingTab {
 
         const advancedGroup = createGroup(strings.settings.headings.advanced, 'advanced-settings');
 
+        // Detection mode
+        advancedGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.detectionMode.name)
+                .setDesc(strings.settings.items.detectionMode.desc)
+                .addDropdown(dropdown =>
+                    dropdown
+                        .addOption('content', strings.settings.items.detectionMode.options.content)
+                        .addOption('metadata', strings.settings.items.detectionMode.options.metadata)
+                        .setValue(this.plugin.settings.detectionMode)
+                        .onChange(async value => {
+                            this.plugin.settings.detectionMode = value as 'content' | 'metadata';
+                            await this.plugin.saveSettings();
+                        })
+                );
+        });
+
+        // Selection strategy
+        advancedGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.selectionStrategy.name)
+                .setDesc(strings.settings.items.selectionStrategy.desc)
+                .addDropdown(dropdown =>
+                    dropdown
+                        .addOption('first', strings.settings.items.selectionStrategy.options.first)
+                        .addOption('last', strings.settings.items.selectionStrategy.options.last)
+                        .addOption('largest', strings.settings.items.selectionStrategy.options.largest)
+                        .addOption('aspectRatio', strings.settings.items.selectionStrategy.options.aspectRatio)
+                        .addOption('best', strings.settings.items.selectionStrategy.options.best)
+                        .setValue(this.plugin.settings.selectionStrategy)
+                        .onChange(async value => {
+                            this.plugin.settings.selectionStrategy = value as FeaturedImageSettings['selectionStrategy'];
+                            await this.plugin.saveSettings();
+                        })
+                );
+        });
+
+        // Render PDF pages
+        advancedGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.renderPdfPages.name)
+                .setDesc(strings.settings.items.renderPdfPages.desc)
+                .addToggle(toggle =>
+                    toggle.setValue(this.plugin.settings.renderPdfPages).onChange(async value => {
+                        this.plugin.settings.renderPdfPages = value;
+                        await this.plugin.saveSettings();
+                    })
+                );
+        });
+
+        // Capture video frames
+        advancedGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.captureVideoFrames.name)
+                .setDesc(strings.settings.items.captureVideoFrames.desc)
+                .addToggle(toggle =>
+                    toggle.setValue(this.plugin.settings.captureVideoFrames).onChange(async value => {
+                        this.plugin.settings.captureVideoFrames = value;
+                        await this.plugin.saveSettings();
+                    })
+                );
+        });
+
+        // Video frame offset
+        advancedGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.videoFrameOffset.name)
+                .setDesc(strings.settings.items.videoFrameOffset.desc)
+                .addText(text =>
+                    text
+                        .setPlaceholder(String(DEFAULT_SETTINGS.videoFrameOffset))
+                        .setValue(String(this.plugin.settings.videoFrameOffset))
+                        .onChange(async value => {
+                            const parsed = parseFloat(value);
+                            this.plugin.settings.videoFrameOffset =
+                                Number.isNaN(parsed) || parsed < 0 ? DEFAULT_SETTINGS.videoFrameOffset : parsed;
+                            await this.plugin.saveSettings();
+                        })
+                );
+        });
+
+        // Extract audio cover art
+        advancedGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.extractAudioCovers.name)
+                .setDesc(strings.settings.items.extractAudioCovers.desc)
+                .addToggle(toggle =>
+                    toggle.setValue(this.plugin.settings.extractAudioCovers).onChange(async value => {
+                        this.plugin.settings.extractAudioCovers = value;
+                        await this.plugin.saveSettings();
+                    })
+                );
+        });
+
+        // Render Excalidraw drawings
+        advancedGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.renderExcalidrawDrawings.name)
+                .setDesc(strings.settings.items.renderExcalidrawDrawings.desc)
+                .addToggle(toggle =>
+                    toggle.setValue(this.plugin.settings.renderExcalidrawDrawings).onChange(async value => {
+                        this.plugin.settings.renderExcalidrawDrawings = value;
+                        await this.plugin.saveSettings();
+                    })
+                );
+        });
+
+        // Follow transclusions
+        advancedGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.followTransclusions.name)
+                .setDesc(strings.settings.items.followTransclusions.desc)
+                .addToggle(toggle =>
+                    toggle.setValue(this.plugin.settings.followTransclusions).onChange(async value => {
+                        this.plugin.settings.followTransclusions = value;
+                        await this.plugin.saveSettings();
+                    })
+                );
+        });
+
+        // Max transclusion depth
+        advancedGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.maxTransclusionDepth.name)
+                .setDesc(strings.settings.items.maxTransclusionDepth.desc)
+                .addText(text =>
+                    text
+                        .setPlaceholder(String(DEFAULT_SETTINGS.maxTransclusionDepth))
+                        .setValue(String(this.plugin.settings.maxTransclusionDepth))
+                        .onChange(async value => {
+                            const parsed = parseInt(value, 10);
+                            this.plugin.settings.maxTransclusionDepth =
+                                Number.isNaN(parsed) || parsed < 1 ? DEFAULT_SETTINGS.maxTransclusionDepth : parsed;
+                            await this.plugin.saveSettings();
+                        })
+                );
+        });
+
+        // Render Mermaid diagrams
+        advancedGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.renderMermaidDiagrams.name)
+                .setDesc(strings.settings.items.renderMermaidDiagrams.desc)
+                .addToggle(toggle =>
+                    toggle.setValue(this.plugin.settings.renderMermaidDiagrams).onChange(async value => {
+                        this.plugin.settings.renderMermaidDiagrams = value;
+                        await this.plugin.saveSettings();
+                    })
+                );
+        });
+
+        // Inherit from folder note
+        advancedGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.inheritFromFolderNote.name)
+                .setDesc(strings.settings.items.inheritFromFolderNote.desc)
+                .addToggle(toggle =>
+                    toggle.setValue(this.plugin.settings.inheritFromFolderNote).onChange(async value => {
+                        this.plugin.settings.inheritFromFolderNote = value;
+                        await this.plugin.saveSettings();
+                    })
+                );
+        });
+
+        // Inherit from properties
+        advancedGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.inheritFromProperties.name)
+                .setDesc(strings.settings.items.inheritFromProperties.desc)
+                .addTextArea(text =>
+                    text
+                        .setPlaceholder('up, parent')
+                        .setValue(this.plugin.settings.inheritFromProperties.join(','))
+                        .onChange(async value => {
+                            const parsed = value
+                                .split(',')
+                                .map(property => property.trim())
+                                .filter(Boolean);
+
+                            this.plugin.settings.inheritFromProperties = Array.from(new Set(parsed));
+                            await this.plugin.saveSettings();
+                        })
+                );
+        });
+
+        // Inherit from links
+        advancedGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.inheritFromLinks.name)
+                .setDesc(strings.settings.items.inheritFromLinks.desc)
+                .addToggle(toggle =>
+                    toggle.setValue(this.plugin.settings.inheritFromLinks).onChange(async value => {
+                        this.plugin.settings.inheritFromLinks = value;
+                        await this.plugin.saveSettings();
+                    })
+                );
+        });
+
+        // Inherited from property
+        advancedGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.inheritedFromProperty.name)
+                .setDesc(strings.settings.items.inheritedFromProperty.desc)
+                .addText(text =>
+                    text
+                        .setPlaceholder(DEFAULT_SETTINGS.inheritedFromProperty)
+                        .setValue(this.plugin.settings.inheritedFromProperty)
+                        .onChange(async value => {
+                            this.plugin.settings.inheritedFromProperty = value.trim() || DEFAULT_SETTINGS.inheritedFromProperty;
+                            await this.plugin.saveSettings();
+                        })
+                );
+        });
+
+        // Generate title cards
+        advancedGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.generateTitleCards.name)
+                .setDesc(strings.settings.items.generateTitleCards.desc)
+                .addToggle(toggle =>
+                    toggle.setValue(this.plugin.settings.generateTitleCards).onChange(async value => {
+                        this.plugin.settings.generateTitleCards = value;
+                        await this.plugin.saveSettings();
+                    })
+                );
+        });
+
+        // Title card template
+        advancedGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.titleCardTemplate.name)
+                .setDesc(strings.settings.items.titleCardTemplate.desc)
+                .addTextArea(text =>
+                    text
+                        .setPlaceholder(DEFAULT_TITLE_CARD_TEMPLATE)
+                        .setValue(this.plugin.settings.titleCardTemplate)
+                        .onChange(async value => {
+                            this.plugin.settings.titleCardTemplate = value;
+                            await this.plugin.saveSettings();
+                        })
+                );
+        });
+
+        // Default image rules
+        advancedGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.defaultImageRules.name)
+                .setDesc(strings.settings.items.defaultImageRules.desc)
+                .addButton(button =>
+                    button.setButtonText(strings.settings.items.defaultImageRules.addRule).onClick(async () => {
+                        this.plugin.settings.defaultImageRules = [
+                            ...this.plugin.settings.defaultImageRules,
+                            { match: '', image: '', override: false }
+                        ];
+                        await this.plugin.saveSettings();
+                        this.display();
+                    })
+                );
+        });
+
+        this.plugin.settings.defaultImageRules.forEach((rule, index) => {
+            const ruleCount = this.plugin.settings.defaultImageRules.length;
+            const updateRules = async (updated: DefaultImageRule[], redraw: boolean): Promise<void> => {
+                this.plugin.settings.defaultImageRules = updated;
+                await this.plugin.saveSettings();
+                if (redraw) {
+                    this.display();
+                }
+            };
+            const updateRule = (changes: Partial<DefaultImageRule>): Promise<void> =>
+                updateRules(
+                    this.plugin.settings.defaultImageRules.map((existing, i) => (i === index ? { ...existing, ...changes } : existing)),
+                    false
+                );
+            const moveRule = (offset: number): Promise<void> => {
+                const reordered = [...this.plugin.settings.defaultImageRules];
+                [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+                return updateRules(reordered, true);
+            };
+
+            advancedGroup.addSetting(setting => {
+                setting
+                    .setClass('default-image-rule')
+                    .addText(text =>
+                        text
+                            .setPlaceholder(strings.settings.items.defaultImageRules.matchPlaceholder)
+                            .setValue(rule.match)
+                            .onChange(value => updateRule({ match: value.trim() }))
+                    )
+                    .addText(text =>
+                        text
+                            .setPlaceholder(strings.settings.items.defaultImageRules.imagePlaceholder)
+                            .setValue(rule.image)
+                            .onChange(value => updateRule({ image: value.trim() }))
+                    )
+                    .addToggle(toggle =>
+                        toggle
+                            .setTooltip(strings.settings.items.defaultImageRules.override)
+                            .setValue(rule.override)
+                            .onChange(value => updateRule({ override: value }))
+                    )
+                    .addExtraButton(button =>
+                        button
+                            .setIcon('arrow-up')
+                            .setTooltip(strings.settings.items.defaultImageRules.moveUp)
+                            .setDisabled(index === 0)
+                            .onClick(() => {
+                                if (index > 0) {
+                                    void moveRule(-1);
+                                }
+                            })
+                    )
+                    .addExtraButton(button =>
+                        button
+                            .setIcon('arrow-down')
+                            .setTooltip(strings.settings.items.defaultImageRules.moveDown)
+                            .setDisabled(index === ruleCount - 1)
+                            .onClick(() => {
+                                if (index < ruleCount - 1) {
+                                    void moveRule(1);
+                                }
+                            })
+                    )
+                    .addExtraButton(button =>
+                        button
+                            .setIcon('trash')
+                            .setTooltip(strings.settings.items.defaultImageRules.remove)
+                            .onClick(() => {
+                                void updateRules(
+                                    this.plugin.settings.defaultImageRules.filter((_, i) => i !== index),
+                                    true
+                                );
+                            })
+                    );
+            });
+        });
+
+        // Minimum image width
+        advancedGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.minImageWidth.name)
+                .setDesc(strings.settings.items.minImageWidth.desc)
+                .addText(text =>
+                    text
+                        .setPlaceholder(String(DEFAULT_SETTINGS.minImageWidth))
+                        .setValue(String(this.plugin.settings.minImageWidth))
+                        .onChange(async value => {
+                            const parsed = parseInt(value, 10);
+                            this.plugin.settings.minImageWidth =
+                                Number.isNaN(parsed) || parsed < 0 ? DEFAULT_SETTINGS.minImageWidth : parsed;
+                            await this.plugin.saveSettings();
+                        })
+                );
+        });
+
+        // Minimum image height
+        advancedGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.minImageHeight.name)
+                .setDesc(strings.settings.items.minImageHeight.desc)
+                .addText(text =>
+                    text
+                        .setPlaceholder(String(DEFAULT_SETTINGS.minImageHeight))
+                        .setValue(String(this.plugin.settings.minImageHeight))
+                        .onChange(async value => {
+                            const parsed = parseInt(value, 10);
+                            this.plugin.settings.minImageHeight =
+                                Number.isNaN(parsed) || parsed < 0 ? DEFAULT_SETTINGS.minImageHeight : parsed;
+                            await this.plugin.saveSettings();
+                        })
+                );
+        });
+
+        // Minimum image file size
+        advancedGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.minImageFileSizeKb.name)
+                .setDesc(strings.settings.items.minImageFileSizeKb.desc)
+                .addText(text =>
+                    text
+                        .setPlaceholder(String(DEFAULT_SETTINGS.minImageFileSizeKb))
+                        .setValue(String(this.plugin.settings.minImageFileSizeKb))
+                        .onChange(async value => {
+                            const parsed = parseInt(value, 10);
+                            this.plugin.settings.minImageFileSizeKb =
+                                Number.isNaN(parsed) || parsed < 0 ? DEFAULT_SETTINGS.minImageFileSizeKb : parsed;
+                            await this.plugin.saveSettings();
+                        })
+                );
+        });
+
+        // Ignored image patterns
+        advancedGroup.addSetting(setting => {
+            setting
+                .setName(strings.settings.items.ignoredImagePatterns.name)
+                .setDesc(strings.settings.items.ignoredImagePatterns.desc)
+                .addTextArea(text =>
+                    text
+                        .setPlaceholder('https://img.shields.io/**\nemoji-*.png\n/\\/badges?\\//')
+                        .setValue(this.plugin.settings.ignoredImagePatterns.join('\n'))
+                        .onChange(async value => {
+                            this.plugin.settings.ignoredImagePatterns = value
+                                .split('\n')
+                                .map(pattern => pattern.trim())
+                                .filter(Boolean);
+                            await this.plugin.saveSettings();
+                        })
+                );
+        });
+
         // Debug mode
         advancedGroup.addSetting(setting => {
             setting
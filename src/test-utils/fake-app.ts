@@ -0,0 +1,78 @@
+import type { App, CachedMetadata } from 'obsidian';
+import { TFile, TFolder } from './obsidian-stub';
+
+/**
+ * A note of the fake vault: its content and the metadata Obsidian would have cached for it.
+ */
+interface FakeNote {
+    content?: string;
+    cache?: CachedMetadata;
+    data?: Uint8Array; // Binary content of other files, e.g. images
+}
+
+/**
+ * Creates an App with an in-memory vault holding the given files. Markdown notes get their content and cache;
+ * other paths (e.g. images) only exist as files. Links resolve by path or by name without extension.
+ * @param {Record<string, FakeNote>} notes - Notes and other files by vault path.
+ * @returns {App} App exposing the vault and metadata cache APIs used by the plugin.
+ */
+export const createFakeApp = (notes: Record<string, FakeNote>): App => {
+    const files = new Map<string, TFile>();
+    const folders = new Map<string, TFolder>([['', new TFolder('')]]);
+
+    const getFolder = (path: string): TFolder => {
+        let folder = folders.get(path);
+        if (!folder) {
+            folder = new TFolder(path);
+            const parentPath = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+            folder.parent = getFolder(parentPath);
+            folders.set(path, folder);
+        }
+        return folder;
+    };
+
+    for (const path of Object.keys(notes)) {
+        const file = new TFile(path);
+        file.stat.size = notes[path].data?.byteLength ?? 0;
+        file.parent = getFolder(path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '');
+        files.set(path, file);
+    }
+
+    const getFirstLinkpathDest = (linkpath: string): TFile | null => {
+        return (
+            files.get(linkpath) ??
+            files.get(`${linkpath}.md`) ??
+            Array.from(files.values()).find(file => file.name === linkpath || file.basename === linkpath) ??
+            null
+        );
+    };
+
+    const resolvedLinks: Record<string, Record<string, number>> = {};
+    for (const [path, note] of Object.entries(notes)) {
+        const links = [...(note.cache?.links ?? []), ...(note.cache?.frontmatterLinks ?? [])];
+        for (const link of links) {
+            const target = getFirstLinkpathDest(link.link);
+            if (target) {
+                resolvedLinks[path] = { ...resolvedLinks[path], [target.path]: (resolvedLinks[path]?.[target.path] ?? 0) + 1 };
+            }
+        }
+    }
+
+    const fakeApp = {
+        vault: {
+            getAbstractFileByPath: (path: string) => files.get(path) ?? folders.get(path) ?? null,
+            getMarkdownFiles: () => Array.from(files.values()).filter(file => file.extension === 'md'),
+            cachedRead: async (file: TFile) => notes[file.path]?.content ?? '',
+            readBinary: async (file: TFile) => (notes[file.path]?.data ?? new Uint8Array()).slice().buffer,
+            adapter: {
+                exists: async (path: string) => files.has(path) || folders.has(path)
+            }
+        },
+        metadataCache: {
+            getFileCache: (file: TFile) => notes[file.path]?.cache ?? null,
+            getFirstLinkpathDest,
+            resolvedLinks
+        }
+    };
+    return fakeApp as unknown as App;
+};
@@ -0,0 +1,262 @@
+/**
+ * A pixel of a synthetic bitmap: a palette index, or red, green, blue and optional alpha values.
+ */
+type Pixel = [number] | [number, number, number] | [number, number, number, number];
+
+/**
+ * Options for a synthetic device-independent bitmap.
+ */
+interface DibOptions {
+    width: number;
+    height: number;
+    bitCount: 1 | 4 | 8 | 24 | 32;
+    pixels: Pixel[]; // Top-down, row by row
+    palette?: [number, number, number][];
+    topDown?: boolean; // Store rows top-down, with a negative height
+    transparent?: boolean[]; // Icon transparency mask, top-down, row by row
+}
+
+/**
+ * Options for a synthetic single-strip TIFF image.
+ */
+interface TiffOptions {
+    width: number;
+    height: number;
+    data: Uint8Array; // Strip contents, already compressed
+    littleEndian?: boolean;
+    bitsPerSample?: number;
+    samplesPerPixel?: number;
+    photometric?: number;
+    compression?: number;
+    predictor?: number;
+    extraSample?: number;
+    colorMap?: number[];
+    longDimensions?: boolean; // Store width and height as LONG instead of SHORT values
+}
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+    const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+};
+
+/**
+ * Encodes a bitmap with a 40-byte info header, as stored in BMP files and ICO entries.
+ * Icon bitmaps report twice their height and are followed by a 1-bit transparency mask.
+ */
+const createDib = (options: DibOptions, isIconImage: boolean): Uint8Array => {
+    const { width, height, bitCount, pixels, palette = [], topDown = false } = options;
+    const stride = Math.floor((width * bitCount + 31) / 32) * 4;
+    const header = new DataView(new ArrayBuffer(40 + palette.length * 4));
+    header.setUint32(0, 40, true);
+    header.setInt32(4, width, true);
+    header.setInt32(8, isIconImage ? height * 2 : topDown ? -height : height, true);
+    header.setUint16(12, 1, true);
+    header.setUint16(14, bitCount, true);
+    header.setUint32(32, palette.length, true);
+    palette.forEach(([red, green, blue], index) => {
+        header.setUint8(40 + index * 4, blue);
+        header.setUint8(40 + index * 4 + 1, green);
+        header.setUint8(40 + index * 4 + 2, red);
+    });
+
+    const data = new Uint8Array(stride * height);
+    for (let y = 0; y < height; y++) {
+        const row = (topDown ? y : height - 1 - y) * stride;
+        for (let x = 0; x < width; x++) {
+            const pixel = pixels[y * width + x];
+            if (bitCount <= 8) {
+                const bitOffset = x * bitCount;
+                data[row + (bitOffset >> 3)] |= pixel[0] << (8 - bitCount - (bitOffset & 7));
+            } else {
+                const offset = row + (x * bitCount) / 8;
+                data[offset] = pixel[2] ?? 0;
+                data[offset + 1] = pixel[1] ?? 0;
+                data[offset + 2] = pixel[0];
+                if (bitCount === 32) {
+                    data[offset + 3] = pixel[3] ?? 0;
+                }
+            }
+        }
+    }
+
+    if (!isIconImage) {
+        return concat(new Uint8Array(header.buffer), data);
+    }
+
+    const maskStride = Math.floor((width + 31) / 32) * 4;
+    const mask = new Uint8Array(maskStride * height);
+    options.transparent?.forEach((isTransparent, index) => {
+        const x = index % width;
+        const row = (height - 1 - Math.floor(index / width)) * maskStride;
+        if (isTransparent) {
+            mask[row + (x >> 3)] |= 0x80 >> (x & 7);
+        }
+    });
+    return concat(new Uint8Array(header.buffer), data, mask);
+};
+
+/**
+ * Encodes a BMP file.
+ * @param {DibOptions} options - Bitmap dimensions, depth and pixels.
+ * @returns {ArrayBuffer} BMP file contents.
+ */
+export const createBmp = (options: DibOptions): ArrayBuffer => {
+    const dib = createDib(options, false);
+    const fileHeader = new DataView(new ArrayBuffer(14));
+    fileHeader.setUint8(0, 0x42);
+    fileHeader.setUint8(1, 0x4d);
+    fileHeader.setUint32(2, 14 + dib.length, true);
+    fileHeader.setUint32(10, 14 + 40 + (options.palette?.length ?? 0) * 4, true);
+    return concat(new Uint8Array(fileHeader.buffer), dib).buffer as ArrayBuffer;
+};
+
+/**
+ * Encodes an ICO file holding the given bitmaps, or raw PNG data for PNG-compressed entries.
+ * @param {(DibOptions | Uint8Array)[]} images - Icon images in directory order.
+ * @returns {ArrayBuffer} ICO file contents.
+ */
+export const createIco = (images: (DibOptions | Uint8Array)[]): ArrayBuffer => {
+    const directory = new DataView(new ArrayBuffer(6 + images.length * 16));
+    directory.setUint16(2, 1, true);
+    directory.setUint16(4, images.length, true);
+
+    const bodies: Uint8Array[] = [];
+    let offset = directory.byteLength;
+    images.forEach((image, index) => {
+        const body = image instanceof Uint8Array ? image : createDib(image, true);
+        const entry = 6 + index * 16;
+        if (!(image instanceof Uint8Array)) {
+            directory.setUint8(entry, image.width % 256);
+            directory.setUint8(entry + 1, image.height % 256);
+            directory.setUint16(entry + 6, image.bitCount, true);
+        }
+        directory.setUint32(entry + 8, body.length, true);
+        directory.setUint32(entry + 12, offset, true);
+        bodies.push(body);
+        offset += body.length;
+    });
+
+    return concat(new Uint8Array(directory.buffer), ...bodies).buffer as ArrayBuffer;
+};
+
+/**
+ * Encodes a baseline TIFF file with the image in a single strip.
+ * @param {TiffOptions} options - Image dimensions, layout and strip data.
+ * @returns {ArrayBuffer} TIFF file contents.
+ */
+export const createTiff = (options: TiffOptions): ArrayBuffer => {
+    const { width, height, data, littleEndian = true, samplesPerPixel = 1, colorMap } = options;
+    const bitsPerSample = Array<number>(samplesPerPixel).fill(options.bitsPerSample ?? 8);
+
+    // [tag, type (3: SHORT, 4: LONG), values]
+    const entries: [number, number, number[]][] = [
+        [256, options.longDimensions ? 4 : 3, [width]],
+        [257, options.longDimensions ? 4 : 3, [height]],
+        [258, 3, bitsPerSample],
+        [259, 3, [options.compression ?? 1]],
+        [262, 3, [options.photometric ?? 1]],
+        [273, 4, [0]],
+        [277, 3, [samplesPerPixel]],
+        [278, 3, [height]],
+        [279, 4, [data.length]]
+    ];
+    if (options.predictor) {
+        entries.push([317, 3, [options.predictor]]);
+    }
+    if (colorMap) {
+        entries.push([320, 3, colorMap]);
+    }
+    if (options.extraSample !== undefined) {
+        entries.push([338, 3, [options.extraSample]]);
+    }
+
+    const ifdSize = 2 + entries.length * 12 + 4;
+    const externalSize = entries.reduce((total, [, type, values]) => {
+        const size = (type === 3 ? 2 : 4) * values.length;
+        return total + (size > 4 ? size : 0);
+    }, 0);
+    const stripOffset = 8 + ifdSize + externalSize;
+    entries[5][2] = [stripOffset];
+
+    const view = new DataView(new ArrayBuffer(stripOffset + data.length));
+    view.setUint8(0, littleEndian ? 0x49 : 0x4d);
+    view.setUint8(1, littleEndian ? 0x49 : 0x4d);
+    view.setUint16(2, 42, littleEndian);
+    view.setUint32(4, 8, littleEndian);
+    view.setUint16(8, entries.length, littleEndian);
+
+    let external = 8 + ifdSize;
+    entries.forEach(([tag, type, values], index) => {
+        const entry = 10 + index * 12;
+        const size = type === 3 ? 2 : 4;
+        view.setUint16(entry, tag, littleEndian);
+        view.setUint16(entry + 2, type, littleEndian);
+        view.setUint32(entry + 4, values.length, littleEndian);
+
+        let valueOffset = entry + 8;
+        if (size * values.length > 4) {
+            view.setUint32(entry + 8, external, littleEndian);
+            valueOffset = external;
+            external += size * values.length;
+        }
+        values.forEach((value, valueIndex) => {
+            if (size === 2) {
+                view.setUint16(valueOffset + valueIndex * 2, value, littleEndian);
+            } else {
+                view.setUint32(valueOffset + valueIndex * 4, value, littleEndian);
+            }
+        });
+    });
+
+    new Uint8Array(view.buffer).set(data, stripOffset);
+    return view.buffer;
+};
+
+/**
+ * Compresses data with TIFF LZW using 9-bit codes, which holds for inputs of up to about 250 bytes.
+ * @param {Uint8Array} data - Data to compress.
+ * @returns {Uint8Array} LZW stream starting with a clear code and ending with an end-of-information code.
+ */
+export const encodeLzw = (data: Uint8Array): Uint8Array => {
+    const dictionary = new Map<string, number>();
+    const codes = [256];
+    let nextCode = 258;
+    let current = '';
+
+    const codeOf = (text: string): number => (text.length === 1 ? text.charCodeAt(0) : (dictionary.get(text) ?? 0));
+
+    for (const byte of data) {
+        const next = current + String.fromCharCode(byte);
+        if (next.length === 1 || dictionary.has(next)) {
+            current = next;
+            continue;
+        }
+        codes.push(codeOf(current));
+        dictionary.set(next, nextCode++);
+        current = String.fromCharCode(byte);
+    }
+    if (current) {
+        codes.push(codeOf(current));
+    }
+    codes.push(257);
+
+    if (nextCode >= 511) {
+        throw new Error('Input too long for 9-bit LZW codes');
+    }
+
+    const output = new Uint8Array(Math.ceil((codes.length * 9) / 8));
+    codes.forEach((code, index) => {
+        for (let bit = 0; bit < 9; bit++) {
+            if ((code >> (8 - bit)) & 1) {
+                const position = index * 9 + bit;
+                output[position >> 3] |= 0x80 >> (position & 7);
+            }
+        }
+    });
+    return output;
+};
@@ -0,0 +1,97 @@
+/**
+ * Stand-in for the `obsidian` module, which only exists inside the app. The test runner bundles tests with
+ * this module in its place; only the parts used at runtime by the modules under test are provided.
+ */
+
+import http from 'node:http';
+import https from 'node:https';
+
+export class TAbstractFile {
+    name: string;
+    parent: TFolder | null = null;
+
+    constructor(public path: string) {
+        this.name = path.split('/').pop() ?? path;
+    }
+}
+
+export class TFolder extends TAbstractFile {
+    isRoot(): boolean {
+        return this.path === '' || this.path === '/';
+    }
+}
+
+export class TFile extends TAbstractFile {
+    basename: string;
+    extension: string;
+    stat = { ctime: 0, mtime: 0, size: 0 };
+
+    constructor(path: string) {
+        super(path);
+        const dot = this.name.lastIndexOf('.');
+        this.basename = dot > 0 ? this.name.slice(0, dot) : this.name;
+        this.extension = dot > 0 ? this.name.slice(dot + 1) : '';
+    }
+}
+
+export const normalizePath = (path: string): string => {
+    return path
+        .replace(/\\/g, '/')
+        .replace(/\/+/g, '/')
+        .replace(/^\/|\/$/g, '');
+};
+
+export const parseLinktext = (linktext: string): { path: string; subpath: string } => {
+    const index = linktext.indexOf('#');
+    return index === -1 ? { path: linktext, subpath: '' } : { path: linktext.slice(0, index), subpath: linktext.slice(index) };
+};
+
+export const getAllTags = (cache: { tags?: { tag: string }[] }): string[] | null => {
+    return cache.tags ? cache.tags.map(tag => tag.tag) : null;
+};
+
+export const resolveSubpath = (): null => null;
+
+export const getLanguage = (): string => 'en';
+
+export const requireApiVersion = (): boolean => true;
+
+/**
+ * Performs requests with Node's HTTP client. Like Obsidian's `requestUrl`, responses with an error status throw.
+ */
+export const requestUrl = (request: { url: string; method?: string; headers?: Record<string, string> }) => {
+    const client = request.url.startsWith('https:') ? https : http;
+    return new Promise<{ status: number; headers: Record<string, string>; arrayBuffer: ArrayBuffer; text: string }>((resolve, reject) => {
+        const req = client.request(request.url, { method: request.method ?? 'GET', headers: request.headers }, response => {
+            const chunks: Buffer[] = [];
+            response.on('data', (chunk: Buffer) => chunks.push(chunk));
+            response.on('error', reject);
+            response.on('end', () => {
+                const status = response.statusCode ?? 0;
+                if (status >= 400) {
+                    reject(new Error(`Request failed, status ${status}`));
+                    return;
+                }
+
+                const headers: Record<string, string> = {};
+                for (const [key, value] of Object.entries(response.headers)) {
+                    if (value !== undefined) {
+                        headers[key] = Array.isArray(value) ? value.join(', ') : value;
+                    }
+                }
+                const body = Buffer.concat(chunks);
+                const arrayBuffer = body.buffer.slice(body.byteOffset, body.byteOffset + body.byteLength);
+                resolve({ status, headers, arrayBuffer, text: body.toString('utf8') });
+            });
+        });
+        req.on('error', reject);
+        req.end();
+    });
+};
+
+export class Notice {}
+export class Modal {}
+export class Plugin {}
+export class PluginSettingTab {}
+export class Setting {}
+export class SettingGroup {}
@@ -0,0 +1,156 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { FeaturedImageSettings } from '../settings';
+import { md5 } from '../utils/hash';
+
+interface ExcalidrawServiceDeps {
+    debugLog: (...args: unknown[]) => void;
+    errorLog: (...args: unknown[]) => void;
+}
+
+/**
+ * The parts of the Excalidraw plugin's scripting API (ExcalidrawAutomate) used to render previews.
+ */
+interface ExcalidrawAutomate {
+    reset(): void;
+    createPNG(templatePath?: string, scale?: number): Promise<Blob>;
+    destroy?(): void;
+}
+
+interface ExcalidrawAutomateGlobal extends ExcalidrawAutomate {
+    getAPI?(): ExcalidrawAutomate;
+}
+
+/**
+ * Extensions of images exported next to a drawing, in order of preference.
+ */
+const EXPORT_EXTENSIONS = ['png', 'svg'];
+
+/**
+ * Finds images for Excalidraw drawings: exported PNG or SVG siblings, or previews rendered by the Excalidraw plugin.
+ */
+export class ExcalidrawService {
+    private settings: FeaturedImageSettings;
+
+    constructor(
+        private readonly app: App,
+        settings: FeaturedImageSettings,
+        private readonly deps: ExcalidrawServiceDeps
+    ) {
+        this.settings = settings;
+    }
+
+    /**
+     * Updates service configuration when settings change.
+     * @param {FeaturedImageSettings} settings - Latest plugin settings.
+     */
+    setSettings(settings: FeaturedImageSettings): void {
+        this.settings = settings;
+    }
+
+    /**
+     * Checks whether a file is an Excalidraw drawing: a legacy `.excalidraw` file, or a markdown drawing
+     * marked by the `excalidraw-plugin` property or the `excalidraw` tag.
+     * @param {TFile} file - File to check.
+     * @returns {boolean} True when the file is a drawing.
+     */
+    isDrawing(file: TFile): boolean {
+        if (file.extension === 'excalidraw') {
+            return true;
+        }
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        const tags: unknown = frontmatter?.tags;
+        return (
+            frontmatter?.['excalidraw-plugin'] !== undefined ||
+            tags === 'excalidraw' ||
+            (Array.isArray(tags) && tags.includes('excalidraw'))
+        );
+    }
+
+    /**
+     * Returns the image of a drawing: its exported PNG or SVG when one exists next to it, otherwise a preview
+     * rendered by the Excalidraw plugin and saved under the `excalidraw` subfolder.
+     * @param {string} drawingPath - Vault path of the drawing.
+     * @returns {Promise<string | undefined>} Path to the image, or undefined when there is none.
+     */
+    async getDrawingImage(drawingPath: string): Promise<string | undefined> {
+        const file = this.app.vault.getAbstractFileByPath(normalizePath(drawingPath));
+        if (!(file instanceof TFile)) {
+            this.deps.errorLog('Excalidraw drawing not found:', drawingPath);
+            return undefined;
+        }
+
+        const exportedImage = this.findExportedImage(file);
+        if (exportedImage) {
+            this.deps.debugLog('Using exported Excalidraw image:', exportedImage);
+            return exportedImage;
+        }
+
+        return this.settings.renderExcalidrawDrawings ? await this.renderPreview(file) : undefined;
+    }
+
+    /**
+     * Finds an image exported by the Excalidraw plugin, e.g. `Drawing.excalidraw.png` for `Drawing.excalidraw.md`,
+     * or `Drawing.png` when exports drop the `.excalidraw` suffix.
+     */
+    private findExportedImage(file: TFile): string | undefined {
+        const basePath = file.extension === 'md' ? file.path.slice(0, -'.md'.length) : file.path;
+        const bases = [basePath, basePath.replace(/\.excalidraw$/i, '')];
+
+        for (const extension of EXPORT_EXTENSIONS) {
+            for (const base of bases) {
+                const exported = this.app.vault.getAbstractFileByPath(`${base}.${extension}`);
+                if (exported instanceof TFile) {
+                    return exported.path;
+                }
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Renders a drawing to PNG with the Excalidraw plugin, if it is installed.
+     * Previews are named after the drawing path and its content without frontmatter, so unchanged drawings are
+     * rendered once. The modification time is not used because setting the feature changes the drawing's frontmatter.
+     */
+    private async renderPreview(file: TFile): Promise<string | undefined> {
+        const content = await this.app.vault.cachedRead(file);
+        const sceneHash = md5(content.replace(/^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/, '')).substring(0, 8);
+        const excalidrawFolder = normalizePath(`${this.settings.thumbnailsFolder}/excalidraw`);
+        const previewPath = `${excalidrawFolder}/${md5(file.path)}_${sceneHash}.png`;
+
+        if (await this.app.vault.adapter.exists(previewPath)) {
+            return previewPath;
+        }
+
+        const globalApi = (window as Window & { ExcalidrawAutomate?: ExcalidrawAutomateGlobal }).ExcalidrawAutomate;
+        if (!globalApi) {
+            this.deps.debugLog('Excalidraw plugin not available, no image for drawing:', file.path);
+            return undefined;
+        }
+
+        if (this.settings.dryRun) {
+            this.deps.debugLog('Dry run: Skipping Excalidraw preview rendering, using mock path');
+            return previewPath;
+        }
+
+        const ea = globalApi.getAPI?.() ?? globalApi;
+        try {
+            ea.reset();
+            const png = await ea.createPNG(file.path);
+
+            if (!(await this.app.vault.adapter.exists(excalidrawFolder))) {
+                await this.app.vault.adapter.mkdir(excalidrawFolder);
+            }
+            await this.app.vault.adapter.writeBinary(previewPath, await png.arrayBuffer());
+            this.deps.debugLog('Rendered Excalidraw preview of', file.path, 'to', previewPath);
+            return previewPath;
+        } catch (error) {
+            this.deps.errorLog('Error rendering Excalidraw preview:', file.path, error);
+            return undefined;
+        } finally {
+            if (ea !== globalApi) {
+                ea.destroy?.();
+            }
+        }
+    }
+}
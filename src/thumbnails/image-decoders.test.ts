@@ -0,0 +1,246 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createBmp, createIco, createTiff, encodeLzw } from '../test-utils/image-fixtures';
+import { decodeImageFallback } from './image-decoders';
+
+const RED = [255, 0, 0, 255];
+const GREEN = [0, 255, 0, 255];
+const BLUE = [0, 0, 255, 255];
+const WHITE = [255, 255, 255, 255];
+
+/**
+ * Decodes an image and returns its size and pixels as RGBA tuples, row by row.
+ */
+const decode = (data: ArrayBuffer): { width: number; height: number; pixels: number[][] } => {
+    const image = decodeImageFallback(data);
+    assert.ok(image);
+    const pixels: number[][] = [];
+    for (let i = 0; i < image.pixels.length; i += 4) {
+        pixels.push(Array.from(image.pixels.subarray(i, i + 4)));
+    }
+    return { width: image.width, height: image.height, pixels };
+};
+
+describe('decodeImageFallback', () => {
+    it('returns undefined for formats it does not decode', () => {
+        const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, ...Array<number>(24).fill(0)]);
+        assert.equal(decodeImageFallback(png.buffer), undefined);
+        assert.equal(decodeImageFallback(new ArrayBuffer(4)), undefined);
+    });
+
+    describe('BMP', () => {
+        it('decodes bottom-up 24-bit bitmaps with padded rows', () => {
+            const bmp = createBmp({
+                width: 3,
+                height: 2,
+                bitCount: 24,
+                pixels: [
+                    [255, 0, 0],
+                    [0, 255, 0],
+                    [0, 0, 255],
+                    [255, 255, 255],
+                    [255, 0, 0],
+                    [0, 255, 0]
+                ]
+            });
+
+            assert.deepEqual(decode(bmp), { width: 3, height: 2, pixels: [RED, GREEN, BLUE, WHITE, RED, GREEN] });
+        });
+
+        it('decodes top-down palette bitmaps', () => {
+            const palette: [number, number, number][] = [
+                [255, 0, 0],
+                [0, 0, 255]
+            ];
+            const pixels: [number][] = [[0], [1], [1], [0]];
+
+            assert.deepEqual(decode(createBmp({ width: 2, height: 2, bitCount: 8, palette, pixels, topDown: true })).pixels, [
+                RED,
+                BLUE,
+                BLUE,
+                RED
+            ]);
+            assert.deepEqual(decode(createBmp({ width: 2, height: 2, bitCount: 4, palette, pixels })).pixels, [RED, BLUE, BLUE, RED]);
+            assert.deepEqual(decode(createBmp({ width: 2, height: 2, bitCount: 1, palette, pixels })).pixels, [RED, BLUE, BLUE, RED]);
+        });
+
+        it('keeps the alpha of 32-bit bitmaps, or treats them as opaque when every alpha is zero', () => {
+            const translucent = createBmp({
+                width: 2,
+                height: 1,
+                bitCount: 32,
+                pixels: [
+                    [255, 0, 0, 128],
+                    [0, 255, 0, 0]
+                ]
+            });
+            const opaque = createBmp({
+                width: 2,
+                height: 1,
+                bitCount: 32,
+                pixels: [
+                    [255, 0, 0, 0],
+                    [0, 255, 0, 0]
+                ]
+            });
+
+            assert.deepEqual(decode(translucent).pixels, [
+                [255, 0, 0, 128],
+                [0, 255, 0, 0]
+            ]);
+            assert.deepEqual(decode(opaque).pixels, [RED, GREEN]);
+        });
+
+        it('rejects compressed and truncated bitmaps', () => {
+            const rle = new DataView(createBmp({ width: 1, height: 1, bitCount: 8, palette: [[0, 0, 0]], pixels: [[0]] }));
+            rle.setUint32(14 + 16, 1, true);
+            assert.throws(() => decodeImageFallback(rle.buffer), /Unsupported BMP compression 1/);
+
+            const truncated = createBmp({ width: 4, height: 4, bitCount: 24, pixels: Array(16).fill([0, 0, 0]) }).slice(0, 70);
+            assert.throws(() => decodeImageFallback(truncated), RangeError);
+        });
+
+        it('refuses to decode images over 40 megapixels', () => {
+            const header = new DataView(createBmp({ width: 1, height: 1, bitCount: 24, pixels: [[0, 0, 0]] }));
+            header.setInt32(14 + 4, 8000, true);
+            header.setInt32(14 + 8, 6000, true);
+
+            assert.throws(() => decodeImageFallback(header.buffer), /8000x6000 pixels is too large/);
+        });
+    });
+
+    describe('ICO', () => {
+        it('decodes the largest bitmap and applies the transparency mask', () => {
+            const small = { width: 1, height: 1, bitCount: 24 as const, pixels: [[0, 0, 255] as [number, number, number]] };
+            const large = {
+                width: 2,
+                height: 2,
+                bitCount: 24 as const,
+                pixels: [
+                    [255, 0, 0],
+                    [0, 255, 0],
+                    [0, 0, 255],
+                    [255, 255, 255]
+                ] as [number, number, number][],
+                transparent: [false, true, false, false]
+            };
+
+            assert.deepEqual(decode(createIco([small, large])), { width: 2, height: 2, pixels: [RED, [0, 255, 0, 0], BLUE, WHITE] });
+        });
+
+        it('uses the alpha channel of 32-bit icons instead of the mask', () => {
+            const icon = {
+                width: 1,
+                height: 1,
+                bitCount: 32 as const,
+                pixels: [[255, 0, 0, 100] as [number, number, number, number]],
+                transparent: [true]
+            };
+
+            assert.deepEqual(decode(createIco([icon])).pixels, [[255, 0, 0, 100]]);
+        });
+
+        it('skips PNG-compressed entries, which the renderer decodes', () => {
+            const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+
+            assert.throws(() => decodeImageFallback(createIco([png])), /no bitmap images/);
+        });
+    });
+
+    describe('TIFF', () => {
+        it('decodes uncompressed RGB in either byte order', () => {
+            const data = new Uint8Array([255, 0, 0, 0, 255, 0, 0, 0, 255]);
+            for (const littleEndian of [true, false]) {
+                const tiff = createTiff({ width: 3, height: 1, data, littleEndian, samplesPerPixel: 3, photometric: 2 });
+
+                assert.deepEqual(decode(tiff), { width: 3, height: 1, pixels: [RED, GREEN, BLUE] });
+            }
+        });
+
+        it('decodes grayscale, inverted grayscale and bilevel images', () => {
+            const gray = createTiff({ width: 2, height: 1, data: new Uint8Array([0, 200]) });
+            const inverted = createTiff({ width: 2, height: 1, data: new Uint8Array([0, 200]), photometric: 0 });
+            const bilevel = createTiff({ width: 3, height: 1, data: new Uint8Array([0b10100000]), bitsPerSample: 1 });
+
+            assert.deepEqual(decode(gray).pixels, [
+                [0, 0, 0, 255],
+                [200, 200, 200, 255]
+            ]);
+            assert.deepEqual(decode(inverted).pixels, [WHITE, [55, 55, 55, 255]]);
+            assert.deepEqual(decode(bilevel).pixels, [WHITE, [0, 0, 0, 255], WHITE]);
+        });
+
+        it('decodes palette images', () => {
+            // 16-bit color map: all reds, then all greens, then all blues
+            const colorMap = Array<number>(3 * 256).fill(0);
+            colorMap[1] = 0xffff;
+            colorMap[512 + 2] = 0xffff;
+            const tiff = createTiff({ width: 3, height: 1, data: new Uint8Array([1, 2, 0]), photometric: 3, colorMap });
+
+            assert.deepEqual(decode(tiff).pixels, [RED, BLUE, [0, 0, 0, 255]]);
+        });
+
+        it('decodes PackBits strips', () => {
+            // A run of three 10s, then one literal 20; -128 is a no-op
+            const data = new Uint8Array([0xfe, 10, 0x80, 0x00, 20]);
+            const tiff = createTiff({ width: 4, height: 1, data, compression: 32773 });
+
+            assert.deepEqual(
+                decode(tiff).pixels.map(pixel => pixel[0]),
+                [10, 10, 10, 20]
+            );
+        });
+
+        it('decodes LZW strips with horizontal prediction', () => {
+            // Each sample is stored as the difference to the same sample of the previous pixel
+            const rows = [
+                [10, 20, 30, 5, 5, 5, 5, 5, 5],
+                [100, 100, 100, 1, 2, 3, 1, 2, 3]
+            ];
+            const data = encodeLzw(new Uint8Array(rows.flat()));
+            const tiff = createTiff({ width: 3, height: 2, data, samplesPerPixel: 3, photometric: 2, compression: 5, predictor: 2 });
+
+            assert.deepEqual(decode(tiff).pixels, [
+                [10, 20, 30, 255],
+                [15, 25, 35, 255],
+                [20, 30, 40, 255],
+                [100, 100, 100, 255],
+                [101, 102, 103, 255],
+                [102, 104, 106, 255]
+            ]);
+        });
+
+        it('decodes LZW strips with repeated sequences', () => {
+            const bytes = new Uint8Array([7, 7, 7, 7, 7, 7, 9, 7, 7, 9, 7, 7, 9, 1]);
+            const tiff = createTiff({ width: bytes.length, height: 1, data: encodeLzw(bytes), compression: 5 });
+
+            assert.deepEqual(
+                decode(tiff).pixels.map(pixel => pixel[0]),
+                Array.from(bytes, value => value)
+            );
+        });
+
+        it('keeps unassociated alpha and unpremultiplies associated alpha', () => {
+            const data = new Uint8Array([200, 100, 0, 128]);
+            const unassociated = createTiff({ width: 1, height: 1, data, samplesPerPixel: 4, photometric: 2, extraSample: 2 });
+            const associated = createTiff({ width: 1, height: 1, data, samplesPerPixel: 4, photometric: 2, extraSample: 1 });
+
+            assert.deepEqual(decode(unassociated).pixels, [[200, 100, 0, 128]]);
+            assert.deepEqual(decode(associated).pixels, [[255, 199, 0, 128]]);
+        });
+
+        it('rejects unsupported variants', () => {
+            const jpeg = createTiff({ width: 1, height: 1, data: new Uint8Array([0]), compression: 7 });
+            const cmyk = createTiff({ width: 1, height: 1, data: new Uint8Array([0, 0, 0, 0]), samplesPerPixel: 4, photometric: 5 });
+
+            assert.throws(() => decodeImageFallback(jpeg), /Unsupported TIFF compression 7/);
+            assert.throws(() => decodeImageFallback(cmyk), /Unsupported TIFF color space 5/);
+        });
+
+        it('refuses to decode images over 40 megapixels', () => {
+            const tiff = createTiff({ width: 10000, height: 5000, data: new Uint8Array(0), longDimensions: true });
+
+            assert.throws(() => decodeImageFallback(tiff), /10000x5000 pixels is too large/);
+        });
+    });
+});
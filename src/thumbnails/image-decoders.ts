@@ -0,0 +1,481 @@
+/**
+ * Decoded image as straight (non-premultiplied) RGBA pixels, ready for `ImageData`.
+ */
+interface DecodedImage {
+    width: number;
+    height: number;
+    pixels: Uint8ClampedArray<ArrayBuffer>;
+}
+
+/**
+ * Largest image decoded in memory: 40 megapixels, about 160 MB of RGBA data.
+ */
+const MAX_DECODED_PIXELS = 40_000_000;
+
+/**
+ * Decodes BMP, baseline TIFF and ICO images in plain TypeScript, for formats the renderer cannot display.
+ * @param {ArrayBuffer} data - Image file contents.
+ * @returns {DecodedImage | undefined} Decoded pixels, or undefined when the data is in none of these formats.
+ * @throws {Error} If the image uses a variant of the format that is not supported, or is malformed.
+ */
+export const decodeImageFallback = (data: ArrayBuffer): DecodedImage | undefined => {
+    const bytes = new Uint8Array(data);
+    const view = new DataView(data);
+
+    if (bytes.length >= 26 && bytes[0] === 0x42 && bytes[1] === 0x4d) {
+        return decodeDib(view, 14, view.getUint32(10, true), false);
+    }
+    if (bytes.length >= 8 && ((bytes[0] === 0x49 && bytes[1] === 0x49) || (bytes[0] === 0x4d && bytes[1] === 0x4d))) {
+        const littleEndian = bytes[0] === 0x49;
+        if (view.getUint16(2, littleEndian) === 42) {
+            return decodeTiff(view, littleEndian);
+        }
+    }
+    if (bytes.length >= 22 && view.getUint16(0, true) === 0 && [1, 2].includes(view.getUint16(2, true)) && view.getUint16(4, true) > 0) {
+        return decodeIco(view);
+    }
+    return undefined;
+};
+
+const createPixels = (width: number, height: number): Uint8ClampedArray<ArrayBuffer> => {
+    if (!(width > 0) || !(height > 0)) {
+        throw new Error(`Invalid image dimensions ${width}x${height}`);
+    }
+    if (width * height > MAX_DECODED_PIXELS) {
+        throw new Error(`Image of ${width}x${height} pixels is too large to decode`);
+    }
+    return new Uint8ClampedArray(width * height * 4);
+};
+
+/**
+ * Reads a color channel selected by a bit mask and scales it to 0-255.
+ */
+const readMaskedChannel = (value: number, mask: number): number => {
+    if (!mask) {
+        return 0;
+    }
+    let shift = 0;
+    while (((mask >>> shift) & 1) === 0) {
+        shift++;
+    }
+    const max = mask >>> shift;
+    return Math.round((((value & mask) >>> shift) * 255) / max);
+};
+
+/**
+ * Decodes a device-independent bitmap: the body of a BMP file or an image inside an ICO file.
+ * Supports 1, 4, 8, 16, 24 and 32 bits per pixel, uncompressed or with bit field masks.
+ * @param {DataView} view - File contents.
+ * @param {number} headerOffset - Offset of the DIB header.
+ * @param {number | undefined} pixelOffset - Offset of the pixel data; directly after the color table when undefined.
+ * @param {boolean} isIconImage - Whether the bitmap is an icon image, which stores a 1-bit transparency mask after the colors.
+ * @returns {DecodedImage} Decoded pixels.
+ */
+const decodeDib = (view: DataView, headerOffset: number, pixelOffset: number | undefined, isIconImage: boolean): DecodedImage => {
+    const headerSize = view.getUint32(headerOffset, true);
+    const isCoreHeader = headerSize === 12;
+    const width = isCoreHeader ? view.getUint16(headerOffset + 4, true) : view.getInt32(headerOffset + 4, true);
+    let height = isCoreHeader ? view.getInt16(headerOffset + 6, true) : view.getInt32(headerOffset + 8, true);
+    const bitCount = view.getUint16(headerOffset + (isCoreHeader ? 10 : 14), true);
+    const compression = isCoreHeader ? 0 : view.getUint32(headerOffset + 16, true);
+    const colorsUsed = isCoreHeader ? 0 : view.getUint32(headerOffset + 32, true);
+
+    // 0: BI_RGB, 3: BI_BITFIELDS, 6: BI_ALPHABITFIELDS; run-length and embedded JPEG/PNG bitmaps are not supported
+    if (![0, 3, 6].includes(compression)) {
+        throw new Error(`Unsupported BMP compression ${compression}`);
+    }
+    if (![1, 4, 8, 16, 24, 32].includes(bitCount)) {
+        throw new Error(`Unsupported BMP bit depth ${bitCount}`);
+    }
+
+    const topDown = height < 0;
+    height = Math.abs(height);
+    // Icon bitmaps report the combined height of the color and transparency masks
+    if (isIconImage) {
+        height = Math.floor(height / 2);
+    }
+
+    // Masks follow a 40-byte header and are part of the larger V2-V5 headers
+    const hasMasks = compression === 3 || compression === 6;
+    let redMask = bitCount === 16 ? 0x7c00 : 0xff0000;
+    let greenMask = bitCount === 16 ? 0x03e0 : 0xff00;
+    let blueMask = bitCount === 16 ? 0x001f : 0xff;
+    let alphaMask = 0;
+    if (hasMasks) {
+        redMask = view.getUint32(headerOffset + 40, true);
+        greenMask = view.getUint32(headerOffset + 44, true);
+        blueMask = view.getUint32(headerOffset + 48, true);
+    }
+    if (headerSize >= 56 || compression === 6) {
+        alphaMask = view.getUint32(headerOffset + 52, true);
+    } else if (bitCount === 32 && !hasMasks) {
+        alphaMask = 0xff000000;
+    }
+
+    const colorTableOffset = headerOffset + headerSize + (headerSize === 40 && hasMasks ? (compression === 6 ? 16 : 12) : 0);
+    const paletteEntrySize = isCoreHeader ? 3 : 4;
+    const paletteSize = bitCount <= 8 ? colorsUsed || 1 << bitCount : 0;
+    const palette: [number, number, number][] = [];
+    for (let i = 0; i < paletteSize; i++) {
+        const entry = colorTableOffset + i * paletteEntrySize;
+        palette.push([view.getUint8(entry + 2), view.getUint8(entry + 1), view.getUint8(entry)]);
+    }
+
+    const dataOffset = pixelOffset ?? colorTableOffset + paletteSize * paletteEntrySize;
+    const stride = Math.floor((width * bitCount + 31) / 32) * 4;
+    const pixels = createPixels(width, height);
+    let hasAlpha = false;
+
+    for (let y = 0; y < height; y++) {
+        const row = dataOffset + (topDown ? y : height - 1 - y) * stride;
+        for (let x = 0; x < width; x++) {
+            const target = (y * width + x) * 4;
+            let red: number;
+            let green: number;
+            let blue: number;
+            let alpha = 255;
+
+            if (bitCount <= 8) {
+                const bitOffset = x * bitCount;
+                const byte = view.getUint8(row + (bitOffset >> 3));
+                const index = (byte >> (8 - bitCount - (bitOffset & 7))) & ((1 << bitCount) - 1);
+                [red, green, blue] = palette[index] ?? [0, 0, 0];
+            } else if (bitCount === 24) {
+                blue = view.getUint8(row + x * 3);
+                green = view.getUint8(row + x * 3 + 1);
+                red = view.getUint8(row + x * 3 + 2);
+            } else {
+                const value = bitCount === 16 ? view.getUint16(row + x * 2, true) : view.getUint32(row + x * 4, true);
+                red = readMaskedChannel(value, redMask);
+                green = readMaskedChannel(value, greenMask);
+                blue = readMaskedChannel(value, blueMask);
+                if (alphaMask) {
+                    alpha = readMaskedChannel(value, alphaMask);
+                    hasAlpha ||= alpha > 0;
+                }
+            }
+
+            pixels[target] = red;
+            pixels[target + 1] = green;
+            pixels[target + 2] = blue;
+            pixels[target + 3] = alpha;
+        }
+    }
+
+    // Many writers leave the alpha byte of 32-bit bitmaps at zero; such images are opaque
+    if (alphaMask && !hasAlpha) {
+        for (let i = 3; i < pixels.length; i += 4) {
+            pixels[i] = 255;
+        }
+    }
+
+    if (isIconImage && !hasAlpha) {
+        const maskOffset = dataOffset + stride * height;
+        const maskStride = Math.floor((width + 31) / 32) * 4;
+        if (maskOffset + maskStride * height <= view.byteLength) {
+            for (let y = 0; y < height; y++) {
+                const row = maskOffset + (height - 1 - y) * maskStride;
+                for (let x = 0; x < width; x++) {
+                    if ((view.getUint8(row + (x >> 3)) >> (7 - (x & 7))) & 1) {
+                        pixels[(y * width + x) * 4 + 3] = 0;
+                    }
+                }
+            }
+        }
+    }
+
+    return { width, height, pixels };
+};
+
+/**
+ * Decodes the largest bitmap image of an ICO or CUR file.
+ * PNG-compressed entries are skipped: the renderer decodes those icons itself.
+ */
+const decodeIco = (view: DataView): DecodedImage => {
+    const count = view.getUint16(4, true);
+    let best: { offset: number; area: number; bitCount: number } | undefined;
+
+    for (let i = 0; i < count; i++) {
+        const entry = 6 + i * 16;
+        if (entry + 16 > view.byteLength) {
+            break;
+        }
+        const offset = view.getUint32(entry + 12, true);
+        if (offset + 8 > view.byteLength || view.getUint32(offset) === 0x89504e47) {
+            continue;
+        }
+        const area = (view.getUint8(entry) || 256) * (view.getUint8(entry + 1) || 256);
+        const bitCount = view.getUint16(entry + 6, true);
+        if (!best || area > best.area || (area === best.area && bitCount > best.bitCount)) {
+            best = { offset, area, bitCount };
+        }
+    }
+
+    if (!best) {
+        throw new Error('ICO file contains no bitmap images');
+    }
+    return decodeDib(view, best.offset, undefined, true);
+};
+
+/**
+ * Reads the values of the tags in the first image file directory of a TIFF file.
+ */
+const readTiffTags = (view: DataView, littleEndian: boolean): Map<number, number[]> => {
+    const tags = new Map<number, number[]>();
+    const ifdOffset = view.getUint32(4, littleEndian);
+    const entryCount = view.getUint16(ifdOffset, littleEndian);
+    // Byte sizes of the BYTE, ASCII, SHORT and LONG field types
+    const typeSizes: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4 };
+
+    for (let i = 0; i < entryCount; i++) {
+        const entry = ifdOffset + 2 + i * 12;
+        const tag = view.getUint16(entry, littleEndian);
+        const type = view.getUint16(entry + 2, littleEndian);
+        const count = view.getUint32(entry + 4, littleEndian);
+        const size = typeSizes[type];
+        if (!size) {
+            continue;
+        }
+
+        const valueOffset = size * count <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian);
+        const values: number[] = [];
+        for (let j = 0; j < count; j++) {
+            const offset = valueOffset + j * size;
+            values.push(
+                size === 1
+                    ? view.getUint8(offset)
+                    : size === 2
+                      ? view.getUint16(offset, littleEndian)
+                      : view.getUint32(offset, littleEndian)
+            );
+        }
+        tags.set(tag, values);
+    }
+
+    return tags;
+};
+
+/**
+ * Decodes a TIFF LZW strip. Codes are read most significant bit first and grow one code early, as in libtiff.
+ */
+const decodeLzw = (input: Uint8Array, expectedLength: number): Uint8Array => {
+    const output = new Uint8Array(expectedLength);
+    const prefixes = new Int32Array(4096);
+    const suffixes = new Uint8Array(4096);
+    const firstBytes = new Uint8Array(4096);
+    const lengths = new Uint16Array(4096);
+    for (let code = 0; code < 256; code++) {
+        suffixes[code] = code;
+        firstBytes[code] = code;
+        lengths[code] = 1;
+    }
+
+    let position = 0;
+    let bitPosition = 0;
+    let codeWidth = 9;
+    let nextCode = 258;
+    let previous = -1;
+
+    const readCode = (): number => {
+        let code = 0;
+        for (let i = 0; i < codeWidth; i++) {
+            const byte = input[bitPosition >> 3] ?? 0;
+            code = (code << 1) | ((byte >> (7 - (bitPosition & 7))) & 1);
+            bitPosition++;
+        }
+        return code;
+    };
+
+    const writeCode = (code: number): void => {
+        const length = lengths[code];
+        let index = position + length - 1;
+        for (let current = code; index >= position; current = prefixes[current], index--) {
+            if (index < output.length) {
+                output[index] = suffixes[current];
+            }
+        }
+        position += length;
+    };
+
+    while (position < expectedLength && bitPosition + codeWidth <= input.length * 8) {
+        const code = readCode();
+        if (code === 257) {
+            break;
+        }
+        if (code === 256) {
+            codeWidth = 9;
+            nextCode = 258;
+            previous = -1;
+            continue;
+        }
+
+        if (previous === -1) {
+            writeCode(code);
+            previous = code;
+            continue;
+        }
+
+        // A code not yet in the table repeats the previous string followed by its own first byte
+        const first = code < nextCode ? firstBytes[code] : firstBytes[previous];
+        if (nextCode < 4096) {
+            prefixes[nextCode] = previous;
+            suffixes[nextCode] = first;
+            firstBytes[nextCode] = firstBytes[previous];
+            lengths[nextCode] = lengths[previous] + 1;
+            nextCode++;
+        }
+        if (code > nextCode - 1) {
+            throw new Error('Invalid LZW code in TIFF image');
+        }
+        writeCode(code);
+        previous = code;
+
+        if (nextCode >= (1 << codeWidth) - 1 && codeWidth < 12) {
+            codeWidth++;
+        }
+    }
+
+    return output;
+};
+
+/**
+ * Decodes a PackBits-compressed TIFF strip.
+ */
+const decodePackBits = (input: Uint8Array, expectedLength: number): Uint8Array => {
+    const output = new Uint8Array(expectedLength);
+    let position = 0;
+    let index = 0;
+
+    while (index < input.length && position < expectedLength) {
+        const header = (input[index++] << 24) >> 24;
+        if (header >= 0) {
+            output.set(input.subarray(index, index + header + 1).subarray(0, expectedLength - position), position);
+            position += header + 1;
+            index += header + 1;
+        } else if (header !== -128) {
+            output.fill(input[index++], position, Math.min(position + 1 - header, expectedLength));
+            position += 1 - header;
+        }
+    }
+
+    return output;
+};
+
+/**
+ * Decodes the first image of a baseline TIFF file: bilevel, grayscale, palette and RGB images in strips,
+ * uncompressed or compressed with PackBits or LZW (with or without horizontal prediction).
+ */
+const decodeTiff = (view: DataView, littleEndian: boolean): DecodedImage => {
+    const tags = readTiffTags(view, littleEndian);
+    const first = (tag: number, fallback: number): number => tags.get(tag)?.[0] ?? fallback;
+
+    const width = first(256, 0);
+    const height = first(257, 0);
+    const bitsPerSample = first(258, 1);
+    const compression = first(259, 1);
+    const photometric = first(262, 1);
+    const samplesPerPixel = first(277, 1);
+    const rowsPerStrip = Math.min(first(278, height), height);
+    const predictor = first(317, 1);
+    const extraSample = first(338, 0);
+    const stripOffsets = tags.get(273) ?? [];
+    const stripByteCounts = tags.get(279) ?? [];
+
+    if (tags.has(322)) {
+        throw new Error('Tiled TIFF images are not supported');
+    }
+    if (first(284, 1) !== 1) {
+        throw new Error('Planar TIFF images are not supported');
+    }
+    if (![1, 5, 32773].includes(compression)) {
+        throw new Error(`Unsupported TIFF compression ${compression}`);
+    }
+    if (![0, 1, 2, 3].includes(photometric)) {
+        throw new Error(`Unsupported TIFF color space ${photometric}`);
+    }
+    if (![1, 2, 4, 8, 16].includes(bitsPerSample) || (bitsPerSample === 16 && photometric === 3)) {
+        throw new Error(`Unsupported TIFF bit depth ${bitsPerSample}`);
+    }
+
+    const pixels = createPixels(width, height);
+    const rowBytes = Math.ceil((width * samplesPerPixel * bitsPerSample) / 8);
+    const data = new Uint8Array(rowBytes * height);
+    const source = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+
+    for (let strip = 0; strip < stripOffsets.length; strip++) {
+        const start = strip * rowsPerStrip * rowBytes;
+        if (start >= data.length) {
+            break;
+        }
+        const expectedLength = Math.min(rowsPerStrip * rowBytes, data.length - start);
+        const input = source.subarray(stripOffsets[strip], stripOffsets[strip] + (stripByteCounts[strip] ?? expectedLength));
+        const decoded =
+            compression === 5
+                ? decodeLzw(input, expectedLength)
+                : compression === 32773
+                  ? decodePackBits(input, expectedLength)
+                  : input.subarray(0, expectedLength);
+        data.set(decoded, start);
+    }
+
+    // Horizontal differencing stores each sample as the difference to the same sample of the previous pixel
+    if (predictor === 2 && bitsPerSample === 8) {
+        for (let y = 0; y < height; y++) {
+            for (let i = y * rowBytes + samplesPerPixel; i < (y + 1) * rowBytes; i++) {
+                data[i] = (data[i] + data[i - samplesPerPixel]) & 0xff;
+            }
+        }
+    }
+
+    const readSample = (x: number, y: number, sample: number): number => {
+        const bitOffset = (x * samplesPerPixel + sample) * bitsPerSample;
+        const offset = y * rowBytes + (bitOffset >> 3);
+        if (bitsPerSample === 16) {
+            // Only the most significant byte is kept
+            return littleEndian ? data[offset + 1] : data[offset];
+        }
+        if (bitsPerSample === 8) {
+            return data[offset];
+        }
+        return (data[offset] >> (8 - bitsPerSample - (bitOffset & 7))) & ((1 << bitsPerSample) - 1);
+    };
+
+    const colorMap = tags.get(320) ?? [];
+    const paletteSize = 1 << bitsPerSample;
+    const maxValue = bitsPerSample >= 8 ? 255 : (1 << bitsPerSample) - 1;
+    const colorSamples = photometric === 2 ? 3 : 1;
+    const hasAlpha = samplesPerPixel > colorSamples && (extraSample === 1 || extraSample === 2);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const target = (y * width + x) * 4;
+            if (photometric === 2) {
+                pixels[target] = readSample(x, y, 0);
+                pixels[target + 1] = readSample(x, y, 1);
+                pixels[target + 2] = readSample(x, y, 2);
+            } else if (photometric === 3) {
+                const index = readSample(x, y, 0);
+                pixels[target] = (colorMap[index] ?? 0) >> 8;
+                pixels[target + 1] = (colorMap[paletteSize + index] ?? 0) >> 8;
+                pixels[target + 2] = (colorMap[2 * paletteSize + index] ?? 0) >> 8;
+            } else {
+                const value = Math.round((readSample(x, y, 0) * 255) / maxValue);
+                const gray = photometric === 0 ? 255 - value : value;
+                pixels[target] = gray;
+                pixels[target + 1] = gray;
+                pixels[target + 2] = gray;
+            }
+
+            const alpha = hasAlpha ? readSample(x, y, colorSamples) : 255;
+            // Associated alpha is premultiplied into the colors
+            if (hasAlpha && extraSample === 1 && alpha > 0 && alpha < 255) {
+                for (let channel = 0; channel < 3; channel++) {
+                    pixels[target + channel] = (pixels[target + channel] * 255) / alpha;
+                }
+            }
+            pixels[target + 3] = alpha;
+        }
+    }
+
+    return { width, height, pixels };
+};
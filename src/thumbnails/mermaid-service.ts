@@ -0,0 +1,159 @@
+import { App, loadMermaid, normalizePath } from 'obsidian';
+import { FeaturedImageSettings } from '../settings';
+import { md5 } from '../utils/hash';
+
+interface MermaidServiceDeps {
+    debugLog: (...args: unknown[]) => void;
+    errorLog: (...args: unknown[]) => void;
+}
+
+/**
+ * The parts of the Mermaid API used to render a diagram.
+ */
+interface Mermaid {
+    parse(text: string): Promise<unknown>;
+    render(id: string, text: string): Promise<{ svg: string }>;
+}
+
+/**
+ * Width of rendered diagrams in pixels; large enough to serve as the source of resized thumbnails.
+ */
+const MERMAID_RENDER_WIDTH = 1200;
+
+/**
+ * Upper bound for the height of rendered diagrams, so tall flowcharts do not produce huge canvases.
+ */
+const MERMAID_MAX_HEIGHT = 4800;
+
+/**
+ * Theme variables that change how a rendered diagram looks; part of the file name hash.
+ */
+const MERMAID_THEME_VARIABLES = ['--background-primary', '--text-normal', '--interactive-accent', '--font-text'];
+
+/**
+ * Renders Mermaid diagrams to WebP images with the Mermaid build shipped with Obsidian.
+ */
+export class MermaidService {
+    private settings: FeaturedImageSettings;
+    private renderCount = 0;
+
+    constructor(
+        private readonly app: App,
+        settings: FeaturedImageSettings,
+        private readonly deps: MermaidServiceDeps
+    ) {
+        this.settings = settings;
+    }
+
+    /**
+     * Updates service configuration when settings change.
+     * @param {FeaturedImageSettings} settings - Latest plugin settings.
+     */
+    setSettings(settings: FeaturedImageSettings): void {
+        this.settings = settings;
+    }
+
+    /**
+     * Renders a Mermaid diagram and saves it under the `mermaid` subfolder.
+     * The file name is a hash of the diagram source and the theme colors, so diagrams are only rendered again
+     * when they change or another theme is active.
+     * @param {string} source - Mermaid diagram source, i.e. the body of a `mermaid` code block.
+     * @returns {Promise<string | undefined>} Path to the rendered diagram, or undefined if disabled or on error.
+     */
+    async renderDiagram(source: string): Promise<string | undefined> {
+        if (!this.settings.renderMermaidDiagrams || !source.trim()) {
+            return undefined;
+        }
+
+        const mermaidFolder = normalizePath(`${this.settings.thumbnailsFolder}/mermaid`);
+        const diagramPath = `${mermaidFolder}/${md5(`${this.getThemeKey()}\n${source.trim()}`)}.webp`;
+
+        if (await this.app.vault.adapter.exists(diagramPath)) {
+            this.deps.debugLog('Mermaid diagram already rendered:', diagramPath);
+            return diagramPath;
+        }
+
+        if (this.settings.dryRun) {
+            this.deps.debugLog('Dry run: Skipping Mermaid diagram rendering, using mock path');
+            return diagramPath;
+        }
+
+        try {
+            const imageData = await this.renderDiagramToWebp(source);
+
+            if (!(await this.app.vault.adapter.exists(mermaidFolder))) {
+                await this.app.vault.adapter.mkdir(mermaidFolder);
+            }
+            await this.app.vault.adapter.writeBinary(diagramPath, imageData);
+            this.deps.debugLog('Rendered Mermaid diagram to', diagramPath);
+            return diagramPath;
+        } catch (error) {
+            this.deps.errorLog('Error rendering Mermaid diagram:', error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Describes the active theme: light or dark mode and the resolved values of the theme variables Mermaid draws with.
+     * @returns {string} Theme description to hash along with the diagram source.
+     */
+    private getThemeKey(): string {
+        const style = getComputedStyle(document.body);
+        const mode = document.body.classList.contains('theme-dark') ? 'dark' : 'light';
+        return [mode, ...MERMAID_THEME_VARIABLES.map(variable => style.getPropertyValue(variable).trim())].join('|');
+    }
+
+    /**
+     * Renders a diagram to SVG and rasterizes it on a canvas filled with the theme background,
+     * since Mermaid draws with the colors of the current Obsidian theme.
+     * @param {string} source - Mermaid diagram source.
+     * @returns {Promise<ArrayBuffer>} WebP image data.
+     */
+    private async renderDiagramToWebp(source: string): Promise<ArrayBuffer> {
+        const mermaid = (await loadMermaid()) as Mermaid;
+        // Parsing first rejects invalid diagrams without leaving Mermaid's error output in the document
+        await mermaid.parse(source);
+        const { svg } = await mermaid.render(`featured-image-mermaid-${++this.renderCount}`, source);
+
+        const svgElement = new DOMParser().parseFromString(svg, 'image/svg+xml').documentElement;
+        const viewBox = (svgElement.getAttribute('viewBox') ?? '').split(/[\s,]+/).map(Number);
+        if (viewBox.length !== 4 || !(viewBox[2] > 0) || !(viewBox[3] > 0)) {
+            throw new Error('Rendered Mermaid diagram has no size');
+        }
+
+        // Mermaid sizes diagrams with `width="100%"`, which images loaded outside the document cannot resolve
+        const scale = Math.min(MERMAID_RENDER_WIDTH / viewBox[2], MERMAID_MAX_HEIGHT / viewBox[3]);
+        const width = Math.max(1, Math.round(viewBox[2] * scale));
+        const height = Math.max(1, Math.round(viewBox[3] * scale));
+        svgElement.setAttribute('width', String(width));
+        svgElement.setAttribute('height', String(height));
+        svgElement.removeAttribute('style');
+
+        // Data URLs keep the canvas untainted although labels are drawn with `<foreignObject>`
+        const svgUrl = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(new XMLSerializer().serializeToString(svgElement))}`;
+        const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+            const img = new Image();
+            img.onload = () => resolve(img);
+            img.onerror = () => reject(new Error('Failed to load rendered Mermaid diagram'));
+            img.src = svgUrl;
+        });
+
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            throw new Error('Failed to get 2D context for Mermaid rendering');
+        }
+
+        ctx.fillStyle = getComputedStyle(document.body).getPropertyValue('--background-primary').trim() || '#ffffff';
+        ctx.fillRect(0, 0, width, height);
+        ctx.drawImage(image, 0, 0, width, height);
+
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/webp', 0.85));
+        if (!blob) {
+            throw new Error('Failed to create blob from canvas');
+        }
+        return await blob.arrayBuffer();
+    }
+}
@@ -0,0 +1,146 @@
+import { App, TFile, loadPdfJs, normalizePath } from 'obsidian';
+import { FeaturedImageSettings } from '../settings';
+import { md5 } from '../utils/hash';
+
+interface PdfPageServiceDeps {
+    debugLog: (...args: unknown[]) => void;
+    errorLog: (...args: unknown[]) => void;
+}
+
+/**
+ * The parts of the PDF.js API used to render a page.
+ */
+interface PdfViewport {
+    width: number;
+    height: number;
+}
+
+interface PdfPage {
+    getViewport(params: { scale: number }): PdfViewport;
+    render(params: { canvasContext: CanvasRenderingContext2D; viewport: PdfViewport }): { promise: Promise<void> };
+    cleanup(): void;
+}
+
+interface PdfDocument {
+    numPages: number;
+    getPage(pageNumber: number): Promise<PdfPage>;
+    destroy(): Promise<void>;
+}
+
+interface PdfJs {
+    getDocument(source: { data: Uint8Array }): { promise: Promise<PdfDocument> };
+}
+
+/**
+ * Width of rendered pages in pixels; large enough to serve as the source of resized thumbnails.
+ */
+const PDF_RENDER_WIDTH = 1200;
+
+/**
+ * Renders PDF pages to WebP images with the PDF.js build shipped with Obsidian.
+ */
+export class PdfPageService {
+    private settings: FeaturedImageSettings;
+
+    constructor(
+        private readonly app: App,
+        settings: FeaturedImageSettings,
+        private readonly deps: PdfPageServiceDeps
+    ) {
+        this.settings = settings;
+    }
+
+    /**
+     * Updates service configuration when settings change.
+     * @param {FeaturedImageSettings} settings - Latest plugin settings.
+     */
+    setSettings(settings: FeaturedImageSettings): void {
+        this.settings = settings;
+    }
+
+    /**
+     * Renders a page of a PDF and saves it under the `pdf` subfolder.
+     * The file name is derived from the PDF path, page and modification time, so unchanged PDFs are rendered once.
+     * @param {string} pdfPath - Vault path of the PDF.
+     * @param {number} pageNumber - 1-based page number; pages past the end render the last page.
+     * @returns {Promise<string | undefined>} Path to the rendered page, or undefined if disabled or on error.
+     */
+    async renderPage(pdfPath: string, pageNumber: number): Promise<string | undefined> {
+        if (!this.settings.renderPdfPages) {
+            return undefined;
+        }
+
+        const file = this.app.vault.getAbstractFileByPath(normalizePath(pdfPath));
+        if (!(file instanceof TFile)) {
+            this.deps.errorLog('PDF not found:', pdfPath);
+            return undefined;
+        }
+
+        const pdfFolder = normalizePath(`${this.settings.thumbnailsFolder}/pdf`);
+        const versionHash = md5(`${pageNumber}_${file.stat.mtime}`).substring(0, 8);
+        const pagePath = `${pdfFolder}/${md5(file.path)}_${versionHash}.webp`;
+
+        if (await this.app.vault.adapter.exists(pagePath)) {
+            this.deps.debugLog('Rendered PDF page already exists:', pagePath);
+            return pagePath;
+        }
+
+        if (this.settings.dryRun) {
+            this.deps.debugLog('Dry run: Skipping PDF page rendering, using mock path');
+            return pagePath;
+        }
+
+        try {
+            const imageData = await this.renderPageToWebp(file, pageNumber);
+
+            if (!(await this.app.vault.adapter.exists(pdfFolder))) {
+                await this.app.vault.adapter.mkdir(pdfFolder);
+            }
+            await this.app.vault.adapter.writeBinary(pagePath, imageData);
+            this.deps.debugLog(`Rendered page ${pageNumber} of ${file.path} to ${pagePath}`);
+            return pagePath;
+        } catch (error) {
+            this.deps.errorLog('Error rendering PDF page:', file.path, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Draws a PDF page on a white canvas and encodes it as WebP.
+     * @param {TFile} file - The PDF file.
+     * @param {number} pageNumber - 1-based page number.
+     * @returns {Promise<ArrayBuffer>} WebP image data.
+     */
+    private async renderPageToWebp(file: TFile, pageNumber: number): Promise<ArrayBuffer> {
+        const pdfjs = (await loadPdfJs()) as PdfJs;
+        const data = await this.app.vault.adapter.readBinary(file.path);
+        const pdf = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+
+        try {
+            const page = await pdf.getPage(Math.min(Math.max(pageNumber, 1), pdf.numPages));
+            const viewport = page.getViewport({ scale: PDF_RENDER_WIDTH / page.getViewport({ scale: 1 }).width });
+
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.round(viewport.width);
+            canvas.height = Math.round(viewport.height);
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                throw new Error('Failed to get 2D context for PDF rendering');
+            }
+
+            // Pages without a background are transparent
+            ctx.fillStyle = '#ffffff';
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+            await page.render({ canvasContext: ctx, viewport }).promise;
+            page.cleanup();
+
+            const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/webp', 0.85));
+            if (!blob) {
+                throw new Error('Failed to create blob from canvas');
+            }
+            return await blob.arrayBuffer();
+        } finally {
+            await pdf.destroy();
+        }
+    }
+}
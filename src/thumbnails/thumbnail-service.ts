@@ -1,6 +1,32 @@
 import { App, TFile, normalizePath } from 'obsidian';
 import { FeaturedImageSettings } from '../settings';
 import { md5 } from '../utils/hash';
+import { decodeImageFallback } from './image-decoders';
+
+/**
+ * Area of a source image that is drawn into the thumbnail.
+ */
+interface SourceRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Largest side length sampled when looking for letterbox bars; larger images are scaled down first.
+ */
+const MAX_LETTERBOX_SAMPLE_SIZE = 2048;
+
+/**
+ * Channel value up to which a pixel counts as part of a black bar. Compression noise keeps bars from being pure black.
+ */
+const LETTERBOX_MAX_CHANNEL = 24;
+
+/**
+ * Subfolders of the thumbnails folder holding video thumbnails and frames, the only images cropped for letterbox bars.
+ */
+const VIDEO_THUMBNAIL_SUBFOLDERS = ['youtube', 'vimeo', 'dailymotion', 'loom', 'twitch', 'video'];
 
 interface ThumbnailServiceDeps {
     debugLog: (...args: unknown[]) => void;
@@ -87,24 +113,30 @@ export class ThumbnailService {
             const imageUrl = URL.createObjectURL(blob);
 
             try {
-                const image = await this.loadImage(imageUrl);
-                const sourceWidth = image.naturalWidth || image.width || 0;
-                const sourceHeight = image.naturalHeight || image.height || 0;
+                const { image, width: sourceWidth, height: sourceHeight } = await this.loadDrawableImage(imageUrl, imageBuffer, imagePath);
 
                 if (sourceWidth <= 0 || sourceHeight <= 0) {
                     this.deps.errorLog('Unable to determine source image dimensions:', imagePath);
                     return undefined;
                 }
 
+                // Artwork, screenshots and diagrams may have dark borders of their own, so only video images are cropped
+                const source = this.isVideoThumbnail(imagePath)
+                    ? this.detectContentBounds(image, sourceWidth, sourceHeight)
+                    : { x: 0, y: 0, width: sourceWidth, height: sourceHeight };
+                if (source.width !== sourceWidth || source.height !== sourceHeight) {
+                    this.deps.debugLog(`Cropping letterbox bars from ${imagePath} to ${source.width}x${source.height}`);
+                }
+
                 const { width, height } = this.calculateThumbnailDimensions(
-                    sourceWidth,
-                    sourceHeight,
+                    source.width,
+                    source.height,
                     this.settings.maxResizedWidth,
                     this.settings.maxResizedHeight,
                     this.settings.fillResizedDimensions
                 );
 
-                const resizedImageData = await this.resizeImage(image, width, height, this.settings.fillResizedDimensions);
+                const resizedImageData = await this.resizeImage(image, source, width, height, this.settings.fillResizedDimensions);
 
                 await this.app.vault.adapter.writeBinary(thumbnailPath, resizedImageData);
                 return thumbnailPath;
@@ -165,6 +197,42 @@ export class ThumbnailService {
         });
     }
 
+    /**
+     * Loads an image for drawing onto the canvas. Formats the renderer cannot display, such as TIFF,
+     * are decoded by the built-in decoders instead and drawn onto a separate canvas.
+     * @param {string} url - Object URL of the image data.
+     * @param {ArrayBuffer} data - Image file contents.
+     * @param {string} imagePath - Path of the image, for logging.
+     * @returns {Promise<{image: CanvasImageSource, width: number, height: number}>} Drawable image and its natural dimensions.
+     * @throws {Error} If neither the renderer nor the decoders can read the image.
+     */
+    private async loadDrawableImage(
+        url: string,
+        data: ArrayBuffer,
+        imagePath: string
+    ): Promise<{ image: CanvasImageSource; width: number; height: number }> {
+        try {
+            const image = await this.loadImage(url);
+            return { image, width: image.naturalWidth || image.width || 0, height: image.naturalHeight || image.height || 0 };
+        } catch {
+            const decoded = decodeImageFallback(data);
+            if (!decoded) {
+                throw new Error(`Image format not supported: ${imagePath}`);
+            }
+            this.deps.debugLog(`Decoded ${imagePath} with fallback decoder (${decoded.width}x${decoded.height})`);
+
+            const canvas = document.createElement('canvas');
+            canvas.width = decoded.width;
+            canvas.height = decoded.height;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                throw new Error('Failed to get 2D context for decoded image');
+            }
+            ctx.putImageData(new ImageData(decoded.pixels, decoded.width, decoded.height), 0, 0);
+            return { image: canvas, width: decoded.width, height: decoded.height };
+        }
+    }
+
     /**
      * Calculates the dimensions for the thumbnail based on max constraints and fill mode.
      * @param {number} srcWidth - Original image width.
@@ -219,15 +287,125 @@ export class ThumbnailService {
         return { width, height };
     }
 
+    /**
+     * Checks whether an image is a downloaded video thumbnail or a captured video frame.
+     * @param {string} imagePath - Vault path of the image.
+     * @returns {boolean} True when the image is inside one of the video subfolders.
+     */
+    private isVideoThumbnail(imagePath: string): boolean {
+        const path = normalizePath(imagePath);
+        return VIDEO_THUMBNAIL_SUBFOLDERS.some(subfolder =>
+            path.startsWith(`${normalizePath(`${this.settings.thumbnailsFolder}/${subfolder}`)}/`)
+        );
+    }
+
+    /**
+     * Finds the content of an image inside letterbox or pillarbox bars, e.g. a vertical video frame padded to 16:9.
+     * Only black bars of similar size on one pair of opposite sides are detected, so dark or framed images are left intact.
+     * @param {CanvasImageSource} img - Source image.
+     * @param {number} imageWidth - Natural width of the image.
+     * @param {number} imageHeight - Natural height of the image.
+     * @returns {SourceRect} Area inside the bars, or the whole image when it has none.
+     */
+    private detectContentBounds(img: CanvasImageSource, imageWidth: number, imageHeight: number): SourceRect {
+        const fullImage = { x: 0, y: 0, width: imageWidth, height: imageHeight };
+        const canvas = this.ensureCanvas();
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            return fullImage;
+        }
+
+        const scale = Math.min(1, MAX_LETTERBOX_SAMPLE_SIZE / Math.max(imageWidth, imageHeight));
+        const width = Math.max(1, Math.round(imageWidth * scale));
+        const height = Math.max(1, Math.round(imageHeight * scale));
+        canvas.width = width;
+        canvas.height = height;
+
+        let data: Uint8ClampedArray;
+        try {
+            ctx.drawImage(img, 0, 0, width, height);
+            data = ctx.getImageData(0, 0, width, height).data;
+        } catch (error) {
+            this.deps.debugLog('Unable to read image pixels for letterbox detection:', error);
+            return fullImage;
+        }
+
+        // Transparent pixels are not bars, even though their color channels are usually zero
+        const isBarPixel = (x: number, y: number): boolean => {
+            const offset = (y * width + x) * 4;
+            return (
+                data[offset + 3] === 255 &&
+                data[offset] <= LETTERBOX_MAX_CHANNEL &&
+                data[offset + 1] <= LETTERBOX_MAX_CHANNEL &&
+                data[offset + 2] <= LETTERBOX_MAX_CHANNEL
+            );
+        };
+
+        // A line belongs to a bar when nearly all of its pixels are black, which tolerates stray compression artifacts
+        const isBarLine = (length: number, isBar: (index: number) => boolean): boolean => {
+            let misses = 0;
+            for (let index = 0; index < length; index++) {
+                if (!isBar(index) && ++misses > length * 0.01) {
+                    return false;
+                }
+            }
+            return true;
+        };
+
+        const countBarLines = (count: number, length: number, isBar: (line: number, index: number) => boolean): number => {
+            let lines = 0;
+            while (lines < count && isBarLine(length, index => isBar(lines, index))) {
+                lines++;
+            }
+            return lines;
+        };
+
+        const top = countBarLines(height, width, (row, x) => isBarPixel(x, row));
+        const bottom = countBarLines(height - top, width, (row, x) => isBarPixel(x, height - 1 - row));
+        const left = countBarLines(width, height, (column, y) => isBarPixel(column, y));
+        const right = countBarLines(width - left, height, (column, y) => isBarPixel(width - 1 - column, y));
+
+        // Bars must be symmetric, cover a noticeable part of the image and leave enough content behind
+        const isBarPair = (start: number, end: number, size: number): boolean =>
+            Math.min(start, end) >= size * 0.04 && Math.abs(start - end) <= Math.max(2, size * 0.02) && start + end <= size * 0.8;
+
+        // Bars on all four sides point to a dark image with centered content rather than a padded frame
+        const isLetterbox = isBarPair(top, bottom, height);
+        const isPillarbox = isBarPair(left, right, width);
+        if (isLetterbox === isPillarbox) {
+            return fullImage;
+        }
+
+        // Sampled lines at the bar edges blend bar and content, so one extra line is cropped when scaled down
+        const margin = scale < 1 ? 1 : 0;
+        const bounds = { ...fullImage };
+        if (isLetterbox) {
+            bounds.y = Math.ceil((top + margin) / scale);
+            bounds.height = Math.floor((height - bottom - margin) / scale) - bounds.y;
+        } else {
+            bounds.x = Math.ceil((left + margin) / scale);
+            bounds.width = Math.floor((width - right - margin) / scale) - bounds.x;
+        }
+
+        return bounds.width > 0 && bounds.height > 0 ? bounds : fullImage;
+    }
+
     /**
      * Resizes an image using the configured alignment settings.
-     * @param {HTMLImageElement} img - Source image element.
+     * @param {CanvasImageSource} img - Source image.
+     * @param {SourceRect} source - Area of the image to draw, e.g. the content inside letterbox bars.
      * @param {number} width - Target width for the resized image.
      * @param {number} height - Target height for the resized image.
      * @param {boolean} fillMax - Whether to crop and fill exact dimensions.
      * @returns {Promise<ArrayBuffer>} WebP image data as ArrayBuffer.
      */
-    private async resizeImage(img: HTMLImageElement, width: number, height: number, fillMax: boolean): Promise<ArrayBuffer> {
+    private async resizeImage(
+        img: CanvasImageSource,
+        source: SourceRect,
+        width: number,
+        height: number,
+        fillMax: boolean
+    ): Promise<ArrayBuffer> {
         const canvas = this.ensureCanvas();
         const ctx = canvas.getContext('2d');
 
@@ -238,10 +416,10 @@ export class ThumbnailService {
         canvas.width = width;
         canvas.height = height;
 
-        let sourceX = 0;
-        let sourceY = 0;
-        const originalWidth = img.naturalWidth || img.width;
-        const originalHeight = img.naturalHeight || img.height;
+        let sourceX = source.x;
+        let sourceY = source.y;
+        const originalWidth = source.width;
+        const originalHeight = source.height;
         let sourceWidth = originalWidth;
         let sourceHeight = originalHeight;
 
@@ -254,14 +432,14 @@ export class ThumbnailService {
 
                 switch (this.settings.resizedHorizontalAlign) {
                     case 'left':
-                        sourceX = 0;
+                        sourceX = source.x;
                         break;
                     case 'right':
-                        sourceX = originalWidth - sourceWidth;
+                        sourceX = source.x + originalWidth - sourceWidth;
                         break;
                     case 'center':
                     default:
-                        sourceX = (originalWidth - sourceWidth) / 2;
+                        sourceX = source.x + (originalWidth - sourceWidth) / 2;
                         break;
                 }
             } else if (aspectRatio < targetRatio) {
@@ -269,14 +447,14 @@ export class ThumbnailService {
 
                 switch (this.settings.resizedVerticalAlign) {
                     case 'top':
-                        sourceY = 0;
+                        sourceY = source.y;
                         break;
                     case 'bottom':
-                        sourceY = originalHeight - sourceHeight;
+                        sourceY = source.y + originalHeight - sourceHeight;
                         break;
                     case 'center':
                     default:
-                        sourceY = (originalHeight - sourceHeight) / 2;
+                        sourceY = source.y + (originalHeight - sourceHeight) / 2;
                         break;
                 }
             }
@@ -0,0 +1,114 @@
+import { App, TFile, getAllTags, normalizePath } from 'obsidian';
+import { DEFAULT_TITLE_CARD_TEMPLATE, FeaturedImageSettings } from '../settings';
+import { md5 } from '../utils/hash';
+
+interface TitleCardServiceDeps {
+    debugLog: (...args: unknown[]) => void;
+    errorLog: (...args: unknown[]) => void;
+}
+
+/**
+ * Generates SVG title cards for notes without an image.
+ */
+export class TitleCardService {
+    private settings: FeaturedImageSettings;
+
+    constructor(
+        private readonly app: App,
+        settings: FeaturedImageSettings,
+        private readonly deps: TitleCardServiceDeps
+    ) {
+        this.settings = settings;
+    }
+
+    /**
+     * Updates service configuration when settings change.
+     * @param {FeaturedImageSettings} settings - Latest plugin settings.
+     */
+    setSettings(settings: FeaturedImageSettings): void {
+        this.settings = settings;
+    }
+
+    /**
+     * Renders the title card template for a note and saves it under the `generated` subfolder.
+     * The file name is derived from the note path and the card content, so a changed title, tag or template
+     * produces a new card and its resized thumbnail is rebuilt. Previous cards are removed by the unused image cleanup.
+     * @param {TFile} file - The note to create a title card for.
+     * @returns {Promise<string | undefined>} Path to the title card, or undefined if disabled or on error.
+     */
+    async createTitleCard(file: TFile): Promise<string | undefined> {
+        if (!this.settings.generateTitleCards) {
+            return undefined;
+        }
+
+        const generatedFolder = this.getGeneratedFolder();
+        const svg = this.renderTemplate(file);
+        const cardPath = `${generatedFolder}/${md5(file.path)}_${md5(svg).substring(0, 8)}.svg`;
+
+        if (this.settings.dryRun) {
+            this.deps.debugLog('Dry run: Skipping title card creation, using mock path');
+            return cardPath;
+        }
+
+        try {
+            if (!(await this.app.vault.adapter.exists(generatedFolder))) {
+                await this.app.vault.adapter.mkdir(generatedFolder);
+            }
+
+            if (await this.app.vault.adapter.exists(cardPath)) {
+                return cardPath;
+            }
+
+            await this.app.vault.adapter.write(cardPath, svg);
+            this.deps.debugLog('Title card generated:', cardPath, 'for', file.path);
+            return cardPath;
+        } catch (error) {
+            this.deps.errorLog('Error creating title card:', error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Checks whether a path points to a generated title card.
+     * @param {string} path - Vault-relative path.
+     * @returns {boolean} True when the path is inside the `generated` subfolder.
+     */
+    isTitleCard(path: string): boolean {
+        return normalizePath(path).startsWith(`${this.getGeneratedFolder()}/`);
+    }
+
+    private getGeneratedFolder(): string {
+        return normalizePath(`${this.settings.thumbnailsFolder}/generated`);
+    }
+
+    /**
+     * Fills the title card template. Supported placeholders: `{{title}}`, `{{folder}}`, `{{tags}}` (all tags),
+     * `{{tag}}` (first tag), `{{color}}` and `{{colorDark}}` (derived from the path hash).
+     * @param {TFile} file - The note being rendered.
+     * @returns {string} SVG markup.
+     */
+    private renderTemplate(file: TFile): string {
+        const cache = this.app.metadataCache.getFileCache(file);
+        const tags = cache ? Array.from(new Set(getAllTags(cache) ?? [])) : [];
+        const hue = parseInt(md5(file.path).substring(0, 6), 16) % 360;
+        const folder = file.parent && !file.parent.isRoot() ? file.parent.path : '';
+
+        const values: Record<string, string> = {
+            title: file.basename,
+            folder,
+            tags: tags.join(' '),
+            tag: tags[0] ?? '',
+            color: `hsl(${hue}, 55%, 45%)`,
+            colorDark: `hsl(${hue}, 55%, 25%)`
+        };
+
+        const template = this.settings.titleCardTemplate.trim() || DEFAULT_TITLE_CARD_TEMPLATE;
+        return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder: string, name: string) =>
+            name in values ? escapeXml(values[name]) : placeholder
+        );
+    }
+}
+
+const escapeXml = (value: string): string => {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+};
@@ -0,0 +1,173 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { FeaturedImageSettings } from '../settings';
+import { md5 } from '../utils/hash';
+
+interface VideoFrameServiceDeps {
+    debugLog: (...args: unknown[]) => void;
+    errorLog: (...args: unknown[]) => void;
+}
+
+/**
+ * Time allowed for loading and seeking a video before giving up.
+ */
+const VIDEO_LOAD_TIMEOUT_MS = 15000;
+
+/**
+ * Captures frames of local videos as WebP images.
+ */
+export class VideoFrameService {
+    private settings: FeaturedImageSettings;
+
+    constructor(
+        private readonly app: App,
+        settings: FeaturedImageSettings,
+        private readonly deps: VideoFrameServiceDeps
+    ) {
+        this.settings = settings;
+    }
+
+    /**
+     * Updates service configuration when settings change.
+     * @param {FeaturedImageSettings} settings - Latest plugin settings.
+     */
+    setSettings(settings: FeaturedImageSettings): void {
+        this.settings = settings;
+    }
+
+    /**
+     * Captures the frame at the configured offset of a video and saves it under the `video` subfolder.
+     * The file name is derived from the video path, offset and modification time, so unchanged videos are captured once.
+     * @param {string} videoPath - Vault path of the video.
+     * @returns {Promise<string | undefined>} Path to the captured frame, or undefined if disabled or on error.
+     */
+    async captureFrame(videoPath: string): Promise<string | undefined> {
+        if (!this.settings.captureVideoFrames) {
+            return undefined;
+        }
+
+        const file = this.app.vault.getAbstractFileByPath(normalizePath(videoPath));
+        if (!(file instanceof TFile)) {
+            this.deps.errorLog('Video not found:', videoPath);
+            return undefined;
+        }
+
+        const videoFolder = this.getVideoFolder();
+        const offset = this.settings.videoFrameOffset;
+        const versionHash = md5(`${offset}_${file.stat.mtime}`).substring(0, 8);
+        const framePath = `${videoFolder}/${md5(file.path)}_${versionHash}.webp`;
+
+        if (await this.app.vault.adapter.exists(framePath)) {
+            this.deps.debugLog('Video frame already exists:', framePath);
+            return framePath;
+        }
+
+        if (this.settings.dryRun) {
+            this.deps.debugLog('Dry run: Skipping video frame capture, using mock path');
+            return framePath;
+        }
+
+        try {
+            const imageData = await this.captureFrameAsWebp(file, offset);
+
+            if (!(await this.app.vault.adapter.exists(videoFolder))) {
+                await this.app.vault.adapter.mkdir(videoFolder);
+            }
+            await this.app.vault.adapter.writeBinary(framePath, imageData);
+            this.deps.debugLog(`Captured frame at ${offset}s of ${file.path} to ${framePath}`);
+            return framePath;
+        } catch (error) {
+            this.deps.errorLog('Error capturing video frame:', file.path, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Checks whether a path points to a captured video frame.
+     * @param {string} path - Vault-relative path.
+     * @returns {boolean} True when the path is inside the `video` subfolder.
+     */
+    isVideoFrame(path: string): boolean {
+        return normalizePath(path).startsWith(`${this.getVideoFolder()}/`);
+    }
+
+    private getVideoFolder(): string {
+        return normalizePath(`${this.settings.thumbnailsFolder}/video`);
+    }
+
+    /**
+     * Loads a video in an offscreen `<video>` element, seeks to the offset and draws the frame on a canvas.
+     * The video is loaded from an object URL rather than its resource path so the canvas is not tainted.
+     * @param {TFile} file - The video file.
+     * @param {number} offset - Position in seconds; videos shorter than this use the middle frame.
+     * @returns {Promise<ArrayBuffer>} WebP image data.
+     */
+    private async captureFrameAsWebp(file: TFile, offset: number): Promise<ArrayBuffer> {
+        const data = await this.app.vault.adapter.readBinary(file.path);
+        const videoUrl = URL.createObjectURL(new Blob([data]));
+        const video = document.createElement('video');
+        video.muted = true;
+        video.preload = 'auto';
+
+        try {
+            const loaded = waitForVideoEvent(video, 'loadeddata');
+            video.src = videoUrl;
+            await loaded;
+
+            const duration = Number.isFinite(video.duration) ? video.duration : 0;
+            const seeked = waitForVideoEvent(video, 'seeked');
+            video.currentTime = offset < duration ? offset : duration / 2;
+            await seeked;
+
+            if (!video.videoWidth || !video.videoHeight) {
+                throw new Error('Video has no visual track');
+            }
+
+            const canvas = document.createElement('canvas');
+            canvas.width = video.videoWidth;
+            canvas.height = video.videoHeight;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                throw new Error('Failed to get 2D context for video frame');
+            }
+            ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+            const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/webp', 0.85));
+            if (!blob) {
+                throw new Error('Failed to create blob from canvas');
+            }
+            return await blob.arrayBuffer();
+        } finally {
+            video.removeAttribute('src');
+            video.load();
+            URL.revokeObjectURL(videoUrl);
+        }
+    }
+}
+
+/**
+ * Waits for a media event, rejecting when the video fails to load or does not respond in time.
+ */
+const waitForVideoEvent = (video: HTMLVideoElement, eventName: 'loadeddata' | 'seeked'): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        const cleanup = () => {
+            window.clearTimeout(timeout);
+            video.removeEventListener(eventName, onEvent);
+            video.removeEventListener('error', onError);
+        };
+        const onEvent = () => {
+            cleanup();
+            resolve();
+        };
+        const onError = () => {
+            cleanup();
+            reject(new Error(video.error?.message || 'Video could not be loaded'));
+        };
+        const timeout = window.setTimeout(() => {
+            cleanup();
+            reject(new Error(`Timed out waiting for video ${eventName}`));
+        }, VIDEO_LOAD_TIMEOUT_MS);
+
+        video.addEventListener(eventName, onEvent);
+        video.addEventListener('error', onError);
+    });
+};
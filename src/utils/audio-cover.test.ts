@@ -0,0 +1,233 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { readAudioCover } from './audio-cover';
+
+const JPEG = [0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10];
+const PNG = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const ascii = (text: string): number[] => Array.from(text, char => char.charCodeAt(0));
+const uint32 = (value: number): number[] => [(value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+const syncSafe = (value: number): number[] => [(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f];
+const buffer = (values: number[]): ArrayBuffer => new Uint8Array(values).buffer;
+
+/**
+ * Builds an ID3v2 tag from frames that already carry their headers.
+ */
+const id3 = (version: number, frames: number[][], flags = 0): number[] => {
+    const body = frames.flat();
+    return [...ascii('ID3'), version, 0, flags, ...syncSafe(body.length), ...body];
+};
+
+/**
+ * Builds an ID3v2.3 or v2.4 frame, whose size v2.4 stores as a sync-safe integer.
+ */
+const frame = (version: 3 | 4, id: string, body: number[], formatFlags = 0): number[] => [
+    ...ascii(id),
+    ...(version === 4 ? syncSafe(body.length) : uint32(body.length)),
+    0,
+    formatFlags,
+    ...body
+];
+
+/**
+ * Builds an `APIC` frame body with a Latin-1 description.
+ */
+const apic = (mimeType: string, pictureType: number, data: number[], description = ''): number[] => [
+    0,
+    ...ascii(mimeType),
+    0,
+    pictureType,
+    ...ascii(description),
+    0,
+    ...data
+];
+
+/**
+ * Builds a FLAC metadata block; the last block has the high bit of its type set.
+ */
+const flacBlock = (type: number, body: number[], isLast = false): number[] => [
+    type | (isLast ? 0x80 : 0),
+    (body.length >> 16) & 0xff,
+    (body.length >> 8) & 0xff,
+    body.length & 0xff,
+    ...body
+];
+
+const flacPicture = (pictureType: number, mimeType: string, data: number[]): number[] => [
+    ...uint32(pictureType),
+    ...uint32(mimeType.length),
+    ...ascii(mimeType),
+    ...uint32(0),
+    ...Array<number>(16).fill(0),
+    ...uint32(data.length),
+    ...data
+];
+
+const box = (type: string, ...children: number[][]): number[] => {
+    const body = children.flat();
+    return [...uint32(8 + body.length), ...ascii(type), ...body];
+};
+
+/**
+ * Builds an M4A file whose iTunes metadata holds a cover of the given data type (13: JPEG, 14: PNG).
+ */
+const m4a = (dataType: number, data: number[]): number[] => [
+    ...box('ftyp', ascii('M4A '), uint32(0)),
+    ...box(
+        'moov',
+        box('mvhd', Array<number>(8).fill(0)),
+        box(
+            'udta',
+            box(
+                'meta',
+                uint32(0),
+                box('hdlr', Array<number>(8).fill(0)),
+                box('ilst', box('covr', box('data', uint32(dataType), uint32(0), data)))
+            )
+        )
+    )
+];
+
+const bytesOf = (cover: ReturnType<typeof readAudioCover>): number[] => Array.from(new Uint8Array(cover?.data ?? new ArrayBuffer(0)));
+
+describe('readAudioCover', () => {
+    describe('ID3v2', () => {
+        it('reads APIC frames of v2.3 tags, preferring the front cover', () => {
+            const tag = id3(3, [
+                frame(3, 'TIT2', [0, ...ascii('Title')]),
+                frame(3, 'APIC', apic('image/png', 4, PNG, 'Back')),
+                frame(3, 'APIC', apic('image/jpeg', 3, JPEG, 'Front'))
+            ]);
+            const cover = readAudioCover(buffer([...tag, ...Array<number>(16).fill(0)]));
+
+            assert.equal(cover?.mimeType, 'image/jpeg');
+            assert.deepEqual(bytesOf(cover), JPEG);
+        });
+
+        it('falls back to the first picture without a front cover', () => {
+            const tag = id3(3, [frame(3, 'APIC', apic('image/png', 0, PNG)), frame(3, 'APIC', apic('image/jpeg', 4, JPEG))]);
+
+            assert.deepEqual(bytesOf(readAudioCover(buffer(tag))), PNG);
+        });
+
+        it('reads v2.4 frames with sync-safe sizes and UTF-16 descriptions', () => {
+            // Encoding 1 (UTF-16 with BOM) ends the description with two zero bytes
+            const body = [1, ...ascii('image/png'), 0, 3, 0xff, 0xfe, ...ascii('A'), 0, 0, 0, ...PNG, ...Array<number>(200).fill(7)];
+            const cover = readAudioCover(buffer(id3(4, [frame(4, 'APIC', body)])));
+
+            assert.equal(cover?.mimeType, 'image/png');
+            assert.deepEqual(bytesOf(cover), [...PNG, ...Array<number>(200).fill(7)]);
+        });
+
+        it('reads PIC frames of v2.2 tags', () => {
+            const body = [0, ...ascii('JPG'), 3, 0, ...JPEG];
+            const pic = [...ascii('PIC'), 0, 0, body.length, ...body];
+
+            assert.deepEqual(bytesOf(readAudioCover(buffer(id3(2, [pic])))), JPEG);
+        });
+
+        it('removes the unsynchronisation of v2.3 tags', () => {
+            const tag = id3(3, [frame(3, 'APIC', apic('image/jpeg', 3, JPEG))]);
+            const body = tag.slice(10).flatMap(value => (value === 0xff ? [0xff, 0x00] : [value]));
+            const unsynchronised = [...ascii('ID3'), 3, 0, 0x80, ...syncSafe(body.length), ...body];
+
+            assert.deepEqual(bytesOf(readAudioCover(buffer(unsynchronised))), JPEG);
+        });
+
+        it('skips compressed frames', () => {
+            const tag = id3(3, [frame(3, 'APIC', apic('image/jpeg', 3, JPEG), 0x80)]);
+
+            assert.equal(readAudioCover(buffer(tag)), undefined);
+        });
+
+        it('uses the declared MIME type when the data has no known signature', () => {
+            const cover = readAudioCover(buffer(id3(3, [frame(3, 'APIC', apic(' Image/JPG ', 3, [1, 2, 3]))])));
+
+            assert.equal(cover?.mimeType, 'image/jpeg');
+        });
+    });
+
+    describe('FLAC', () => {
+        const streamInfo = flacBlock(0, Array<number>(34).fill(0));
+
+        it('reads PICTURE blocks after other metadata blocks', () => {
+            const flac = [
+                ...ascii('fLaC'),
+                ...streamInfo,
+                ...flacBlock(6, flacPicture(0, 'image/png', PNG)),
+                ...flacBlock(6, flacPicture(3, 'image/jpeg', JPEG), true),
+                ...Array<number>(8).fill(0xff)
+            ];
+            const cover = readAudioCover(buffer(flac));
+
+            assert.equal(cover?.mimeType, 'image/jpeg');
+            assert.deepEqual(bytesOf(cover), JPEG);
+        });
+
+        it('stops at the last metadata block', () => {
+            const flac = [
+                ...ascii('fLaC'),
+                ...flacBlock(0, Array<number>(34).fill(0), true),
+                ...flacBlock(6, flacPicture(3, 'image/png', PNG))
+            ];
+
+            assert.equal(readAudioCover(buffer(flac)), undefined);
+        });
+
+        it('reads FLAC streams that start with an ID3 tag', () => {
+            const flac = [
+                ...id3(3, [frame(3, 'TIT2', [0, ...ascii('Title')])]),
+                ...ascii('fLaC'),
+                ...flacBlock(6, flacPicture(3, 'image/png', PNG), true)
+            ];
+
+            assert.deepEqual(bytesOf(readAudioCover(buffer(flac))), PNG);
+        });
+    });
+
+    describe('MP4', () => {
+        it('reads the covr atom of the iTunes metadata', () => {
+            const cover = readAudioCover(buffer(m4a(14, PNG)));
+
+            assert.equal(cover?.mimeType, 'image/png');
+            assert.deepEqual(bytesOf(cover), PNG);
+        });
+
+        it('takes the MIME type from the data type when the data has no known signature', () => {
+            assert.equal(readAudioCover(buffer(m4a(13, [1, 2, 3])))?.mimeType, 'image/jpeg');
+        });
+
+        it('returns nothing without metadata', () => {
+            const mp4 = [...box('ftyp', ascii('M4A '), uint32(0)), ...box('moov', box('mvhd', Array<number>(8).fill(0)))];
+
+            assert.equal(readAudioCover(buffer(mp4)), undefined);
+        });
+    });
+
+    describe('truncated input', () => {
+        it('returns nothing for an ID3 frame cut off before the image data', () => {
+            const tag = id3(3, [frame(3, 'APIC', apic('image/jpeg', 3, JPEG))]);
+
+            assert.equal(readAudioCover(buffer(tag.slice(0, 10 + 10 + 5))), undefined);
+            assert.equal(readAudioCover(buffer(tag.slice(0, 6))), undefined);
+        });
+
+        it('returns nothing for a FLAC picture block cut off in its header', () => {
+            const flac = [...ascii('fLaC'), ...flacBlock(6, flacPicture(3, 'image/png', PNG), true)];
+
+            assert.equal(readAudioCover(buffer(flac.slice(0, 4 + 4 + 20))), undefined);
+            assert.equal(readAudioCover(buffer(flac.slice(0, 6))), undefined);
+        });
+
+        it('returns nothing for an MP4 file cut off before the cover data', () => {
+            const mp4 = m4a(14, PNG);
+
+            assert.equal(readAudioCover(buffer(mp4.slice(0, mp4.length - PNG.length - 12))), undefined);
+        });
+
+        it('returns nothing for files that are not audio', () => {
+            assert.equal(readAudioCover(buffer([])), undefined);
+            assert.equal(readAudioCover(buffer(ascii('not an audio file'))), undefined);
+        });
+    });
+});
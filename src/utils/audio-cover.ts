@@ -0,0 +1,301 @@
+/**
+ * Cover art embedded in an audio file.
+ */
+interface AudioCover {
+    mimeType: string;
+    data: ArrayBuffer;
+}
+
+/**
+ * Embedded picture found while reading tags, before the best one is chosen.
+ */
+interface EmbeddedPicture {
+    mimeType: string;
+    pictureType: number; // ID3 and FLAC picture type; 3 is the front cover
+    data: Uint8Array;
+}
+
+/**
+ * Picture type of the front cover in ID3 and FLAC tags.
+ */
+const FRONT_COVER = 3;
+
+/**
+ * Reads the cover art of an MP3 (ID3v2 `APIC`/`PIC` frames), MP4/M4A (`covr` atom) or FLAC (`PICTURE` block) file.
+ * The front cover is preferred when a file contains several pictures.
+ * @param {ArrayBuffer} data - Audio file contents.
+ * @returns {AudioCover | undefined} The cover image and its MIME type, if the file has one.
+ */
+export const readAudioCover = (data: ArrayBuffer): AudioCover | undefined => {
+    const bytes = new Uint8Array(data);
+    const pictures: EmbeddedPicture[] = [];
+
+    // FLAC files may start with an ID3 tag as well
+    let offset = 0;
+    if (readAscii(bytes, 0, 3) === 'ID3' && bytes.length >= 10) {
+        pictures.push(...readId3Pictures(bytes));
+        offset = 10 + readSyncSafeInteger(bytes, 6) + (bytes[5] & 0x10 ? 10 : 0);
+    }
+
+    if (readAscii(bytes, offset, 4) === 'fLaC') {
+        pictures.push(...readFlacPictures(bytes, offset + 4));
+    } else if (readAscii(bytes, 4, 4) === 'ftyp') {
+        pictures.push(...readMp4Pictures(bytes));
+    }
+
+    const picture = pictures.find(candidate => candidate.pictureType === FRONT_COVER) ?? pictures[0];
+    if (!picture || picture.data.length === 0) {
+        return undefined;
+    }
+
+    const imageData = picture.data.slice().buffer;
+    return { mimeType: sniffImageMimeType(picture.data) ?? normalizeMimeType(picture.mimeType), data: imageData };
+};
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number): string => {
+    let text = '';
+    for (let i = offset; i < Math.min(offset + length, bytes.length); i++) {
+        text += String.fromCharCode(bytes[i]);
+    }
+    return text;
+};
+
+const readUint32 = (bytes: Uint8Array, offset: number): number => {
+    return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+};
+
+const readSyncSafeInteger = (bytes: Uint8Array, offset: number): number => {
+    return (
+        ((bytes[offset] & 0x7f) << 21) | ((bytes[offset + 1] & 0x7f) << 14) | ((bytes[offset + 2] & 0x7f) << 7) | (bytes[offset + 3] & 0x7f)
+    );
+};
+
+/**
+ * Removes ID3 unsynchronisation, which inserts a zero byte after every `0xFF`.
+ */
+const removeUnsynchronisation = (bytes: Uint8Array): Uint8Array => {
+    const output = new Uint8Array(bytes.length);
+    let length = 0;
+    for (let i = 0; i < bytes.length; i++) {
+        output[length++] = bytes[i];
+        if (bytes[i] === 0xff && bytes[i + 1] === 0x00) {
+            i++;
+        }
+    }
+    return output.subarray(0, length);
+};
+
+/**
+ * Finds the end of a null-terminated string; UTF-16 strings (encodings 1 and 2) end with two zero bytes.
+ * @returns {number} Offset after the terminator.
+ */
+const skipTerminatedString = (bytes: Uint8Array, offset: number, encoding: number): number => {
+    if (encoding === 1 || encoding === 2) {
+        for (let i = offset; i + 1 < bytes.length; i += 2) {
+            if (bytes[i] === 0 && bytes[i + 1] === 0) {
+                return i + 2;
+            }
+        }
+        return bytes.length;
+    }
+    const end = bytes.indexOf(0, offset);
+    return end === -1 ? bytes.length : end + 1;
+};
+
+/**
+ * Reads the pictures of an ID3v2.2, v2.3 or v2.4 tag at the start of the file.
+ */
+const readId3Pictures = (bytes: Uint8Array): EmbeddedPicture[] => {
+    const pictures: EmbeddedPicture[] = [];
+    const version = bytes[3];
+    const flags = bytes[5];
+    const tagEnd = Math.min(10 + readSyncSafeInteger(bytes, 6), bytes.length);
+    if (version < 2 || version > 4) {
+        return pictures;
+    }
+
+    // Before v2.4, unsynchronisation applies to the whole tag
+    let tag = bytes.subarray(10, tagEnd);
+    if (flags & 0x80 && version < 4) {
+        tag = removeUnsynchronisation(tag);
+    }
+
+    let position = 0;
+    if (flags & 0x40 && version > 2) {
+        position = version === 4 ? readSyncSafeInteger(tag, 0) : readUint32(tag, 0) + 4;
+    }
+
+    const idLength = version === 2 ? 3 : 4;
+    const headerLength = version === 2 ? 6 : 10;
+    while (position + headerLength <= tag.length) {
+        const id = readAscii(tag, position, idLength);
+        if (!/^[A-Z0-9]+$/.test(id)) {
+            break; // Padding
+        }
+
+        const size =
+            version === 2
+                ? (tag[position + 3] << 16) | (tag[position + 4] << 8) | tag[position + 5]
+                : version === 4
+                  ? readSyncSafeInteger(tag, position + 4)
+                  : readUint32(tag, position + 4);
+        const formatFlags = version === 2 ? 0 : tag[position + 9];
+        let frame = tag.subarray(position + headerLength, position + headerLength + size);
+        position += headerLength + size;
+
+        if (id !== 'APIC' && id !== 'PIC') {
+            continue;
+        }
+
+        // Compressed or encrypted frames are skipped
+        if ((version === 3 && formatFlags & 0xc0) || (version === 4 && formatFlags & 0x0c)) {
+            continue;
+        }
+        if (version === 4) {
+            if (formatFlags & 0x01) {
+                frame = frame.subarray(4);
+            }
+            if (formatFlags & 0x02) {
+                frame = removeUnsynchronisation(frame);
+            }
+        }
+
+        const encoding = frame[0];
+        let offset: number;
+        let mimeType: string;
+        if (id === 'PIC') {
+            // v2.2 stores a three-letter image format such as `JPG` instead of a MIME type
+            mimeType = `image/${readAscii(frame, 1, 3).toLowerCase()}`;
+            offset = 4;
+        } else {
+            offset = skipTerminatedString(frame, 1, 0);
+            mimeType = readAscii(frame, 1, offset - 2);
+        }
+        const pictureType = frame[offset];
+        offset = skipTerminatedString(frame, offset + 1, encoding);
+
+        pictures.push({ mimeType, pictureType, data: frame.subarray(offset) });
+    }
+
+    return pictures;
+};
+
+/**
+ * Reads the `PICTURE` metadata blocks of a FLAC stream.
+ * @param {Uint8Array} bytes - File contents.
+ * @param {number} offset - Offset of the first metadata block, after the `fLaC` marker.
+ */
+const readFlacPictures = (bytes: Uint8Array, offset: number): EmbeddedPicture[] => {
+    const pictures: EmbeddedPicture[] = [];
+    let position = offset;
+
+    while (position + 4 <= bytes.length) {
+        const header = bytes[position];
+        const length = (bytes[position + 1] << 16) | (bytes[position + 2] << 8) | bytes[position + 3];
+        const block = bytes.subarray(position + 4, position + 4 + length);
+        position += 4 + length;
+
+        if ((header & 0x7f) === 6 && block.length >= 32) {
+            const pictureType = readUint32(block, 0);
+            const mimeLength = readUint32(block, 4);
+            const mimeType = readAscii(block, 8, mimeLength);
+            const descriptionLength = readUint32(block, 8 + mimeLength);
+            // Width, height, color depth and palette size follow the description
+            const dataOffset = 12 + mimeLength + descriptionLength + 16;
+            const dataLength = readUint32(block, dataOffset);
+            pictures.push({ mimeType, pictureType, data: block.subarray(dataOffset + 4, dataOffset + 4 + dataLength) });
+        }
+
+        if (header & 0x80) {
+            break; // Last metadata block
+        }
+    }
+
+    return pictures;
+};
+
+/**
+ * Finds the direct child boxes of an MP4 box.
+ * @returns {Map<string, Uint8Array>} Contents of the first box of each type.
+ */
+const readMp4Boxes = (bytes: Uint8Array): Map<string, Uint8Array> => {
+    const boxes = new Map<string, Uint8Array>();
+    let position = 0;
+
+    while (position + 8 <= bytes.length) {
+        let size = readUint32(bytes, position);
+        const type = readAscii(bytes, position + 4, 4);
+        let headerLength = 8;
+        if (size === 1) {
+            // 64-bit size; audio files never exceed the 32-bit range of the high word
+            size = readUint32(bytes, position + 12) + readUint32(bytes, position + 8) * 2 ** 32;
+            headerLength = 16;
+        } else if (size === 0) {
+            size = bytes.length - position;
+        }
+        if (size < headerLength) {
+            break;
+        }
+
+        if (!boxes.has(type)) {
+            boxes.set(type, bytes.subarray(position + headerLength, position + size));
+        }
+        position += size;
+    }
+
+    return boxes;
+};
+
+/**
+ * Reads the `covr` atom of an MP4 file's iTunes metadata (`moov/udta/meta/ilst/covr`).
+ */
+const readMp4Pictures = (bytes: Uint8Array): EmbeddedPicture[] => {
+    const moov = readMp4Boxes(bytes).get('moov');
+    const udta = moov && readMp4Boxes(moov).get('udta');
+    let meta = udta && readMp4Boxes(udta).get('meta');
+    if (!meta) {
+        return [];
+    }
+    // `meta` is a full box with a version and flags, except in some QuickTime files
+    if (readAscii(meta, 4, 4) !== 'hdlr') {
+        meta = meta.subarray(4);
+    }
+
+    const ilst = readMp4Boxes(meta).get('ilst');
+    const covr = ilst && readMp4Boxes(ilst).get('covr');
+    const data = covr && readMp4Boxes(covr).get('data');
+    if (!data || data.length <= 8) {
+        return [];
+    }
+
+    // The data box starts with a type indicator (13: JPEG, 14: PNG, 27: BMP) and a locale
+    const mimeTypes: Record<number, string> = { 13: 'image/jpeg', 14: 'image/png', 27: 'image/bmp' };
+    return [{ mimeType: mimeTypes[readUint32(data, 0) & 0xffffff] ?? '', pictureType: FRONT_COVER, data: data.subarray(8) }];
+};
+
+/**
+ * Detects common image formats from their signature, as tags often declare MIME types such as `image/jpg` or none at all.
+ */
+const sniffImageMimeType = (bytes: Uint8Array): string | undefined => {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+        return 'image/jpeg';
+    }
+    if (readAscii(bytes, 0, 4) === '\x89PNG') {
+        return 'image/png';
+    }
+    if (readAscii(bytes, 0, 3) === 'GIF') {
+        return 'image/gif';
+    }
+    if (readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WEBP') {
+        return 'image/webp';
+    }
+    if (readAscii(bytes, 0, 2) === 'BM') {
+        return 'image/bmp';
+    }
+    return undefined;
+};
+
+const normalizeMimeType = (mimeType: string): string => {
+    const normalized = mimeType.trim().toLowerCase();
+    return normalized === 'image/jpg' ? 'image/jpeg' : normalized;
+};
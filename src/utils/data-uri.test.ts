@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { decodeImageDataUri } from './data-uri';
+
+const text = (data: ArrayBuffer): string => new TextDecoder().decode(data);
+
+describe('decodeImageDataUri', () => {
+    it('decodes base64 payloads', () => {
+        const image = decodeImageDataUri('data:image/png;base64,iVBORw0KGgo=');
+
+        assert.equal(image?.mimeType, 'image/png');
+        assert.deepEqual(Array.from(new Uint8Array(image?.data ?? new ArrayBuffer(0))), [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    });
+
+    it('accepts wrapped lines and percent-encoded padding in base64 payloads', () => {
+        const image = decodeImageDataUri('data:image/gif;base64,R0lG\n  ODlhAQ%3D%3D');
+
+        assert.equal(text(image?.data ?? new ArrayBuffer(0)), 'GIF89a\u0001');
+    });
+
+    it('decodes percent-encoded payloads', () => {
+        const image = decodeImageDataUri(
+            'data:image/svg+xml;charset=utf-8,%3Csvg%20xmlns%3D%22http%3A%2F%2Fwww.w3.org%2F2000%2Fsvg%22%2F%3E'
+        );
+
+        assert.equal(image?.mimeType, 'image/svg+xml');
+        assert.equal(text(image?.data ?? new ArrayBuffer(0)), '<svg xmlns="http://www.w3.org/2000/svg"/>');
+    });
+
+    it('lowercases the MIME type and the base64 parameter', () => {
+        const image = decodeImageDataUri('  DATA:Image/WebP;BASE64,UklGRg==  ');
+
+        assert.equal(image?.mimeType, 'image/webp');
+        assert.equal(text(image?.data ?? new ArrayBuffer(0)), 'RIFF');
+    });
+
+    it('only accepts image MIME types', () => {
+        assert.equal(decodeImageDataUri('data:text/html;base64,PGI+aGk8L2I+'), undefined);
+        assert.equal(decodeImageDataUri('data:application/pdf;base64,JVBERi0='), undefined);
+        assert.equal(decodeImageDataUri('data:,hello'), undefined);
+    });
+
+    it('rejects malformed input', () => {
+        assert.equal(decodeImageDataUri('image/png;base64,iVBORw0KGgo='), undefined);
+        assert.equal(decodeImageDataUri('data:image/png;base64'), undefined);
+        assert.equal(decodeImageDataUri('data:image/png;base64,!!!not base64!!!'), undefined);
+        assert.equal(decodeImageDataUri('data:image/svg+xml,%E0%A4%A'), undefined);
+        assert.equal(decodeImageDataUri('data:image/png;base64,'), undefined);
+    });
+});
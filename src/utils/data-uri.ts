@@ -0,0 +1,40 @@
+/**
+ * An image decoded from a `data:` URI.
+ */
+interface DataUriImage {
+    mimeType: string; // Lowercase MIME type, e.g. `image/png`
+    data: ArrayBuffer;
+}
+
+const DATA_URI_REGEX = /^data:(?<mimeType>image\/[\w.+-]+)(?<parameters>(?:;[^,;]*)*),(?<payload>.*)$/is;
+
+/**
+ * Decodes an image `data:` URI such as `data:image/png;base64,iVBORw0...` or `data:image/svg+xml,%3Csvg...`.
+ * @param {string} uri - The data URI.
+ * @returns {DataUriImage | undefined} The decoded image, or undefined when the URI is not a valid image data URI.
+ */
+export const decodeImageDataUri = (uri: string): DataUriImage | undefined => {
+    const groups = DATA_URI_REGEX.exec(uri.trim())?.groups;
+    if (!groups) {
+        return undefined;
+    }
+
+    const isBase64 = groups.parameters.split(';').some(parameter => parameter.trim().toLowerCase() === 'base64');
+
+    try {
+        let bytes: Uint8Array;
+        if (isBase64) {
+            // Pasted data often wraps lines or percent-encodes padding
+            const binary = atob(decodeURIComponent(groups.payload).replace(/\s+/g, ''));
+            bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+        } else {
+            bytes = new TextEncoder().encode(decodeURIComponent(groups.payload));
+        }
+        if (bytes.length === 0) {
+            return undefined;
+        }
+        return { mimeType: groups.mimeType.toLowerCase(), data: bytes.buffer as ArrayBuffer };
+    } catch {
+        return undefined;
+    }
+};
@@ -50,3 +50,56 @@ export const applyMediaProperty = (frontmatter: Record<string, unknown>, options
         delete frontmatter[property];
     }
 };
+
+/**
+ * Details of the video whose thumbnail is the featured image. Empty when the feature is not a video.
+ */
+export interface VideoMetadata {
+    videoId?: string;
+    start?: number; // Start time in seconds
+    title?: string;
+    author?: string; // Channel or uploader name
+    url?: string; // Link to the video on its host
+}
+
+/**
+ * Frontmatter properties receiving video metadata. Empty names are not written.
+ */
+interface VideoMetadataProperties {
+    videoId: string;
+    start: string;
+    title: string;
+    author: string;
+    url: string;
+}
+
+/**
+ * Writes video metadata to the configured frontmatter properties, removing properties without a value.
+ * @param {Record<string, unknown>} frontmatter - The frontmatter object to mutate.
+ * @param {VideoMetadata} metadata - Metadata of the featured video.
+ * @param {VideoMetadataProperties} properties - Property names to write.
+ */
+export const applyVideoMetadata = (
+    frontmatter: Record<string, unknown>,
+    metadata: VideoMetadata,
+    properties: VideoMetadataProperties
+): void => {
+    const entries: [string, string | number | undefined][] = [
+        [properties.videoId, metadata.videoId],
+        [properties.start, metadata.start],
+        [properties.title, metadata.title],
+        [properties.author, metadata.author],
+        [properties.url, metadata.url]
+    ];
+
+    for (const [property, value] of entries) {
+        if (!property) {
+            continue;
+        }
+        if (value === undefined) {
+            delete frontmatter[property];
+        } else {
+            frontmatter[property] = value;
+        }
+    }
+};
@@ -0,0 +1,27 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { matchesAnyPattern } from './glob';
+
+describe('matchesAnyPattern', () => {
+    it('matches `**/` against files at the root of the folder', () => {
+        assert.ok(matchesAnyPattern('notes/x.md', ['notes/**/*.md']));
+        assert.ok(matchesAnyPattern('x.png', ['**/*.png']));
+    });
+
+    it('matches `**/` against files in nested folders', () => {
+        assert.ok(matchesAnyPattern('notes/a/x.md', ['notes/**/*.md']));
+        assert.ok(matchesAnyPattern('notes/a/b/x.md', ['notes/**/*.md']));
+        assert.ok(!matchesAnyPattern('other/notes/x.md', ['notes/**/*.md']));
+        assert.ok(!matchesAnyPattern('notesx/x.md', ['notes/**/*.md']));
+    });
+
+    it('matches a trailing `**` against any remainder', () => {
+        assert.ok(matchesAnyPattern('https://img.shields.io/badge/build.svg', ['https://img.shields.io/**']));
+        assert.ok(!matchesAnyPattern('https://example.com/badge.svg', ['https://img.shields.io/**']));
+    });
+
+    it('keeps `*` within a single folder', () => {
+        assert.ok(matchesAnyPattern('assets/emoji-smile.png', ['emoji-*.png']));
+        assert.ok(!matchesAnyPattern('notes/a/x.md', ['notes/*.md']));
+    });
+});
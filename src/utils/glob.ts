@@ -0,0 +1,61 @@
+/**
+ * Compiles an ignore pattern into a regular expression.
+ * Patterns written as `/expression/flags` are regular expressions; all others are globs where `**` matches
+ * any characters (`**` before a `/` also matches no folder at all), `*` matches any characters except `/`
+ * and `?` matches a single character except `/`.
+ * Globs without a `/` are matched against the last path segment, so `emoji-*.png` matches in any folder.
+ * @param {string} pattern - Pattern as entered by the user.
+ * @returns {RegExp | undefined} Compiled expression, or undefined when the pattern is empty or invalid.
+ */
+const compilePattern = (pattern: string): RegExp | undefined => {
+    const trimmed = pattern.trim();
+    if (!trimmed) {
+        return undefined;
+    }
+
+    const regexMatch = /^\/(.+)\/([a-z]*)$/.exec(trimmed);
+    if (regexMatch) {
+        try {
+            return new RegExp(regexMatch[1], regexMatch[2].replace(/[gy]/g, ''));
+        } catch {
+            return undefined;
+        }
+    }
+
+    let source = '';
+    for (let i = 0; i < trimmed.length; i++) {
+        const char = trimmed[i];
+        if (char === '*' && trimmed[i + 1] === '*' && trimmed[i + 2] === '/') {
+            // `**/` also matches no folder at all, so `notes/**/*.md` matches `notes/x.md`
+            source += '(?:.*/)?';
+            i += 2;
+        } else if (char === '*' && trimmed[i + 1] === '*') {
+            source += '.*';
+            i++;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+
+    const prefix = trimmed.includes('/') ? '^' : '(?:^|/)';
+    return new RegExp(`${prefix}${source}$`, 'i');
+};
+
+/**
+ * Checks whether a path or URL matches any of the given patterns.
+ * Patterns are tested against the full value and against the value without its query string or fragment.
+ * @param {string} value - Vault path or URL.
+ * @param {string[]} patterns - Glob or regular expression patterns.
+ * @returns {boolean} True when any pattern matches.
+ */
+export const matchesAnyPattern = (value: string, patterns: string[]): boolean => {
+    const withoutQuery = value.split(/[?#]/)[0];
+    return patterns.some(pattern => {
+        const regex = compilePattern(pattern);
+        return regex ? regex.test(value) || regex.test(withoutQuery) : false;
+    });
+};
@@ -11,6 +11,13 @@ export const md5 = (input: string): string => {
     return bytesToHex(digest);
 };
 
+/**
+ * Generates an MD5 hash of binary data, e.g. to name files after their content.
+ */
+export const md5Binary = (data: ArrayBuffer): string => {
+    return bytesToHex(md5Bytes(new Uint8Array(data)));
+};
+
 const UTF8_ENCODER = typeof TextEncoder !== 'undefined' ? new TextEncoder() : null;
 
 const MD5_S: readonly number[] = [
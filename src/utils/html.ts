@@ -0,0 +1,71 @@
+/**
+ * Parses the attributes of an HTML start tag into a lowercase-keyed record with decoded values.
+ * @param {string} attributeText - Text between the tag name and the closing `>`.
+ * @returns {Record<string, string>} Attribute values; attributes without a value map to an empty string.
+ */
+export const parseHtmlAttributes = (attributeText: string): Record<string, string> => {
+    const attributes: Record<string, string> = {};
+    for (const [, name, doubleQuoted, singleQuoted, unquoted] of attributeText.matchAll(
+        /([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g
+    )) {
+        attributes[name.toLowerCase()] = decodeHtmlEntities(doubleQuoted ?? singleQuoted ?? unquoted ?? '');
+    }
+    return attributes;
+};
+
+/**
+ * Picks the largest image from a `srcset` attribute, e.g. `small.jpg 480w, large.jpg 1080w` or `a.png, b.png 2x`.
+ * Width descriptors win over density descriptors; candidates without a descriptor count as `1x`.
+ * @param {string} srcset - Decoded `srcset` attribute value.
+ * @returns {string | undefined} URL of the largest candidate, if any.
+ */
+export const getLargestSrcsetCandidate = (srcset: string): string | undefined => {
+    let best: { url: string; width: number; density: number } | undefined;
+
+    // URLs may contain commas (e.g. `w_400,h_300`), so candidates are split the way browsers do:
+    // a URL runs until whitespace, and a comma ends the candidate only after the URL's trailing commas or its descriptors
+    let position = 0;
+    while (position < srcset.length) {
+        const urlMatch = /[\s,]*(\S*)/y;
+        urlMatch.lastIndex = position;
+        const rawUrl = urlMatch.exec(srcset)?.[1] ?? '';
+        position = urlMatch.lastIndex;
+        if (!rawUrl) {
+            break;
+        }
+
+        const url = rawUrl.replace(/,+$/, '');
+        let descriptor = '';
+        if (url === rawUrl) {
+            const end = srcset.indexOf(',', position);
+            descriptor = srcset
+                .slice(position, end === -1 ? srcset.length : end)
+                .trim()
+                .toLowerCase();
+            position = end === -1 ? srcset.length : end + 1;
+        }
+
+        const width = descriptor.endsWith('w') ? parseFloat(descriptor) : 0;
+        const density = descriptor.endsWith('x') ? parseFloat(descriptor) : width ? 0 : 1;
+        if (!url || Number.isNaN(width) || Number.isNaN(density)) {
+            continue;
+        }
+        if (!best || width > best.width || (width === best.width && density > best.density)) {
+            best = { url, width, density };
+        }
+    }
+
+    return best?.url;
+};
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeHtmlEntities = (value: string): string => {
+    return value.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity: string, code: string) => {
+        if (code[0] === '#') {
+            const codePoint = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+            return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+        }
+        return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+    });
+};
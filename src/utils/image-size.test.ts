@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createBmp, createIco, createTiff } from '../test-utils/image-fixtures';
+import { readImageSize } from './image-size';
+
+const bytes = (...parts: (number[] | string)[]): ArrayBuffer => {
+    const values = parts.flatMap(part => (typeof part === 'string' ? Array.from(part, char => char.charCodeAt(0)) : part));
+    return new Uint8Array(values).buffer;
+};
+
+const uint32BE = (value: number): number[] => [(value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+const uint16LE = (value: number): number[] => [value & 0xff, value >> 8];
+
+describe('readImageSize', () => {
+    it('reads PNG headers', () => {
+        const png = bytes([0x89], 'PNG\r\n\x1a\n', uint32BE(13), 'IHDR', uint32BE(640), uint32BE(480));
+
+        assert.deepEqual(readImageSize(png), { width: 640, height: 480 });
+    });
+
+    it('reads GIF headers', () => {
+        assert.deepEqual(readImageSize(bytes('GIF89a', uint16LE(300), uint16LE(200))), { width: 300, height: 200 });
+    });
+
+    it('reads the first start-of-frame segment of a JPEG, skipping other segments', () => {
+        const app0 = [0xff, 0xe0, 0x00, 0x06, 0, 0, 0, 0];
+        const sof2 = [0xff, 0xc2, 0x00, 0x11, 0x08, 0x02, 0x58, 0x03, 0x20, 0x03];
+        const jpeg = bytes([0xff, 0xd8], app0, [0xff, 0xff], sof2, Array<number>(12).fill(0));
+
+        assert.deepEqual(readImageSize(jpeg), { width: 800, height: 600 });
+    });
+
+    it('gives up on JPEGs without a frame header', () => {
+        assert.equal(readImageSize(bytes([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10], Array<number>(14).fill(0))), undefined);
+    });
+
+    it('reads lossy, lossless and extended WebP headers', () => {
+        const riff = (chunk: string, payload: number[]): ArrayBuffer =>
+            bytes('RIFF', [0, 0, 0, 0], 'WEBP', chunk, [0, 0, 0, 0], payload, Array<number>(16).fill(0));
+
+        const lossy = riff('VP8 ', [0, 0, 0, 0x9d, 0x01, 0x2a, ...uint16LE(400), ...uint16LE(300)]);
+        // 14-bit width - 1 and height - 1, packed after the 0x2f signature
+        const lossless = riff('VP8L', [0x2f, 99 & 0xff, ((199 & 0x3) << 6) | (99 >> 8), (199 >> 2) & 0xff, 199 >> 10]);
+        const extended = riff('VP8X', [0, 0, 0, 0, 1999 & 0xff, 1999 >> 8, 0, 999 & 0xff, 999 >> 8, 0]);
+
+        assert.deepEqual(readImageSize(lossy), { width: 400, height: 300 });
+        assert.deepEqual(readImageSize(lossless), { width: 100, height: 200 });
+        assert.deepEqual(readImageSize(extended), { width: 2000, height: 1000 });
+    });
+
+    it('reads the image spatial extents of AVIF and HEIC files', () => {
+        const ispe = [...uint32BE(20), ...Array.from('ispe', char => char.charCodeAt(0)), 0, 0, 0, 0, ...uint32BE(4032), ...uint32BE(3024)];
+
+        assert.deepEqual(readImageSize(bytes(uint32BE(24), 'ftypavif', Array<number>(12).fill(0), ispe)), { width: 4032, height: 3024 });
+        assert.deepEqual(readImageSize(bytes(uint32BE(24), 'ftypheic', Array<number>(12).fill(0), ispe)), { width: 4032, height: 3024 });
+    });
+
+    it('reads BMP headers, including top-down and OS/2 bitmaps', () => {
+        const pixels = Array<[number, number, number]>(6).fill([0, 0, 0]);
+        const os2 = bytes('BM', Array<number>(12).fill(0), [12, 0, 0, 0], uint16LE(320), uint16LE(240), Array<number>(8).fill(0));
+
+        assert.deepEqual(readImageSize(createBmp({ width: 3, height: 2, bitCount: 24, pixels })), { width: 3, height: 2 });
+        assert.deepEqual(readImageSize(createBmp({ width: 3, height: 2, bitCount: 24, pixels, topDown: true })), { width: 3, height: 2 });
+        assert.deepEqual(readImageSize(os2), { width: 320, height: 240 });
+    });
+
+    it('reads TIFF dimensions stored as SHORT or LONG values in either byte order', () => {
+        const data = new Uint8Array(0);
+
+        assert.deepEqual(readImageSize(createTiff({ width: 30, height: 20, data })), { width: 30, height: 20 });
+        assert.deepEqual(readImageSize(createTiff({ width: 30, height: 20, data, littleEndian: false })), { width: 30, height: 20 });
+        assert.deepEqual(readImageSize(createTiff({ width: 70000, height: 50000, data, longDimensions: true, littleEndian: false })), {
+            width: 70000,
+            height: 50000
+        });
+    });
+
+    it('reads the largest ICO entry, where a stored size of 0 means 256 pixels', () => {
+        const icon = (size: number) => ({
+            width: size,
+            height: size,
+            bitCount: 32 as const,
+            pixels: Array<[number, number, number, number]>(size * size).fill([0, 0, 0, 255])
+        });
+        const ico = new Uint8Array(createIco([icon(16), icon(48)]));
+
+        assert.deepEqual(readImageSize(ico.buffer), { width: 48, height: 48 });
+
+        ico[6 + 16] = 0;
+        ico[6 + 16 + 1] = 0;
+        assert.deepEqual(readImageSize(ico.buffer), { width: 256, height: 256 });
+    });
+
+    it('reads SVG width and height, falling back to the viewBox', () => {
+        const svg = (attributes: string): ArrayBuffer =>
+            bytes(`<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg" ${attributes}>`);
+
+        assert.deepEqual(readImageSize(svg('width="120px" height="80"')), { width: 120, height: 80 });
+        assert.deepEqual(readImageSize(svg('width="100%" height="100%" viewBox="0 0 24 16"')), { width: 24, height: 16 });
+        assert.deepEqual(readImageSize(svg("viewBox='0,0,50.5,20'")), { width: 50.5, height: 20 });
+        assert.equal(readImageSize(svg('width="2em" height="1em"')), undefined);
+    });
+
+    it('rejects unknown formats, truncated headers and empty dimensions', () => {
+        assert.equal(readImageSize(bytes('not an image')), undefined);
+        assert.equal(readImageSize(bytes([0x89], 'PNG\r\n\x1a\n', uint32BE(13), 'IH')), undefined);
+        assert.equal(readImageSize(bytes('GIF89a', uint16LE(0), uint16LE(200))), undefined);
+        assert.equal(readImageSize(createBmp({ width: 1, height: 1, bitCount: 24, pixels: [[0, 0, 0]] }).slice(0, 20)), undefined);
+        assert.equal(readImageSize(createTiff({ width: 30, height: 20, data: new Uint8Array(0) }).slice(0, 16)), undefined);
+        assert.equal(readImageSize(new ArrayBuffer(0)), undefined);
+    });
+});
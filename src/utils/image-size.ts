@@ -0,0 +1,251 @@
+/**
+ * Pixel dimensions of an image.
+ */
+export interface ImageSize {
+    width: number;
+    height: number;
+}
+
+/**
+ * Reads image dimensions from the file header without decoding the image.
+ * Supports PNG, JPEG, GIF, WebP, AVIF, HEIC, SVG, BMP, TIFF and ICO; the format is detected from the content.
+ * @param {ArrayBuffer} data - Image file contents.
+ * @returns {ImageSize | undefined} Dimensions, or undefined when the format is unknown or the header is invalid.
+ */
+export const readImageSize = (data: ArrayBuffer): ImageSize | undefined => {
+    const bytes = new Uint8Array(data);
+    const size =
+        readPngSize(bytes) ??
+        readGifSize(bytes) ??
+        readJpegSize(bytes) ??
+        readWebpSize(bytes) ??
+        readAvifSize(bytes) ??
+        readBmpSize(bytes) ??
+        readTiffSize(bytes) ??
+        readIcoSize(bytes) ??
+        readSvgSize(bytes);
+    if (!size || !(size.width > 0) || !(size.height > 0)) {
+        return undefined;
+    }
+    return size;
+};
+
+const readUint16BE = (bytes: Uint8Array, offset: number): number => (bytes[offset] << 8) | bytes[offset + 1];
+const readUint16LE = (bytes: Uint8Array, offset: number): number => bytes[offset] | (bytes[offset + 1] << 8);
+const readUint24LE = (bytes: Uint8Array, offset: number): number => bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+const readUint32BE = (bytes: Uint8Array, offset: number): number =>
+    ((bytes[offset] << 24) >>> 0) + ((bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]);
+const readInt32LE = (bytes: Uint8Array, offset: number): number =>
+    bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24);
+
+const hasAscii = (bytes: Uint8Array, offset: number, text: string): boolean => {
+    if (offset + text.length > bytes.length) {
+        return false;
+    }
+    for (let i = 0; i < text.length; i++) {
+        if (bytes[offset + i] !== text.charCodeAt(i)) {
+            return false;
+        }
+    }
+    return true;
+};
+
+const readPngSize = (bytes: Uint8Array): ImageSize | undefined => {
+    if (bytes.length < 24 || bytes[0] !== 0x89 || !hasAscii(bytes, 1, 'PNG') || !hasAscii(bytes, 12, 'IHDR')) {
+        return undefined;
+    }
+    return { width: readUint32BE(bytes, 16), height: readUint32BE(bytes, 20) };
+};
+
+const readGifSize = (bytes: Uint8Array): ImageSize | undefined => {
+    if (bytes.length < 10 || !hasAscii(bytes, 0, 'GIF8')) {
+        return undefined;
+    }
+    return { width: readUint16LE(bytes, 6), height: readUint16LE(bytes, 8) };
+};
+
+/**
+ * Walks JPEG segments until the first start-of-frame marker.
+ */
+const readJpegSize = (bytes: Uint8Array): ImageSize | undefined => {
+    if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+        return undefined;
+    }
+
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+        if (bytes[offset] !== 0xff) {
+            return undefined;
+        }
+        const marker = bytes[offset + 1];
+        if (marker === 0xff) {
+            offset++;
+            continue;
+        }
+        // Standalone markers carry no length
+        if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+            offset += 2;
+            continue;
+        }
+        const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+        if (isStartOfFrame) {
+            return { width: readUint16BE(bytes, offset + 7), height: readUint16BE(bytes, offset + 5) };
+        }
+        offset += 2 + readUint16BE(bytes, offset + 2);
+    }
+
+    return undefined;
+};
+
+const readWebpSize = (bytes: Uint8Array): ImageSize | undefined => {
+    if (bytes.length < 30 || !hasAscii(bytes, 0, 'RIFF') || !hasAscii(bytes, 8, 'WEBP')) {
+        return undefined;
+    }
+
+    if (hasAscii(bytes, 12, 'VP8 ')) {
+        return { width: readUint16LE(bytes, 26) & 0x3fff, height: readUint16LE(bytes, 28) & 0x3fff };
+    }
+    if (hasAscii(bytes, 12, 'VP8L')) {
+        const b0 = bytes[21];
+        const b1 = bytes[22];
+        const b2 = bytes[23];
+        const b3 = bytes[24];
+        return {
+            width: 1 + (((b1 & 0x3f) << 8) | b0),
+            height: 1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6))
+        };
+    }
+    if (hasAscii(bytes, 12, 'VP8X')) {
+        return { width: 1 + readUint24LE(bytes, 24), height: 1 + readUint24LE(bytes, 27) };
+    }
+
+    return undefined;
+};
+
+/**
+ * Reads the first `ispe` (image spatial extents) property of an AVIF/HEIF file.
+ */
+const readAvifSize = (bytes: Uint8Array): ImageSize | undefined => {
+    if (bytes.length < 12 || !hasAscii(bytes, 4, 'ftyp')) {
+        return undefined;
+    }
+
+    const searchEnd = Math.min(bytes.length - 16, 64 * 1024);
+    for (let offset = 8; offset <= searchEnd; offset++) {
+        if (hasAscii(bytes, offset, 'ispe')) {
+            return { width: readUint32BE(bytes, offset + 8), height: readUint32BE(bytes, offset + 12) };
+        }
+    }
+
+    return undefined;
+};
+
+/**
+ * Reads the dimensions from the DIB header of a BMP file. Top-down bitmaps store a negative height.
+ */
+const readBmpSize = (bytes: Uint8Array): ImageSize | undefined => {
+    if (bytes.length < 26 || !hasAscii(bytes, 0, 'BM')) {
+        return undefined;
+    }
+    // OS/2 1.x headers use 16-bit dimensions
+    if (readInt32LE(bytes, 14) === 12) {
+        return { width: readUint16LE(bytes, 18), height: readUint16LE(bytes, 20) };
+    }
+    return { width: readInt32LE(bytes, 18), height: Math.abs(readInt32LE(bytes, 22)) };
+};
+
+/**
+ * Reads the `ImageWidth` and `ImageLength` tags from the first IFD of a TIFF file.
+ */
+const readTiffSize = (bytes: Uint8Array): ImageSize | undefined => {
+    const littleEndian = hasAscii(bytes, 0, 'II*\0');
+    if (bytes.length < 8 || (!littleEndian && !hasAscii(bytes, 0, 'MM\0*'))) {
+        return undefined;
+    }
+
+    const readUint16 = (offset: number): number => (littleEndian ? readUint16LE(bytes, offset) : readUint16BE(bytes, offset));
+    const readUint32 = (offset: number): number => (littleEndian ? readInt32LE(bytes, offset) >>> 0 : readUint32BE(bytes, offset));
+
+    const ifdOffset = readUint32(4);
+    if (ifdOffset + 2 > bytes.length) {
+        return undefined;
+    }
+
+    const size: Partial<ImageSize> = {};
+    const entryCount = readUint16(ifdOffset);
+    for (let i = 0; i < entryCount; i++) {
+        const entry = ifdOffset + 2 + i * 12;
+        if (entry + 12 > bytes.length) {
+            break;
+        }
+        const tag = readUint16(entry);
+        // SHORT (3) values sit in the first two bytes of the value field, LONG (4) values use all four
+        const value = readUint16(entry + 2) === 3 ? readUint16(entry + 8) : readUint32(entry + 8);
+        if (tag === 256) {
+            size.width = value;
+        } else if (tag === 257) {
+            size.height = value;
+        }
+    }
+
+    return size.width && size.height ? { width: size.width, height: size.height } : undefined;
+};
+
+/**
+ * Reads the largest entry of an ICO or CUR directory. A stored size of 0 means 256 pixels.
+ */
+const readIcoSize = (bytes: Uint8Array): ImageSize | undefined => {
+    if (bytes.length < 6) {
+        return undefined;
+    }
+    const type = readUint16LE(bytes, 2);
+    const count = readUint16LE(bytes, 4);
+    if (readUint16LE(bytes, 0) !== 0 || (type !== 1 && type !== 2) || count === 0 || bytes.length < 6 + count * 16) {
+        return undefined;
+    }
+
+    let largest: ImageSize | undefined;
+    for (let i = 0; i < count; i++) {
+        const entry = 6 + i * 16;
+        const width = bytes[entry] || 256;
+        const height = bytes[entry + 1] || 256;
+        if (!largest || width * height > largest.width * largest.height) {
+            largest = { width, height };
+        }
+    }
+    return largest;
+};
+
+/**
+ * Reads SVG dimensions from the root element's `width`/`height` attributes, falling back to `viewBox`.
+ * Relative units (e.g. `%`) are ignored.
+ */
+const readSvgSize = (bytes: Uint8Array): ImageSize | undefined => {
+    const head = new TextDecoder().decode(bytes.subarray(0, 4096));
+    const svgTag = /<svg\b[^>]*>/i.exec(head)?.[0];
+    if (!svgTag) {
+        return undefined;
+    }
+
+    const readAttribute = (name: string): string | undefined => new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, 'i').exec(svgTag)?.[1];
+    const readLength = (name: string): number | undefined => {
+        const match = /^\s*([\d.]+)\s*(px)?\s*$/i.exec(readAttribute(name) ?? '');
+        return match ? parseFloat(match[1]) : undefined;
+    };
+
+    const width = readLength('width');
+    const height = readLength('height');
+    if (width && height) {
+        return { width, height };
+    }
+
+    const viewBox = readAttribute('viewBox')
+        ?.trim()
+        .split(/[\s,]+/)
+        .map(Number);
+    if (viewBox?.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+        return { width: viewBox[2], height: viewBox[3] };
+    }
+
+    return undefined;
+};
@@ -0,0 +1,114 @@
+/**
+ * Attempts to decode a link component while tolerating invalid percent sequences.
+ * @param {string} value - Raw captured value.
+ * @returns {string} Decoded value or the original string when decoding fails.
+ */
+export const safeDecodeLinkComponent = (value: string): string => {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+};
+
+/**
+ * Checks whether a URL uses the HTTP protocol.
+ * @param {string} url - URL to inspect.
+ * @returns {boolean} True when the URL starts with http:// (case-insensitive).
+ */
+export const isHttpUrl = (url: string): boolean => {
+    return url.trim().toLowerCase().startsWith('http://');
+};
+
+/**
+ * Extracts the target of the first wiki link in a value.
+ * @param {string} value - Value that may contain a wiki link.
+ * @returns {string | undefined} Link target including alias and subpath, if any.
+ */
+export const extractWikiLinkTarget = (value: string): string | undefined => {
+    const wikiMatch = value.match(/!?\[\[(.*?)\]\]/);
+    return wikiMatch ? wikiMatch[1] : undefined;
+};
+
+/**
+ * Marker that flags an in-body image as the preferred featured image, e.g. `![[image.png|featured]]`,
+ * `![](image.png "featured")` or `![](image.png){.featured}`.
+ */
+export const FEATURED_MARKER = 'featured';
+
+const ATTRIBUTE_BLOCK_REGEX = /\s*\{[^{}]*\}\s*$/;
+
+/**
+ * Removes a trailing attribute block such as `{.featured}` from a link target.
+ * @param {string} value - Raw link target.
+ * @returns {string} Link target without the attribute block.
+ */
+const stripAttributeBlock = (value: string): string => {
+    const stripped = value.replace(ATTRIBUTE_BLOCK_REGEX, '');
+    return stripped || value;
+};
+
+/**
+ * Removes alias (`|...`), subpath (`#...`) and attribute (`{...}`) segments from a link target.
+ * @param {string} value - Raw link target.
+ * @returns {string} Link path without metadata.
+ */
+export const stripLinkMetadata = (value: string): string => {
+    return stripAttributeBlock(value.split('|')[0].split('#')[0]).trim();
+};
+
+/**
+ * Checks whether a wiki link target carries the featured marker as one of its alias segments.
+ * @param {string} target - Wiki link target, e.g. `image.png|featured|300`.
+ * @returns {boolean} True when the target is marked as featured.
+ */
+export const hasFeaturedAlias = (target: string): boolean => {
+    return target
+        .split('|')
+        .slice(1)
+        .some(segment => segment.trim().toLowerCase() === FEATURED_MARKER);
+};
+
+/**
+ * Checks whether a markdown image target carries the featured marker as its title.
+ * @param {string} target - Markdown image target, e.g. `image.png "featured"`.
+ * @returns {boolean} True when the title is the featured marker.
+ */
+export const hasFeaturedTitle = (target: string): boolean => {
+    const match = /\s+(?:"([^"]*)"|'([^']*)')\s*$/.exec(target.trim());
+    const title = match ? (match[1] ?? match[2]) : undefined;
+    return title?.trim().toLowerCase() === FEATURED_MARKER;
+};
+
+/**
+ * Checks whether an attribute block contains the `.featured` class.
+ * @param {string | undefined} attributes - Attribute block, e.g. `{.featured width=300}`.
+ * @returns {boolean} True when the featured class is present.
+ */
+export const hasFeaturedAttribute = (attributes: string | undefined): boolean => {
+    if (!attributes) {
+        return false;
+    }
+    return new RegExp(`(?:^|[\\s{])\\.${FEATURED_MARKER}(?=[\\s}]|$)`, 'i').test(attributes);
+};
+
+/**
+ * Removes a trailing Markdown title/caption from an image target.
+ * @param {string} value - Raw target string captured from Markdown.
+ * @returns {string} Target value without the optional title segment.
+ */
+export const stripMarkdownImageTitle = (value: string): string => {
+    const trimmedValue = stripAttributeBlock(value.trim());
+    if (!trimmedValue) {
+        return trimmedValue;
+    }
+
+    const titlePattern = /\s+(?:"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\((?:[^)\\]|\\.)*\))\s*$/;
+    const match = titlePattern.exec(trimmedValue);
+    if (!match) {
+        return trimmedValue;
+    }
+
+    const candidate = trimmedValue.slice(0, match.index).trimEnd();
+    return candidate || trimmedValue;
+};
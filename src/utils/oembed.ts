@@ -0,0 +1,30 @@
+import { requestUrl } from 'obsidian';
+
+/**
+ * Fields of an oEmbed response used by the plugin. Providers may omit any of them.
+ */
+interface OEmbedResponse {
+    title?: string;
+    author_name?: string;
+    thumbnail_url?: string;
+}
+
+/**
+ * Requests an oEmbed endpoint and returns the string fields of its JSON response.
+ * @param {string} endpoint - oEmbed endpoint including the `url` query parameter.
+ * @returns {Promise<OEmbedResponse>} Response fields; empty when the response is not a JSON object.
+ * @throws {Error} If the network request fails or the endpoint returns an error status.
+ */
+export const fetchOEmbed = async (endpoint: string): Promise<OEmbedResponse> => {
+    const response = await requestUrl({ url: endpoint, method: 'GET', headers: { Accept: 'application/json' } });
+    const data = response.json as Record<string, unknown> | null;
+    if (!data || typeof data !== 'object') {
+        return {};
+    }
+
+    const readString = (key: keyof OEmbedResponse): string | undefined => {
+        const value = data[key];
+        return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+    };
+    return { title: readString('title'), author_name: readString('author_name'), thumbnail_url: readString('thumbnail_url') };
+};
@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { findYouTubeLink, getVideoIdFromThumbnailUrl, parseYouTubeUrl } from './youtube';
+
+const ID = 'dQw4w9WgXcQ';
+
+describe('parseYouTubeUrl', () => {
+    const cases: [string, ReturnType<typeof parseYouTubeUrl>][] = [
+        [`https://www.youtube.com/watch?v=${ID}`, { videoId: ID, playlistId: undefined, start: undefined, isShort: false }],
+        [`https://youtube.com/watch?v=${ID}&feature=share`, { videoId: ID, playlistId: undefined, start: undefined, isShort: false }],
+        [`https://m.youtube.com/watch?v=${ID}&t=90`, { videoId: ID, playlistId: undefined, start: 90, isShort: false }],
+        [`https://music.youtube.com/watch?v=${ID}&list=PL123`, { videoId: ID, playlistId: 'PL123', start: undefined, isShort: false }],
+        [`https://youtu.be/${ID}`, { videoId: ID, playlistId: undefined, start: undefined, isShort: false }],
+        [`https://youtu.be/${ID}?si=AbCdEfGh&t=1m30s`, { videoId: ID, playlistId: undefined, start: 90, isShort: false }],
+        [`https://www.youtube.com/embed/${ID}?start=42`, { videoId: ID, playlistId: undefined, start: 42, isShort: false }],
+        [`https://www.youtube-nocookie.com/embed/${ID}`, { videoId: ID, playlistId: undefined, start: undefined, isShort: false }],
+        [`https://www.youtube.com/v/${ID}`, { videoId: ID, playlistId: undefined, start: undefined, isShort: false }],
+        [`https://www.youtube.com/shorts/${ID}?si=AbCdEfGh`, { videoId: ID, playlistId: undefined, start: undefined, isShort: true }],
+        [`https://www.youtube.com/live/${ID}?si=AbCdEfGh&t=1h2m3s`, { videoId: ID, playlistId: undefined, start: 3723, isShort: false }],
+        [`https://www.youtube.com/watch?v=${ID}#t=2m`, { videoId: ID, playlistId: undefined, start: 120, isShort: false }],
+        [
+            `https://www.youtube.com/attribution_link?u=/watch%3Fv%3D${ID}%26feature%3Dshare`,
+            { videoId: ID, playlistId: undefined, start: undefined, isShort: false }
+        ],
+        ['https://www.youtube.com/clip/UgkxAbCdEf', { clipId: 'UgkxAbCdEf', playlistId: undefined, start: undefined, isShort: false }]
+    ];
+
+    for (const [url, expected] of cases) {
+        it(`parses ${url}`, () => {
+            assert.deepEqual(parseYouTubeUrl(url), expected);
+        });
+    }
+
+    const rejected = [
+        'not a url',
+        `https://example.com/watch?v=${ID}`,
+        `https://notyoutube.com/watch?v=${ID}`,
+        'https://www.youtube.com/watch?v=tooShort',
+        'https://www.youtube.com/embed/videoseries?list=PL123',
+        'https://www.youtube.com/playlist?list=PL123',
+        'https://www.youtube.com/@channel'
+    ];
+
+    for (const url of rejected) {
+        it(`rejects ${url}`, () => {
+            assert.equal(parseYouTubeUrl(url), undefined);
+        });
+    }
+
+    it('ignores timestamps that are not times', () => {
+        assert.equal(parseYouTubeUrl(`https://youtu.be/${ID}?t=soon`)?.start, undefined);
+    });
+});
+
+describe('getVideoIdFromThumbnailUrl', () => {
+    const cases: [string, string | undefined][] = [
+        [`https://i.ytimg.com/vi/${ID}/hqdefault.jpg`, ID],
+        [`https://i3.ytimg.com/vi/${ID}/maxresdefault.jpg`, ID],
+        [`https://i.ytimg.com/vi_webp/${ID}/sddefault.webp`, ID],
+        [`https://img.youtube.com/vi/${ID}/0.jpg`, ID],
+        ['https://i.ytimg.com/vi/short/hqdefault.jpg', undefined],
+        [`https://example.com/vi/${ID}/hqdefault.jpg`, undefined]
+    ];
+
+    for (const [url, expected] of cases) {
+        it(`reads ${url}`, () => {
+            assert.equal(getVideoIdFromThumbnailUrl(url), expected);
+        });
+    }
+});
+
+describe('findYouTubeLink', () => {
+    it('finds the first link to the given video', () => {
+        const text = `[Other](https://youtu.be/aaaaaaaaaaa) and [talk](https://www.youtube.com/watch?v=${ID}&amp;t=30s).`;
+
+        assert.equal(findYouTubeLink(text, ID)?.start, 30);
+        assert.equal(findYouTubeLink(text, 'bbbbbbbbbbb'), undefined);
+    });
+});
@@ -0,0 +1,122 @@
+/**
+ * Video and playback details parsed from a YouTube URL.
+ */
+interface YouTubeUrlInfo {
+    videoId?: string; // 11-character video ID; missing for clips and playlist-only links
+    clipId?: string; // ID of a `/clip/` link, which only references its video through the clip page
+    playlistId?: string; // Value of the `list` parameter
+    start?: number; // Start time in seconds from `t`, `start` or a `#t=` fragment
+    isShort: boolean; // Whether the link points to a vertical `/shorts/` video
+}
+
+/**
+ * Domains serving YouTube videos. Subdomains such as `www.`, `m.` and `music.` are included.
+ */
+export const YOUTUBE_HOSTNAMES = ['youtube.com', 'youtu.be', 'youtube-nocookie.com'];
+
+// Path prefixes followed by the video ID, e.g. `/embed/<id>`
+const VIDEO_PATH_PREFIXES = ['embed', 'v', 'e', 'shorts', 'live'];
+
+const VIDEO_ID_REGEX = /^[\w-]{11}(?![\w-])/;
+
+/**
+ * Reads an 11-character video ID from the start of a value, ignoring trailing junk such as `&feature=share`.
+ * @param {string | null | undefined} value - Path segment or query parameter.
+ * @returns {string | undefined} The video ID, if the value starts with one.
+ */
+const readVideoId = (value: string | null | undefined): string | undefined => {
+    return value ? VIDEO_ID_REGEX.exec(value)?.[0] : undefined;
+};
+
+/**
+ * Parses a YouTube timestamp such as `90`, `90s`, `1m30s` or `1h2m3s` into seconds.
+ * @param {string | null | undefined} value - Timestamp value.
+ * @returns {number | undefined} Seconds, or undefined when the value is not a timestamp.
+ */
+const parseTimestamp = (value: string | null | undefined): number | undefined => {
+    const match = value ? /^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s?)?$/i.exec(value.trim()) : null;
+    if (!match || !(match[1] || match[2] || match[3])) {
+        return undefined;
+    }
+    return Number(match[1] ?? 0) * 3600 + Number(match[2] ?? 0) * 60 + Number(match[3] ?? 0);
+};
+
+/**
+ * Parses a YouTube URL. Supports `youtube.com` (including `www.`, `m.` and `music.`), `youtube-nocookie.com`
+ * and `youtu.be` links to watch pages, embeds, Shorts, live streams, clips and playlists.
+ * @param {string} url - The URL to parse.
+ * @returns {YouTubeUrlInfo | undefined} Parsed details, or undefined when the URL is not a YouTube link to a video.
+ */
+export const parseYouTubeUrl = (url: string): YouTubeUrlInfo | undefined => {
+    let parsedUrl: URL;
+    try {
+        parsedUrl = new URL(url);
+    } catch {
+        return undefined;
+    }
+
+    const hostname = parsedUrl.hostname.toLowerCase();
+    const host = YOUTUBE_HOSTNAMES.find(candidate => hostname === candidate || hostname.endsWith(`.${candidate}`));
+    if (!host) {
+        return undefined;
+    }
+
+    const params = parsedUrl.searchParams;
+    const segments = parsedUrl.pathname.split('/').filter(Boolean);
+    const fragmentStart = /(?:^#|&)t=([^&]+)/.exec(parsedUrl.hash)?.[1];
+    const info: YouTubeUrlInfo = {
+        playlistId: params.get('list') ?? undefined,
+        start: parseTimestamp(params.get('t')) ?? parseTimestamp(params.get('start')) ?? parseTimestamp(fragmentStart),
+        isShort: false
+    };
+
+    if (host === 'youtu.be') {
+        info.videoId = readVideoId(segments[0]);
+    } else if (segments[0] === 'watch') {
+        info.videoId = readVideoId(params.get('v')) ?? readVideoId(segments[1]);
+    } else if (segments[0] === 'clip') {
+        info.clipId = segments[1];
+    } else if (VIDEO_PATH_PREFIXES.includes(segments[0]) && segments[1] !== 'videoseries') {
+        info.videoId = readVideoId(segments[1]);
+        info.isShort = segments[0] === 'shorts';
+    } else if (segments[0] === 'attribution_link') {
+        // Shared links wrap the watch URL, e.g. `/attribution_link?u=/watch%3Fv%3D<id>`
+        const inner = params.get('u');
+        return inner ? parseYouTubeUrl(new URL(inner, 'https://www.youtube.com').href) : undefined;
+    } else {
+        info.videoId = readVideoId(params.get('v'));
+    }
+
+    return info.videoId || info.clipId ? info : undefined;
+};
+
+/**
+ * Extracts the video ID from a YouTube thumbnail URL, e.g. `https://i.ytimg.com/vi/<id>/hqdefault.jpg`.
+ * @param {string} url - Thumbnail URL.
+ * @returns {string | undefined} The video ID, if the URL points to a YouTube thumbnail.
+ */
+export const getVideoIdFromThumbnailUrl = (url: string): string | undefined => {
+    const match = /^https?:\/\/(?:i\d?\.ytimg\.com|img\.youtube\.com)\/vi(?:_webp)?\/([^/]+)\//i.exec(url);
+    return readVideoId(match?.[1]);
+};
+
+const youtubeUrlRegex = new RegExp(
+    `https?:\\/\\/(?:[\\w-]+\\.)*(?:${YOUTUBE_HOSTNAMES.map(hostname => hostname.replace(/\./g, '\\.')).join('|')})\\/[^\\s)<>"'\\]]*`,
+    'gi'
+);
+
+/**
+ * Finds the first link to a YouTube video in a text.
+ * @param {string} text - Text to search, e.g. note content.
+ * @param {string} videoId - ID of the video to find.
+ * @returns {YouTubeUrlInfo | undefined} Details of the first link to the video, if any.
+ */
+export const findYouTubeLink = (text: string, videoId: string): YouTubeUrlInfo | undefined => {
+    for (const [url] of text.matchAll(youtubeUrlRegex)) {
+        const info = parseYouTubeUrl(url.replace(/&amp;/g, '&'));
+        if (info?.videoId === videoId) {
+            return info;
+        }
+    }
+    return undefined;
+};